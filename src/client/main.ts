@@ -1,13 +1,14 @@
 import {Identity} from 'hadouken-js-adapter';
 
 import {TabAPI, TabAPIActions} from './APITypes';
-import {AddTabPayload, ApplicationUIConfig, CustomData, DropPosition, EndDragPayload, JoinTabGroupPayload, Layout, LayoutApp, LayoutName, SetTabClientPayload, TabGroupEventPayload, TabProperties, TabWindowOptions, UpdateTabPropertiesPayload} from './types';
+import {AddTabPayload, ApplicationUIConfig, CustomData, DropPosition, EndDragPayload, JoinTabGroupPayload, Layout, LayoutApp, LayoutAppData, LayoutExport, LayoutMetadata, LayoutName, LayoutProgressEventPayload, LayoutResult, LayoutStorage, PreviewTheme, RestoreLayoutOptions, RestoreLayoutPayload, SaveLayoutPayload, SetPreviewClientPayload, SetPreviewThemePayload, SetSnapConfigPayload, SetSnapPolicyPayload, SetStoredLayoutPayload, SetTabClientPayload, SnapConfig, SnapGroupEventPayload, SnapGroupId, SnapPolicy, SnapWindowsOptions, SnapWindowsPayload, TabGroupEventPayload, TabProperties, TabWindowOptions, UpdateTabPropertiesPayload} from './types';
 
 const IDENTITY = {
     uuid: 'layouts-service',
     name: 'layouts-service'
 };
 
+import {validateSerializable} from './validation';
 import {version} from './version';
 import {ChannelClient} from 'hadouken-js-adapter/out/types/src/api/interappbus/channel/client';
 
@@ -27,14 +28,27 @@ const getId = (() => {
     };
 })();
 
+/**
+ * The storage backend provided by this application, if any. Storage requests are only forwarded to this application
+ * whilst it is the service's current backend.
+ */
+let layoutStorage: LayoutStorage|null = null;
+
+function getLayoutStorage(): LayoutStorage {
+    if (!layoutStorage) {
+        throw new Error('This application is not providing layout storage');
+    }
+    return layoutStorage;
+}
+
 const channelPromise: Promise<ChannelClient> = fin.InterApplicationBus.Channel.connect({...IDENTITY, payload: {version}}).then((channel: ChannelClient) => {
     // Register service listeners
     channel.register('WARN', (payload: any) => console.warn(payload));  // tslint:disable-line:no-any
-    channel.register('join-snap-group', () => {
-        window.dispatchEvent(new Event('join-snap-group'));
+    channel.register('join-snap-group', (payload: SnapGroupEventPayload) => {
+        window.dispatchEvent(new CustomEvent<SnapGroupEventPayload>('join-snap-group', {detail: payload}));
     });
-    channel.register('leave-snap-group', () => {
-        window.dispatchEvent(new Event('leave-snap-group'));
+    channel.register('leave-snap-group', (payload: SnapGroupEventPayload) => {
+        window.dispatchEvent(new CustomEvent<SnapGroupEventPayload>('leave-snap-group', {detail: payload}));
     });
     channel.register('join-tab-group', (payload: JoinTabGroupPayload) => {
         window.dispatchEvent(new CustomEvent<JoinTabGroupPayload>('join-tab-group', {detail: payload}));
@@ -45,6 +59,15 @@ const channelPromise: Promise<ChannelClient> = fin.InterApplicationBus.Channel.c
     channel.register('tab-activated', (payload: TabGroupEventPayload) => {
         window.dispatchEvent(new CustomEvent<TabGroupEventPayload>('tab-activated', {detail: payload}));
     });
+    channel.register('layout-progress', (payload: LayoutProgressEventPayload) => {
+        window.dispatchEvent(new CustomEvent<LayoutProgressEventPayload>('layout-progress', {detail: payload}));
+    });
+
+    // Storage requests, sent if this application has registered itself as the service's layout storage backend
+    channel.register('getStoredLayout', (name: LayoutName) => getLayoutStorage().get(name));
+    channel.register('setStoredLayout', (payload: SetStoredLayoutPayload) => getLayoutStorage().set(payload.name, payload.layout));
+    channel.register('deleteStoredLayout', (name: LayoutName) => getLayoutStorage().delete(name));
+    channel.register('listStoredLayouts', () => getLayoutStorage().list());
 
     // Any unregistered action will simply return false
     channel.setDefaultAction(() => false);
@@ -71,11 +94,215 @@ export async function undockWindow(identity: Identity = getId()): Promise<void>
  *
  * Has no effect if 'identity' isn't currently snapped to any other window.
  *
- * @param identity A window belonging to the group that should be disbanded, defaults to the current window/group
+ * @param group The ID of the group that should be disbanded, or a window belonging to that group. Defaults to the current window/group
+ */
+export async function undockGroup(group: Identity|SnapGroupId = getId()): Promise<void> {
+    const channel: ChannelClient = await channelPromise;
+    return tryServiceDispatch<Identity|SnapGroupId, void>(channel, 'undockGroup', group);
+}
+
+/**
+ * Minimizes every window within a snap group.
+ *
+ * @param group The ID of the group to minimize, or a window belonging to that group. Defaults to the current window/group
+ */
+export async function minimizeSnapGroup(group: Identity|SnapGroupId = getId()): Promise<void> {
+    const channel: ChannelClient = await channelPromise;
+    return tryServiceDispatch<Identity|SnapGroupId, void>(channel, 'minimizeSnapGroup', group);
+}
+
+/**
+ * Resizes the windows within a snap group so that the group fills the work area of the monitor that it is on. Each
+ * window keeps it's position relative to the rest of the group.
+ *
+ * The group can be returned to it's previous arrangement by calling restoreSnapGroup.
+ *
+ * @param group The ID of the group to maximize, or a window belonging to that group. Defaults to the current window/group
+ */
+export async function maximizeSnapGroup(group: Identity|SnapGroupId = getId()): Promise<void> {
+    const channel: ChannelClient = await channelPromise;
+    return tryServiceDispatch<Identity|SnapGroupId, void>(channel, 'maximizeSnapGroup', group);
+}
+
+/**
+ * Restores any minimized windows within a snap group. If the group was maximized using maximizeSnapGroup, the
+ * windows are also returned to the bounds they had before the group was maximized.
+ *
+ * @param group The ID of the group to restore, or a window belonging to that group. Defaults to the current window/group
+ */
+export async function restoreSnapGroup(group: Identity|SnapGroupId = getId()): Promise<void> {
+    const channel: ChannelClient = await channelPromise;
+    return tryServiceDispatch<Identity|SnapGroupId, void>(channel, 'restoreSnapGroup', group);
+}
+
+/**
+ * Snaps one window to an edge of another window, grouping them together. This has the same effect as the user dragging
+ * 'source' next to 'target'.
+ *
+ * If 'source' is already grouped with other windows, the whole group will be moved. 'target' will never be moved. If the
+ * windows can't be snapped together in the requested position (for example, because it would cause windows to overlap)
+ * the promise will reject, and no changes will be made.
+ *
+ * @param source The window to move
+ * @param target The window to snap 'source' to
+ * @param options The edge of 'target' to snap 'source' to, and how to align the two windows
+ */
+export async function snapWindows(source: Identity, target: Identity, options: SnapWindowsOptions): Promise<void> {
+    if (!source || !source.name || !source.uuid) {
+        return Promise.reject('Invalid source window provided');
+    }
+    if (!target || !target.name || !target.uuid) {
+        return Promise.reject('Invalid target window provided');
+    }
+    if (!options || ['top', 'bottom', 'left', 'right'].indexOf(options.edge) === -1) {
+        return Promise.reject('Invalid edge provided');
+    }
+    if (options.align !== undefined && ['start', 'center', 'end'].indexOf(options.align) === -1) {
+        return Promise.reject('Invalid alignment provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<SnapWindowsPayload, void>(channel, 'snapWindows', {source, target, options});
+}
+
+/**
+ * Returns the ID of the snap group that a window currently belongs to.
+ *
+ * Every window belongs to a group, even when it isn't snapped to any other windows. A window's group will change
+ * whenever it is snapped or undocked, the 'join-snap-group' and 'leave-snap-group' events can be used to track this.
+ *
+ * @param identity The window to query, defaults to the current window
+ */
+export async function getSnapGroup(identity: Identity = getId()): Promise<SnapGroupId> {
+    if (!identity || !identity.name || !identity.uuid) {
+        return Promise.reject('Invalid window provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<Identity, SnapGroupId>(channel, 'getSnapGroup', identity);
+}
+
+/**
+ * Returns the identities of every window within a snap group.
+ *
+ * @param groupId A group ID, as returned by getSnapGroup or included within a snap group event
+ */
+export async function getSnapGroupWindows(groupId: SnapGroupId): Promise<Identity[]> {
+    if (typeof groupId !== 'number') {
+        return Promise.reject('Invalid groupId provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<SnapGroupId, Identity[]>(channel, 'getSnapGroupWindows', groupId);
+}
+
+/**
+ * Overrides the snap thresholds for all windows belonging to an application. Any thresholds not included in 'config'
+ * will keep their current values.
+ *
+ * When windows from different applications are snapped together, the smallest value of each threshold is used.
+ *
+ * @param uuid The application to apply the config to
+ * @param config The thresholds to override
+ */
+export async function setSnapConfig(uuid: string, config: Partial<SnapConfig>): Promise<void> {
+    if (!uuid) {
+        return Promise.reject('Invalid uuid provided');
+    }
+    if (!config || typeof config !== 'object') {
+        return Promise.reject('Invalid config provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<SetSnapConfigPayload, void>(channel, 'setSnapConfig', {uuid, config});
+}
+
+/**
+ * Restricts how a window can be snapped to other windows. Any values not included in 'policy' will keep their current
+ * values. A window's initial policy can also be set by adding a 'snapPolicy' object to the 'customData' of it's options.
+ *
+ * Changes to a window's policy only affect future snaps - the window will remain in it's current group.
+ *
+ * @param identity The window to apply the policy to
+ * @param policy The policy values to change
+ */
+export async function setSnapPolicy(identity: Identity, policy: Partial<SnapPolicy>): Promise<void> {
+    if (!identity || !identity.name || !identity.uuid) {
+        return Promise.reject('Invalid window provided');
+    }
+    if (!policy || typeof policy !== 'object') {
+        return Promise.reject('Invalid policy provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<SetSnapPolicyPayload, void>(channel, 'setSnapPolicy', {identity, policy});
+}
+
+/**
+ * Overrides the appearance of the snap preview for all windows belonging to an application. Any values not included in
+ * 'theme' will keep their current values.
+ *
+ * @param uuid The application to apply the theme to
+ * @param theme The theme values to override
  */
-export async function undockGroup(identity: Identity = getId()): Promise<void> {
+export async function setPreviewTheme(uuid: string, theme: Partial<PreviewTheme>): Promise<void> {
+    if (!uuid) {
+        return Promise.reject('Invalid uuid provided');
+    }
+    if (!theme || typeof theme !== 'object') {
+        return Promise.reject('Invalid theme provided');
+    }
     const channel: ChannelClient = await channelPromise;
-    return tryServiceDispatch<Identity, void>(channel, 'undockGroup', identity);
+
+    return tryServiceDispatch<SetPreviewThemePayload, void>(channel, 'setPreviewTheme', {uuid, theme});
+}
+
+/**
+ * Replaces the snap preview with a page provided by the application. This binding happens on the application level,
+ * the page will be used whenever a window belonging to the current application is being dragged.
+ *
+ * The page will be loaded into a frameless window for each window being previewed, and will receive a 'message' event
+ * containing a PreviewUpdate each time the preview changes.
+ *
+ * @param url URL of the preview page, or null to revert to the service's own preview
+ */
+export async function setPreviewClient(url: string|null): Promise<void> {
+    if (url !== null) {
+        try {
+            // tslint:disable-next-line:no-unused-expression
+            new URL(url);
+        } catch (e) {
+            return Promise.reject(e);
+        }
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<SetPreviewClientPayload, void>(channel, 'setPreviewClient', {url});
+}
+
+/**
+ * Reverts the most recent change to the layout. Snapping, undocking and exploding groups, as well as adding windows to
+ * and removing windows from tab groups can all be undone. Each window involved is returned to it's previous position,
+ * snap group and tab group.
+ *
+ * Resolves to false if there were no changes to undo.
+ */
+export async function undoLastLayoutChange(): Promise<boolean> {
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<undefined, boolean>(channel, 'undoLastLayoutChange');
+}
+
+/**
+ * Re-applies the most recent change that was reverted by undoLastLayoutChange. Changes can no longer be re-done once
+ * any other change is made to the layout.
+ *
+ * Resolves to false if there were no changes to redo.
+ */
+export async function redoLayoutChange(): Promise<boolean> {
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<undefined, boolean>(channel, 'redoLayoutChange');
 }
 
 /**
@@ -91,27 +318,48 @@ export async function deregister(identity: Identity = getId()): Promise<void> {
 /**
  * Registers an event listener for grouping events
  * @param {string} eventType Event to be subscribed to. Valid options are 'join-snap-group' and 'leave-snap-group'
- * @param {() => void} callback Function to be executed on event firing. Takes no arguments and returns void.
+ * @param {() => void} callback Function to be executed on event firing. Snap group events will contain a SnapGroupEventPayload within the event's 'detail'.
+ * 'layout-progress' events will contain a LayoutProgressEventPayload, and are received whilst a layout requested by this window is being generated or restored.
  */
 // export async function addEventListener(eventType: 'join-tab-group' | 'leave-tab-group', callback: (customEvent: TabEvent) => void): Promise<void>;
 export async function addEventListener(
-    eventType: 'join-snap-group'|'leave-snap-group'|'join-tab-group'|'leave-tab-group'|'tab-activated',
-    callback: (customEvent: Event|CustomEvent<TabGroupEventPayload>) => void): Promise<void> {
+    eventType: 'join-snap-group'|'leave-snap-group'|'join-tab-group'|'leave-tab-group'|'tab-activated'|'layout-progress',
+    callback: (customEvent: Event|CustomEvent<SnapGroupEventPayload>|CustomEvent<TabGroupEventPayload>|CustomEvent<LayoutProgressEventPayload>) =>
+        void): Promise<void> {
     // Use native js event system to pass internal events around.
     // Without this we would need to handle multiple registration ourselves.
     window.addEventListener(eventType, callback);
 }
 
 /**
- * Decide which parts of this you will implement, alter LayoutApp object to reflect this then send it back
+ * Registers a callback that is called whenever a layout is saved, allowing this application to add it's own data to
+ * the layout - both for the application as a whole, and for each of it's windows. The data is passed back to the
+ * application's onAppRestore callback when the layout is restored.
+ *
+ * The callback can either return a LayoutAppData object, or (as with earlier versions of this API) the application's
+ * data directly. Any value other than an object containing only 'customData' and/or 'windows' is saved as-is as the
+ * 'customData' of the application.
+ *
+ * The data must be serializable as JSON, and is subject to a size limit within the service. If the data is invalid,
+ * or the callback doesn't return within the service's save timeout, the application is saved without any data.
+ *
+ * @param customDataDecorator Called with the application's part of the layout, returns the data to add to the layout
  */
-export async function onApplicationSave(customDataDecorator: () => CustomData): Promise<boolean> {
+export async function onApplicationSave(customDataDecorator: (layoutApp: LayoutApp) => LayoutAppData | CustomData | Promise<LayoutAppData|CustomData>):
+    Promise<boolean> {
     const channel: ChannelClient = await channelPromise;
-    return channel.register('savingLayout', customDataDecorator);
+    return channel.register('savingLayout', async(layoutApp: LayoutApp): Promise<LayoutAppData|CustomData> => {
+        const data: LayoutAppData|CustomData = await customDataDecorator(layoutApp);
+
+        validateSerializable(data, 'data');
+        return data;
+    });
 }
 
 /**
  * Get the layoutApp object, implement, then return implemented LayoutApp object (minus anything not implemented)
+ *
+ * Any data added by onApplicationSave is included within the 'customData' of the LayoutApp and of each window.
  */
 export async function onAppRestore(layoutDecorator: (layoutApp: LayoutApp) => LayoutApp | false | Promise<LayoutApp|false>): Promise<boolean> {
     const channel: ChannelClient = await channelPromise;
@@ -134,19 +382,160 @@ export async function onLayoutRestore(listener: (layoutApp: LayoutApp) => void):
     return channel.register('layoutRestored', listener);
 }
 /**
- * Generate the Layout object for the current Layout
+ * Generate the Layout object for the current Layout. The result also lists which applications were saved, and which
+ * timed out or failed whilst providing their data.
+ *
+ * 'layout-progress' events are sent to this window as each application is saved.
+ */
+export async function generateLayout(): Promise<LayoutResult> {
+    const channel: ChannelClient = await channelPromise;
+    return tryServiceDispatch<undefined, LayoutResult>(channel, 'generateLayout');
+}
+
+/**
+ * Restore a layout from a Layout object, or from a layout that has been saved within the service's layout store. The
+ * result contains the restored layout, and lists which applications were restored, and which timed out or failed.
+ *
+ * 'layout-progress' events are sent to this window as each application is restored.
+ *
+ * Part of a layout can be restored by passing options that select which windows to restore (see RestoreLayoutOptions).
+ * The result then contains only the selected part of the layout.
+ *
+ * @param payload The layout to restore, or the name of a saved layout
+ * @param options Selects the applications, monitor or group to restore. By default, the whole layout is restored.
+ */
+export async function restoreLayout(payload: Layout|LayoutName, options?: RestoreLayoutOptions): Promise<LayoutResult> {
+    if (options !== undefined && (!options || typeof options !== 'object')) {
+        return Promise.reject('Invalid restore options provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<RestoreLayoutPayload, LayoutResult>(channel, 'restoreLayout', {layout: payload, options});
+}
+
+/**
+ * Converts a layout into a portable format, that can be shared between users and machines. Any details that are
+ * specific to the current machine are removed, and windows are positioned relative to the monitor they are on.
+ *
+ * @param layout A layout, such as the layout returned by generateLayout
  */
-export async function generateLayout(): Promise<Layout> {
+export async function exportLayout(layout: Layout): Promise<LayoutExport> {
+    if (!layout || typeof layout !== 'object') {
+        return Promise.reject('Invalid layout provided');
+    }
     const channel: ChannelClient = await channelPromise;
-    return tryServiceDispatch<undefined, Layout>(channel, 'generateLayout');
+
+    return tryServiceDispatch<Layout, LayoutExport>(channel, 'exportLayout', layout);
 }
 
 /**
- * Restore a layout from a Layout object
+ * Converts a layout created by exportLayout back into a layout, that can then be passed to restoreLayout. Windows
+ * are positioned onto the monitors of the current machine.
+ *
+ * @param layoutExport An exported layout
  */
-export async function restoreLayout(payload: Layout): Promise<Layout> {
+export async function importLayout(layoutExport: LayoutExport): Promise<Layout> {
+    if (!layoutExport || typeof layoutExport !== 'object') {
+        return Promise.reject('Invalid layout export provided');
+    }
     const channel: ChannelClient = await channelPromise;
-    return tryServiceDispatch<Layout, Layout>(channel, 'restoreLayout', payload);
+
+    return tryServiceDispatch<LayoutExport, Layout>(channel, 'importLayout', layoutExport);
+}
+
+/**
+ * Saves a layout within the service's layout store, replacing any existing layout with the same name.
+ *
+ * @param name The name to save the layout as
+ * @param layout The layout to save. If not specified, the current layout is generated and saved.
+ */
+export async function saveLayout(name: LayoutName, layout?: Layout): Promise<LayoutMetadata> {
+    if (!name || typeof name !== 'string') {
+        return Promise.reject('Invalid layout name provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<SaveLayoutPayload, LayoutMetadata>(channel, 'saveLayout', {name, layout});
+}
+
+/**
+ * Returns the name, creation time and modification time of every layout within the service's layout store.
+ */
+export async function listLayouts(): Promise<LayoutMetadata[]> {
+    const channel: ChannelClient = await channelPromise;
+    return tryServiceDispatch<undefined, LayoutMetadata[]>(channel, 'listLayouts');
+}
+
+/**
+ * Returns a layout from the service's layout store. Rejects if there is no layout with the given name.
+ *
+ * @param name The name of a saved layout
+ */
+export async function getLayout(name: LayoutName): Promise<Layout> {
+    if (!name || typeof name !== 'string') {
+        return Promise.reject('Invalid layout name provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<LayoutName, Layout>(channel, 'getLayout', name);
+}
+
+/**
+ * Removes a layout from the service's layout store. Rejects if there is no layout with the given name.
+ *
+ * @param name The name of a saved layout
+ */
+export async function deleteLayout(name: LayoutName): Promise<void> {
+    if (!name || typeof name !== 'string') {
+        return Promise.reject('Invalid layout name provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<LayoutName, void>(channel, 'deleteLayout', name);
+}
+
+/**
+ * Replaces the backend used by the service's layout store. Once set, every layout saved, read or deleted through the
+ * store (by any application) is passed to 'storage'.
+ *
+ * Layouts are not copied between backends - any layouts within the service's default backend will not be visible
+ * until the default backend is restored by passing null. Only the window that set the current backend can replace it or
+ * restore the default backend, and the service will also restore the default backend if that window is closed.
+ *
+ * @param storage The backend to use, or null to return to the service's default backend
+ */
+export async function setLayoutStorage(storage: LayoutStorage|null): Promise<void> {
+    const channel: ChannelClient = await channelPromise;
+
+    await tryServiceDispatch<boolean, void>(channel, 'setLayoutStorage', !!storage);
+
+    layoutStorage = storage;
+}
+
+/**
+ * Returns the recovery snapshots saved by the service, with the most recent snapshot first. Snapshots are only saved if
+ * autosave is enabled within the service's manifest.
+ *
+ * Snapshots from before the service was last started can be offered to the user, to recover the layout they had
+ * before the service was closed.
+ */
+export async function getRecoverySnapshots(): Promise<LayoutMetadata[]> {
+    const channel: ChannelClient = await channelPromise;
+    return tryServiceDispatch<undefined, LayoutMetadata[]>(channel, 'getRecoverySnapshots');
+}
+
+/**
+ * Restores a recovery snapshot, in the same way as restoreLayout. Rejects if there are no snapshots.
+ *
+ * @param name The name of the snapshot to restore, as returned by getRecoverySnapshots. Defaults to the most recent snapshot.
+ */
+export async function restoreRecoverySnapshot(name?: LayoutName): Promise<LayoutResult> {
+    if (name !== undefined && (!name || typeof name !== 'string')) {
+        return Promise.reject('Invalid snapshot name provided');
+    }
+    const channel: ChannelClient = await channelPromise;
+
+    return tryServiceDispatch<LayoutName|undefined, LayoutResult>(channel, 'restoreRecoverySnapshot', name);
 }
 
 /**
@@ -39,14 +39,351 @@ export interface LayoutApp {
     customData?: any;  // applications can add any context or other necessary data here
 }
 
+/**
+ * Data that an application adds to a layout when it is saved, returned from the callback passed to onApplicationSave.
+ * This data is passed back to the application (within the LayoutApp given to onAppRestore) when the layout is
+ * restored, and can be used to rebuild the application's internal state.
+ *
+ * All data must be serializable as JSON, and the data of each application is subject to a size limit (see
+ * WorkspaceConfig).
+ */
+export interface LayoutAppData {
+    /**
+     * Saved as the 'customData' of the application's LayoutApp
+     */
+    customData?: CustomData;
+
+    /**
+     * Data for individual windows of the application, keyed by window name. Each value is saved as the 'customData' of
+     * that window's WindowState.
+     */
+    windows?: {[name: string]: CustomData};
+}
+
 export type LayoutName = string;
 
+/**
+ * Information about a layout that has been saved within the service's layout store.
+ */
+export interface LayoutMetadata {
+    name: LayoutName;
+
+    /**
+     * The time at which a layout with this name was first saved, in milliseconds since the Unix epoch
+     */
+    created: number;
+
+    /**
+     * The time at which this layout was last saved, in milliseconds since the Unix epoch
+     */
+    modified: number;
+}
+
+/**
+ * A layout, along with it's metadata, as held by a layout storage backend.
+ */
+export interface StoredLayout {
+    metadata: LayoutMetadata;
+    layout: Layout;
+}
+
+/**
+ * A backend that the service's layout store can use to persist layouts. By default, the service stores layouts in
+ * IndexedDB. Applications can provide their own backend (for example, to store layouts on a server) using
+ * setLayoutStorage.
+ *
+ * Each function may return a value or a promise. Any errors thrown by the backend are passed on to the caller.
+ */
+export interface LayoutStorage {
+    /**
+     * Returns the layout with the given name, or null if no layout with that name exists
+     */
+    get(name: LayoutName): StoredLayout|null|Promise<StoredLayout|null>;
+
+    /**
+     * Adds a layout to the store, replacing any existing layout with the same name
+     */
+    set(name: LayoutName, layout: StoredLayout): void|Promise<void>;
+
+    /**
+     * Removes a layout from the store. Returns false if no layout with that name exists.
+     */
+    delete(name: LayoutName): boolean|Promise<boolean>;
+
+    /**
+     * Returns the metadata of every layout within the store
+     */
+    list(): LayoutMetadata[]|Promise<LayoutMetadata[]>;
+}
+
+export interface SaveLayoutPayload {
+    name: LayoutName;
+    layout?: Layout;
+}
+
+export interface SetStoredLayoutPayload {
+    name: LayoutName;
+    layout: StoredLayout;
+}
+
 export interface Layout {
     type: 'layout';
-    monitorInfo: any;  // saving but not using yet
+
+    /**
+     * Version of the layout format. Layouts saved by older versions of the service are upgraded to the current format
+     * before being restored.
+     */
+    version: number;
+
+    monitorInfo: any;  // used to remap windows if the layout is restored on a different monitor setup
     customData?: any;
     apps: LayoutApp[];
     tabGroups: TabBlob[];
+
+    /**
+     * Every snap group within the layout that contains two or more windows. Tabbed windows are saved within 'tabGroups'
+     * instead.
+     */
+    snapGroups: LayoutSnapGroup[];
+}
+
+/**
+ * A snap group, as saved within a layout.
+ */
+export interface LayoutSnapGroup {
+    /**
+     * ID of the group at the time the layout was generated. IDs are only unique within a single layout.
+     */
+    id: number;
+
+    /**
+     * Every window within the group
+     */
+    windows: LayoutSnapGroupWindow[];
+}
+
+/**
+ * A window within a saved snap group. Windows are positioned relative to the other windows in their group, so that
+ * restored windows are always flush with each other.
+ */
+export interface LayoutSnapGroupWindow {
+    uuid: string;
+    name: string;
+
+    /**
+     * Position of the top-left corner of this window, relative to the top-left corner of the group's bounding box
+     */
+    offset: {x: number; y: number};
+
+    width: number;
+    height: number;
+}
+
+/**
+ * A portable version of a layout, that can be shared between users and machines (e.g. by checking it into a
+ * repository). Created from a layout using exportLayout, and converted back into a layout using importLayout.
+ *
+ * Exported layouts contain only the information needed to re-create the layout - anything specific to the machine the
+ * layout was generated on (window info, application options and placeholder windows) is removed. Windows are positioned
+ * relative to the work area of a monitor, rather than using absolute co-ordinates.
+ */
+export interface LayoutExport {
+    type: 'layout-export';
+
+    /**
+     * Version of the export format. This is versioned separately from the layout format.
+     */
+    version: number;
+
+    /**
+     * The size of the work area of each monitor that the layout was generated on. The first monitor is the primary
+     * monitor.
+     */
+    monitors: ExportedMonitor[];
+
+    apps: ExportedApp[];
+    tabGroups: ExportedTabGroup[];
+
+    /**
+     * Snap groups, in the same format as within a layout. Windows are identified by the 'appId' of their application.
+     */
+    snapGroups: LayoutSnapGroup[];
+}
+
+export interface ExportedMonitor {
+    width: number;
+    height: number;
+}
+
+/**
+ * Bounds of a window or tab group, relative to the top-left corner of the work area of a monitor.
+ */
+export interface ExportedBounds {
+    /**
+     * Index of the monitor, within the 'monitors' of the exported layout
+     */
+    monitor: number;
+
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface ExportedApp {
+    /**
+     * Logical identifier of the application. Set to the application's UUID when a layout is exported, and used as the
+     * UUID of the application when the layout is imported.
+     */
+    appId: string;
+
+    /**
+     * The manifest that the application is launched from. Applications that were created programmatically will instead
+     * have a 'url'.
+     */
+    manifestUrl?: string;
+
+    /**
+     * URL of the main window of an application that was created programmatically
+     */
+    url?: string;
+
+    /**
+     * If the application will restore it's own child windows, as with 'confirmed' within a layout
+     */
+    confirmed?: boolean;
+
+    customData?: CustomData;
+    mainWindow: ExportedWindow;
+    childWindows: ExportedWindow[];
+}
+
+export interface ExportedWindow {
+    name: string;
+    url?: string;
+    bounds: ExportedBounds;
+    state: string;
+    isShowing: boolean;
+    frame: boolean;
+    isTabbed: boolean;
+    customData?: CustomData;
+}
+
+export interface ExportedTabGroup {
+    url: string;
+    active: TabIdentifier;
+    tabs: TabIdentifier[];
+
+    /**
+     * Bounds of the tab group, including the tabstrip
+     */
+    bounds: ExportedBounds;
+
+    /**
+     * Height of the tabstrip
+     */
+    tabGroupHeight: number;
+}
+
+/**
+ * The outcome of saving or restoring a single application.
+ *
+ * - 'success': The application was saved or restored. Applications that aren't connected to the service are saved and
+ *   restored by the service alone, and will always succeed unless an error occurs.
+ * - 'timeout': The application didn't respond within the timeout (see WorkspaceConfig). The application is saved
+ *   without any data of it's own, or restored without waiting for it's child windows.
+ * - 'failed': An error occurred whilst saving or restoring the application.
+ */
+export type LayoutAppStatus = 'success'|'timeout'|'failed';
+
+export interface LayoutAppResult {
+    uuid: string;
+    status: LayoutAppStatus;
+
+    /**
+     * Description of the error, if the status is 'failed'
+     */
+    error?: string;
+}
+
+/**
+ * Returned by generateLayout and restoreLayout. Lists the outcome of each application within the layout, in the same
+ * order as the layout's 'apps'.
+ */
+export interface LayoutResult {
+    layout: Layout;
+    apps: LayoutAppResult[];
+}
+
+/**
+ * Detail of the 'layout-progress' event. Sent to the application that called generateLayout or restoreLayout each time
+ * an application within the layout has been saved or restored.
+ */
+export interface LayoutProgressEventPayload {
+    operation: 'generate'|'restore';
+
+    /**
+     * The application that has just completed
+     */
+    app: LayoutAppResult;
+
+    /**
+     * The number of applications that have completed so far, including this one
+     */
+    completed: number;
+
+    /**
+     * The number of applications within the layout
+     */
+    total: number;
+}
+
+/**
+ * Selects part of a layout to restore, so that only some windows are restored and the rest of the desktop is left as it
+ * is. A window is restored if it matches every filter that is specified - if no filters are given, the whole layout is
+ * restored.
+ *
+ * Snap groups and tab groups are always restored as a whole. If a group contains any of the selected windows, every
+ * other window within that group is restored too, so that the group's windows remain attached to each other.
+ */
+export interface RestoreLayoutOptions {
+    /**
+     * Only restore windows belonging to these applications
+     */
+    uuids?: string[];
+
+    /**
+     * Only restore windows that were on this monitor when the layout was generated. Monitors are indexed using the
+     * layout's monitorInfo - 0 is the primary monitor, and 1 onwards are the entries of 'nonPrimaryMonitors'.
+     */
+    monitor?: number;
+
+    /**
+     * Only restore windows within the saved snap group with this ID
+     */
+    snapGroup?: number;
+
+    /**
+     * Only restore windows within this tab group, given as an index into the layout's 'tabGroups'
+     */
+    tabGroup?: number;
+
+    /**
+     * Controls what happens to windows outside of the selection. Defaults to 'app'.
+     *
+     * - 'app': Every window of any application that has a selected window is restored.
+     * - 'window': Only the selected windows are restored. Any other windows are left where they are, including other
+     *   windows belonging to the same applications. An application's main window is still positioned if the application
+     *   has to be started.
+     */
+    scope?: RestoreScope;
+}
+
+export type RestoreScope = 'app'|'window';
+
+export interface RestoreLayoutPayload {
+    layout: Layout|LayoutName;
+    options?: RestoreLayoutOptions;
 }
 
 export interface AppToRestore {
@@ -215,4 +552,460 @@ export interface UpdateTabPropertiesPayload {
 export interface EndDragPayload {
     event: DropPosition;
     window: Identity;
-}
\ No newline at end of file
+}
+
+/**
+ * Thresholds that control when windows will snap together.
+ *
+ * The service has a default value for each threshold, which can be overridden within the service manifest or, for
+ * windows belonging to a particular application, using the client API.
+ */
+export interface SnapConfig {
+    /**
+     * The maximum distance at which two windows will snap together.
+     */
+    snapDistance: number;
+
+    /**
+     * If two window corners would snap to a distance less than this threshold, the active window will be snapped to
+     * the corner of the candidate window.
+     *
+     * This radius essentially defines how "sticky" the corners of windows are. Larger values makes it easier to align
+     * windows.
+     */
+    anchorDistance: number;
+
+    /**
+     * The minimum amount of overlap required for two window edges to snap together.
+     */
+    minOverlap: number;
+
+    /**
+     * The maximum distance at which a window will be aligned with a nearby window that it isn't touching. Windows can
+     * be aligned by their top, bottom, left or right edges, or by their centres. Aligned windows are not grouped.
+     *
+     * Set to zero to disable alignment.
+     */
+    alignDistance: number;
+}
+
+/**
+ * Configuration that can be specified within the service's manifest, under a top-level 'config' property.
+ */
+export interface ServiceConfig {
+    /**
+     * Replaces the service's default snap thresholds. Any values not specified here will keep their default values.
+     */
+    snap?: Partial<SnapConfig>;
+
+    /**
+     * Replaces the service's default hotkeys. Any actions not specified here will keep their default hotkey.
+     */
+    hotkeys?: Partial<HotkeyConfig>;
+
+    /**
+     * Replaces the service's default snap preview theme. Any values not specified here will keep their default values.
+     */
+    preview?: Partial<PreviewTheme>;
+
+    /**
+     * Enables animated window movement. Any values not specified here will keep their default values.
+     */
+    animation?: Partial<AnimationConfig>;
+
+    /**
+     * Controls whether minimizing or restoring a snapped window applies to the rest of it's group. Any values not
+     * specified here will keep their default values.
+     */
+    groupState?: Partial<GroupStateConfig>;
+
+    /**
+     * Replaces the service's default timeouts when saving and restoring layouts. Any values not specified here will
+     * keep their default values.
+     */
+    workspace?: Partial<WorkspaceConfig>;
+
+    /**
+     * Enables automatic saving of the current layout. Any values not specified here will keep their default values.
+     */
+    autosave?: Partial<AutosaveConfig>;
+}
+
+/**
+ * Controls the automatic saving of recovery snapshots. When enabled, the service generates a new snapshot of the
+ * current layout shortly after windows are opened, closed, moved, grouped or tabbed. Snapshots are kept separately
+ * from the layouts within the service's layout store.
+ */
+export interface AutosaveConfig {
+    /**
+     * If snapshots should be saved. Disabled by default.
+     */
+    enabled: boolean;
+
+    /**
+     * How long to wait after the most recent change before saving a snapshot, in milliseconds
+     */
+    delay: number;
+
+    /**
+     * The number of snapshots to keep. Once this limit is reached, the oldest snapshot is removed each time a new
+     * snapshot is saved.
+     */
+    maxSnapshots: number;
+
+    /**
+     * If the most recent snapshot should be restored when the service starts. If disabled, applications can instead
+     * offer the snapshot to the user, using getRecoverySnapshots and restoreRecoverySnapshot.
+     */
+    restoreOnStartup: boolean;
+}
+
+/**
+ * Controls how long the service will wait for each application whilst saving and restoring layouts, so that a single
+ * unresponsive application can't block the whole layout.
+ */
+export interface WorkspaceConfig {
+    /**
+     * How long an application has to respond when it's data is requested by generateLayout, in milliseconds
+     */
+    saveTimeout: number;
+
+    /**
+     * How long restoreLayout will wait for each application to start (if required) and restore it's child windows, in
+     * milliseconds
+     */
+    restoreTimeout: number;
+
+    /**
+     * The maximum size of the data that each application can add to a layout, measured as the length of the data once
+     * serialized to JSON. Applications that exceed this limit are saved without their data.
+     */
+    customDataSizeLimit: number;
+}
+
+/**
+ * Determines how changes to the state of a single window affect the other windows in it's snap group.
+ *
+ * Both options are enabled by default.
+ */
+export interface GroupStateConfig {
+    /**
+     * If the user minimizes any window within a snap group, every window in that group will be minimized.
+     */
+    minimizeGroup: boolean;
+
+    /**
+     * If the user restores any window within a snap group, every minimized window in that group will also be restored.
+     */
+    restoreGroup: boolean;
+}
+
+/**
+ * The operations that can be animated. 'restore' applies to windows being positioned by restoreLayout.
+ */
+export type AnimatedOperation = 'snap'|'undock'|'explode'|'restore';
+
+/**
+ * Easing functions that can be used when animating windows. These are the same as the tween types supported by the
+ * OpenFin runtime.
+ */
+export type AnimationEasing = 'linear'|'ease-in'|'ease-out'|'ease-in-out'|'ease-in-quad'|'ease-out-quad'|'ease-in-out-quad'|'ease-in-cubic'|'ease-out-cubic'|
+    'ease-in-out-cubic'|'ease-out-bounce'|'ease-in-back'|'ease-out-back'|'ease-in-out-back'|'ease-in-elastic'|'ease-out-elastic'|'ease-in-out-elastic';
+
+/**
+ * Controls how windows are moved when they are snapped, undocked, exploded or restored by the service.
+ *
+ * Animations are disabled by default, and windows jump straight to their new position. If a window is moved again
+ * whilst it is still animating, the existing animation is stopped and the window moves from wherever it currently is
+ * to it's new position.
+ */
+export interface AnimationConfig {
+    /**
+     * How long each animation lasts, in milliseconds. A duration of zero disables animations.
+     */
+    duration: number;
+
+    /**
+     * The easing function used by each animation
+     */
+    easing: AnimationEasing;
+
+    /**
+     * The operations that should be animated. Any other operations will move windows instantly.
+     */
+    operations: AnimatedOperation[];
+}
+
+/**
+ * The global hotkeys used by the service. Each hotkey applies to whichever window currently has focus.
+ *
+ * Hotkeys use the same format as 'fin.GlobalHotkey' (e.g. 'CommandOrControl+Shift+U'). Set an action to null to
+ * disable it.
+ */
+export interface HotkeyConfig {
+    /**
+     * Undocks the focused window from it's group
+     */
+    undock: string|null;
+
+    /**
+     * Undocks every window in the focused window's group
+     */
+    explode: string|null;
+
+    /**
+     * Moves focus to the next window within the focused window's group
+     */
+    cycleFocus: string|null;
+
+    /**
+     * Docks the focused window to the closest window to it's left
+     */
+    dockLeft: string|null;
+
+    /**
+     * Docks the focused window to the closest window above it
+     */
+    dockTop: string|null;
+
+    /**
+     * Docks the focused window to the closest window to it's right
+     */
+    dockRight: string|null;
+
+    /**
+     * Docks the focused window to the closest window below it
+     */
+    dockBottom: string|null;
+
+    /**
+     * Reverts the most recent snap, undock or tab operation
+     */
+    undo: string|null;
+
+    /**
+     * Re-applies the most recently undone operation
+     */
+    redo: string|null;
+}
+
+export interface SetSnapConfigPayload {
+    uuid: string;
+    config: Partial<SnapConfig>;
+}
+
+/**
+ * Uniquely identifies a group of snapped windows. Ids are never re-used within the lifetime of the service.
+ *
+ * Every window that is registered with the service belongs to a group, even if it isn't snapped to any other windows.
+ * The group of a window will change each time it is snapped or undocked.
+ */
+export type SnapGroupId = number;
+
+/**
+ * An edge of a window
+ */
+export type SnapEdge = 'top'|'bottom'|'left'|'right';
+
+/**
+ * A window that is directly snapped to another window.
+ */
+export interface SnapNeighbour {
+    /**
+     * The neighbouring window
+     */
+    identity: Identity;
+
+    /**
+     * The edge of the window receiving the event that touches this neighbour.
+     *
+     * e.g. 'right' means the neighbour is snapped along the right-hand edge of the window.
+     */
+    edge: SnapEdge;
+}
+
+/**
+ * Detail of the 'join-snap-group' and 'leave-snap-group' events.
+ *
+ * Windows that are already within a group will receive another 'join-snap-group' event whenever a window joins or
+ * leaves their group, with the updated windows and neighbours.
+ */
+export interface SnapGroupEventPayload {
+    /**
+     * The group that the window has joined or left
+     */
+    groupId: SnapGroupId;
+
+    /**
+     * Every window within the group, including the window receiving the event.
+     *
+     * For 'leave-snap-group' events, this will be the windows that remain within the group the window has just left.
+     */
+    windows: Identity[];
+
+    /**
+     * The windows within the group that the window receiving the event is directly snapped to.
+     *
+     * Will always be empty for 'leave-snap-group' events.
+     */
+    neighbours: SnapNeighbour[];
+}
+
+/**
+ * How a window should be positioned along the edge of the window it is being snapped to.
+ *
+ * 'start' aligns the top/left edges of the two windows, 'end' aligns the bottom/right edges and 'center' centers the
+ * window along the edge.
+ */
+export type SnapAlignment = 'start'|'center'|'end';
+
+export interface SnapWindowsOptions {
+    /**
+     * The edge of the target window that the source window will be snapped to
+     */
+    edge: SnapEdge;
+
+    /**
+     * Where the source window will be placed along the target edge. Defaults to 'start'.
+     *
+     * As with snapping windows by dragging them, the final position may be adjusted to align the source window with
+     * the corners of other nearby windows.
+     */
+    align?: SnapAlignment;
+}
+
+export interface SnapWindowsPayload {
+    source: Identity;
+    target: Identity;
+    options: SnapWindowsOptions;
+}
+
+/**
+ * Controls the appearance of the snap preview - the rectangles that are shown whilst a window is being dragged,
+ * indicating where that window will be placed.
+ *
+ * As with SnapConfig, there is a default theme that can be overridden within the service manifest or, for windows
+ * belonging to a particular application, using the client API.
+ */
+export interface PreviewTheme {
+    /**
+     * CSS 'background' of the preview when the window can be snapped to the current target
+     */
+    validBackground: string;
+
+    /**
+     * CSS 'background' of the preview when the window can't be snapped to the current target (e.g. because it would
+     * overlap another window)
+     */
+    invalidBackground: string;
+
+    /**
+     * CSS 'border' of the preview (e.g. '4px solid #FFFF00'). Use 'none' to show the preview without a border.
+     */
+    border: string;
+
+    /**
+     * Opacity of the preview, between 0 and 1
+     */
+    opacity: number;
+
+    /**
+     * Opacity that is applied to the windows being snapped to whilst the preview is visible, between 0 and 1
+     */
+    targetOpacity: number;
+
+    /**
+     * If true, the preview will include a label that indicates which edge(s) of the window are being snapped
+     */
+    showEdgeLabel: boolean;
+
+    /**
+     * CSS 'color' of the edge label
+     */
+    labelColor: string;
+
+    /**
+     * CSS 'background' of the guide lines that are shown when a window is being aligned with another window
+     */
+    guideColor: string;
+}
+
+/**
+ * The content of a single preview window.
+ *
+ * Applications that provide their own preview (see 'setPreviewClient') will receive this object as a 'message' event
+ * on the window of their preview page each time the preview changes.
+ */
+export interface PreviewUpdate {
+    /**
+     * If the window being previewed can be snapped to the current target
+     */
+    valid: boolean;
+
+    /**
+     * If the window being previewed will be resized as part of the snap
+     */
+    resize: boolean;
+
+    /**
+     * The edges of the window being previewed that will be snapped. Empty for any windows that are being moved along
+     * with the window that the user is dragging.
+     */
+    edges: SnapEdge[];
+
+    /**
+     * The theme that applies to the window being previewed
+     */
+    theme: PreviewTheme;
+}
+
+export interface SetPreviewThemePayload {
+    uuid: string;
+    theme: Partial<PreviewTheme>;
+}
+
+export interface SetPreviewClientPayload {
+    url: string|null;
+}
+
+/**
+ * Restricts how a window can be snapped to other windows. Each window has it's own policy, which can be set using the
+ * client API or by adding a 'snapPolicy' object to the 'customData' of the window's options.
+ *
+ * Policies only affect future snaps - changing a window's policy will not undock it from it's current group.
+ */
+export interface SnapPolicy {
+    /**
+     * The edges of this window that can be snapped to other windows. This applies both when dragging this window and
+     * when other windows are dragged towards it.
+     */
+    edges: SnapEdge[];
+
+    /**
+     * If other windows can be snapped to this window
+     */
+    canBeTarget: boolean;
+
+    /**
+     * If this window can be snapped to other windows (or to the edges of the monitor) when it is moved
+     */
+    canBeSource: boolean;
+
+    /**
+     * If specified, this window can only be snapped to windows belonging to these applications. This does not include
+     * the window's own application unless it is listed.
+     *
+     * Set to null to allow windows from any application.
+     */
+    allowUuids: string[]|null;
+
+    /**
+     * This window can never be snapped to windows belonging to these applications
+     */
+    denyUuids: string[];
+}
+
+export interface SetSnapPolicyPayload {
+    identity: Identity;
+    policy: Partial<SnapPolicy>;
+}
@@ -0,0 +1,49 @@
+/**
+ * Throws an error if a value can't be converted to JSON and back. The error contains the path to the first value that
+ * can't be serialized.
+ *
+ * Values are handled in the same way as JSON.stringify: a top-level value of undefined means there is no data,
+ * properties with a value of undefined are skipped, and values with a 'toJSON' method (such as Dates) are validated
+ * using the result of that method.
+ */
+export function validateSerializable(value: unknown, path: string, ancestors: object[] = []): void {
+    if (hasToJSON(value)) {
+        if (ancestors.includes(value)) {
+            throw new Error(`Invalid application data: ${path} contains a circular reference`);
+        }
+
+        validateSerializable(value.toJSON(), path, [...ancestors, value]);
+    } else if (value === null || typeof value === 'string' || typeof value === 'boolean' || (value === undefined && ancestors.length === 0)) {
+        return;
+    } else if (typeof value === 'number') {
+        if (!isFinite(value)) {
+            throw new Error(`Invalid application data: ${path} can not be serialized (${value})`);
+        }
+    } else if (isSerializableObject(value)) {
+        if (ancestors.includes(value)) {
+            throw new Error(`Invalid application data: ${path} contains a circular reference`);
+        }
+
+        Object.keys(value).forEach((key: string) => {
+            if (value[key] !== undefined || Array.isArray(value)) {
+                validateSerializable(value[key], Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`, [...ancestors, value]);
+            }
+        });
+    } else {
+        throw new Error(`Invalid application data: ${path} can not be serialized (${typeof value})`);
+    }
+}
+
+/**
+ * Determines if a value is an array or plain object, and so will be serialized as a JSON array or object.
+ */
+function isSerializableObject(value: unknown): value is {[key: string]: unknown} {
+    return !!value && typeof value === 'object' && (Array.isArray(value) || Object.getPrototypeOf(value as object) === Object.prototype);
+}
+
+/**
+ * Determines if a value provides its own JSON representation, which will be serialized in place of the value itself.
+ */
+function hasToJSON(value: unknown): value is {toJSON: () => unknown} {
+    return !!value && typeof value === 'object' && typeof (value as {toJSON?: unknown}).toJSON === 'function';
+}
@@ -1,18 +1,10 @@
 import {Application, Identity} from 'hadouken-js-adapter';
 import {_Window} from 'hadouken-js-adapter/out/types/src/api/window/window';
 
+import * as Layouts from '../client/main';
 import {Layout, LayoutApp} from '../client/types';
 import {positionWindow} from '../provider/workspaces/utils';
 
-import * as Storage from './storage';
-
-export interface Workspace {
-    id: string;
-    layout: Layout;
-}
-
-import * as Layouts from '../client/main';
-
 declare var window: _Window&{forgetMe: (identity: Identity) => void};
 
 let numChildren = 0;
@@ -25,8 +17,9 @@ window.forgetMe = forgetMe;
 export async function setLayout(layoutParam?: Layout) {
     const id = (document.getElementById('layoutName') as HTMLTextAreaElement).value;
     const layoutSelect = document.getElementById('layoutSelect') as HTMLSelectElement;
-    const layout = layoutParam || await Layouts.generateLayout();
-    const workspace = {id, layout};
+
+    await Layouts.saveLayout(id, layoutParam);
+    const layout = await Layouts.getLayout(id);
 
     if (layoutSelect) {
         let optionPresent = false;
@@ -43,7 +36,6 @@ export async function setLayout(layoutParam?: Layout) {
         }
     }
 
-    Storage.saveLayout(workspace);
     document.getElementById('showLayout')!.innerHTML = JSON.stringify(layout, null, 2);
 }
 
@@ -66,20 +58,19 @@ export async function killAllWindows() {
 
 export async function getLayout() {
     const id = (document.getElementById('layoutSelect') as HTMLSelectElement).value;
-    const workspace = Storage.getLayout(id);
-    document.getElementById('showLayout')!.innerHTML = JSON.stringify(workspace, null, 2);
+    const layout = await Layouts.getLayout(id);
+    document.getElementById('showLayout')!.innerHTML = JSON.stringify(layout, null, 2);
 }
 
 export async function getAllLayouts() {
-    const layoutIDs = Storage.getAllLayoutIDs();
-    document.getElementById('showLayout')!.innerHTML = JSON.stringify(layoutIDs, null, 2);
+    const layouts = await Layouts.listLayouts();
+    document.getElementById('showLayout')!.innerHTML = JSON.stringify(layouts, null, 2);
 }
 
 export async function restoreLayout() {
     const id = (document.getElementById('layoutSelect') as HTMLSelectElement).value;
-    const workspace = Storage.getLayout(id);
     console.log('Restoring layout');
-    const afterLayout = await Layouts.restoreLayout(workspace.layout);
+    const afterLayout = await Layouts.restoreLayout(id);
     document.getElementById('showLayout')!.innerHTML = JSON.stringify(afterLayout, null, 2);
 }
 
@@ -213,11 +204,11 @@ function removeForgetWins(window: Identity) {
     return !forgetWindows.some(w => w.name === window.name);
 }
 
-function addLayoutNamesToDropdown() {
-    const ids = Storage.getAllLayoutIDs();
+async function addLayoutNamesToDropdown() {
+    const layouts = await Layouts.listLayouts();
     const layoutSelect = document.getElementById('layoutSelect');
-    ids.forEach((id) => {
-        const option = createOptionElement(id);
+    layouts.forEach((layout) => {
+        const option = createOptionElement(layout.name);
         if (layoutSelect) {
             layoutSelect.appendChild(option);
         }
@@ -231,10 +222,16 @@ function createOptionElement(id: string) {
     return option;
 }
 
-export function importLayout() {
+export async function importLayout() {
     const textfield = document.getElementById('showLayout')! as HTMLTextAreaElement;
     const layout = JSON.parse(textfield.value);
-    setLayout(layout.layout || layout);
+
+    // Accept both layouts and exported layouts
+    if (layout.type === 'layout-export') {
+        setLayout(await Layouts.importLayout(layout));
+    } else {
+        setLayout(layout.layout || layout);
+    }
 }
 
 // Do not snap to other windows
@@ -242,7 +239,7 @@ Layouts.deregister();
 
 // Allow layouts service to save and restore this application
 Layouts.onApplicationSave(() => {
-    return {test: true};
+    return {customData: {test: true}};
 });
 Layouts.onAppRestore(onAppRes);
 Layouts.ready();
@@ -1,4 +1,5 @@
 import * as Layouts from '../client/main';
+import {SnapGroupEventPayload} from '../client/types';
 
 // Build HTML
 const colors = ['#7B7BFF', '#A7A7A7', '#3D4059', '#D8D8D8', '#1A194D', '#B6B6B6'];
@@ -19,11 +20,11 @@ explodeBtn.setAttribute('style', '-webkit-app-region: no-drag');
 document.body.appendChild(explodeBtn);
 
 // Add listeners
-Layouts.addEventListener('join-snap-group', () => {
-    console.log('Joined group');
+Layouts.addEventListener('join-snap-group', (event: Event) => {
+    console.log('Joined group', (event as CustomEvent<SnapGroupEventPayload>).detail);
 });
-Layouts.addEventListener('leave-snap-group', () => {
-    console.log('Left group');
+Layouts.addEventListener('leave-snap-group', (event: Event) => {
+    console.log('Left group', (event as CustomEvent<SnapGroupEventPayload>).detail);
 });
 
 // Allow window to de-register from layouts at a time of its choosing
@@ -57,7 +57,7 @@ export async function onAppRes(layoutApp: LayoutApp): Promise<LayoutApp> {
 
 // Allow layouts service to save and restore this application
 Layouts.onApplicationSave(() => {
-    return {test: true};
+    return {customData: {test: true}};
 });
 Layouts.onAppRestore(onAppRes);
 Layouts.ready();
@@ -570,8 +570,9 @@ declare namespace fin {
         addEventListener(
             type: 'application-created'|'application-started', listener: (event: SystemBaseEvent) => void, callback?: () => void,
             errorCallback?: (reason: string) => void): void;
-        addEventListener(type: 'window-created', listener: (event: WindowBaseEvent) => void, callback?: () => void, errorCallback?: (reason: string) => void):
-            void;
+        addEventListener(
+            type: 'window-created'|'window-closed', listener: (event: WindowBaseEvent) => void, callback?: () => void,
+            errorCallback?: (reason: string) => void): void;
         addEventListener(
             type: OpenFinSystemEventType,
             listener: (event: SystemBaseEvent|DesktopIconClickedEvent|IdleStateChangedEvent|MonitorInfoChangedEvent|SessionChangedEvent|
@@ -0,0 +1,259 @@
+import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
+
+import {AutosaveConfig, Layout, LayoutMetadata, LayoutName, LayoutResult} from '../client/types';
+
+import {serviceConfig} from './manifest';
+import {SnapGroup} from './snapanddock/SnapGroup';
+import {SnapService} from './snapanddock/SnapService';
+import {SnapWindow} from './snapanddock/SnapWindow';
+import {TabGroup} from './tabbing/TabGroup';
+import {TabService} from './tabbing/TabService';
+import {generateLayout} from './workspaces/create';
+import {restoreLayout} from './workspaces/restore';
+import {IndexedDBStorage, LayoutStore} from './workspaces/storage';
+
+/**
+ * Autosave is disabled unless it is enabled within the service manifest.
+ */
+export const DEFAULT_AUTOSAVE_CONFIG: Readonly<AutosaveConfig> = {
+    enabled: false,
+    delay: 5000,
+    maxSnapshots: 5,
+    restoreOnStartup: false
+};
+
+/**
+ * Name of the IndexedDB database that holds recovery snapshots, kept separate from the layouts saved by applications
+ */
+const RECOVERY_DATABASE_NAME = 'layouts-service-recovery';
+
+/**
+ * Periodically saves the current layout, so that it can be recovered if the machine or runtime crashes.
+ *
+ * Snapshots are saved whenever windows are added to or removed from a snap group, tab groups change, or windows are
+ * moved, resized, minimized or maximized. Changes are debounced, so that a single snapshot is saved once the layout has
+ * stopped changing. Only the most recent snapshots are kept, along with the most recent snapshot from the previous session
+ * until that snapshot has been restored.
+ *
+ * Autosave is configured within the 'autosave' section of the service manifest's config.
+ */
+export class AutosaveManager {
+    private config: AutosaveConfig;
+    private store: LayoutStore;
+
+    /**
+     * Identifies the snapshots saved whilst the service is running, to distinguish them from those of earlier sessions
+     */
+    private session: string;
+
+    /**
+     * The most recent snapshot from the previous session, which is kept until it is restored - regardless of how many
+     * snapshots this session saves.
+     */
+    private previousSnapshot: LayoutName|null;
+
+    /**
+     * Windows that are being watched for changes to their bounds and state
+     */
+    private windows: SnapWindow[];
+
+    private timer: number|null;
+
+    /**
+     * Set whilst a snapshot is being saved. If the layout changes whilst saving, 'pending' is set and another snapshot
+     * is saved once the current save completes.
+     */
+    private saving: boolean;
+    private pending: boolean;
+
+    /**
+     * Set whilst a snapshot is being restored, so that the partially-restored layout isn't saved
+     */
+    private restoring: boolean;
+
+    constructor(snapService: SnapService, tabService: TabService, store?: LayoutStore) {
+        this.config = {...DEFAULT_AUTOSAVE_CONFIG};
+        this.store = store || new LayoutStore(new IndexedDBStorage(RECOVERY_DATABASE_NAME));
+        this.session = Date.now().toString(36);
+        this.previousSnapshot = null;
+        this.windows = [];
+        this.timer = null;
+        this.saving = false;
+        this.pending = false;
+        this.restoring = false;
+
+        snapService.onWindowAdded.add(this.onWindowAdded, this);
+        snapService.onWindowRemoved.add(this.onWindowRemoved, this);
+        tabService.onTabGroupChanged.add(this.onTabGroupChanged, this);
+    }
+
+    /**
+     * Applies the autosave config from the service manifest and, if configured, restores the most recent snapshot.
+     *
+     * Should be called once the service is able to restore layouts.
+     */
+    public async start(): Promise<void> {
+        const config: AutosaveConfig = {...DEFAULT_AUTOSAVE_CONFIG, ...this.validate((await serviceConfig).autosave || {})};
+        this.config = config;
+
+        const snapshots: LayoutMetadata[] = await this.getSnapshots();
+        const previousSnapshot: LayoutMetadata|undefined = snapshots.find(snapshot => !this.isFromThisSession(snapshot));
+        this.previousSnapshot = previousSnapshot ? previousSnapshot.name : null;
+
+        if (config.enabled && config.restoreOnStartup && snapshots.length > 0) {
+            console.log('Restoring most recent recovery snapshot');
+            await this.restoreSnapshot(undefined, null);
+        }
+    }
+
+    /**
+     * Returns the metadata of each recovery snapshot, with the most recent snapshot first.
+     */
+    public async getSnapshots(): Promise<LayoutMetadata[]> {
+        const snapshots: LayoutMetadata[] = await this.store.listLayouts();
+        return snapshots.sort((a, b) => b.modified - a.modified);
+    }
+
+    /**
+     * Restores a recovery snapshot. No snapshots are saved until the restore has completed.
+     *
+     * @param name The snapshot to restore. Defaults to the most recent snapshot.
+     * @param identity The application that requested the restore, which will receive progress events. May be null.
+     */
+    public async restoreSnapshot(name: LayoutName|undefined, identity: Identity|null): Promise<LayoutResult> {
+        if (name === undefined) {
+            const snapshots: LayoutMetadata[] = await this.getSnapshots();
+
+            if (snapshots.length === 0) {
+                throw new Error('No recovery snapshots available');
+            }
+            name = snapshots[0].name;
+        }
+
+        const layout: Layout = await this.store.getLayout(name);
+
+        this.restoring = true;
+        this.cancelSave();
+        try {
+            const result: LayoutResult = await restoreLayout(layout, identity);
+
+            if (name === this.previousSnapshot) {
+                this.previousSnapshot = null;
+            }
+
+            return result;
+        } finally {
+            this.restoring = false;
+            this.scheduleSave();
+        }
+    }
+
+    private onWindowAdded(group: SnapGroup, window: SnapWindow): void {
+        if (!this.windows.includes(window)) {
+            this.windows.push(window);
+            window.onCommit.add(this.onWindowChanged, this);
+            window.onStateChanged.add(this.onWindowChanged, this);
+            window.onClose.add(this.onWindowClosed, this);
+        }
+
+        this.scheduleSave();
+    }
+
+    private onWindowRemoved(group: SnapGroup, window: SnapWindow): void {
+        this.scheduleSave();
+    }
+
+    private onWindowClosed(window: SnapWindow): void {
+        const index: number = this.windows.indexOf(window);
+
+        if (index >= 0) {
+            this.windows.splice(index, 1);
+            window.onCommit.remove(this.onWindowChanged, this);
+            window.onStateChanged.remove(this.onWindowChanged, this);
+            window.onClose.remove(this.onWindowClosed, this);
+        }
+
+        this.scheduleSave();
+    }
+
+    private onWindowChanged(window: SnapWindow): void {
+        this.scheduleSave();
+    }
+
+    private onTabGroupChanged(group: TabGroup): void {
+        this.scheduleSave();
+    }
+
+    private scheduleSave(): void {
+        if (this.config.enabled && !this.restoring) {
+            this.cancelSave();
+            this.timer = window.setTimeout(() => {
+                this.timer = null;
+                this.save().catch(console.error);
+            }, this.config.delay);
+        }
+    }
+
+    private cancelSave(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (this.saving) {
+            this.pending = true;
+            return;
+        }
+
+        this.saving = true;
+        try {
+            const {layout} = await generateLayout(null, null);
+
+            // Windows are closed as the runtime exits, so an empty layout is never saved over a useful snapshot
+            if (layout.apps.length > 0) {
+                await this.store.saveLayout(`snapshot-${this.session}-${Date.now()}`, layout);
+
+                // The previous session's snapshot doesn't count towards the limit, so is never replaced by this session's snapshots
+                const snapshots: LayoutMetadata[] = (await this.getSnapshots()).filter(snapshot => snapshot.name !== this.previousSnapshot);
+                await Promise.all(snapshots.slice(this.config.maxSnapshots).map(snapshot => this.store.deleteLayout(snapshot.name)));
+            }
+        } finally {
+            this.saving = false;
+
+            if (this.pending) {
+                this.pending = false;
+                this.scheduleSave();
+            }
+        }
+    }
+
+    private isFromThisSession(snapshot: LayoutMetadata): boolean {
+        return snapshot.name.startsWith(`snapshot-${this.session}-`);
+    }
+
+    /**
+     * Removes any invalid values from the config. Since this config comes from the manifest, errors are logged rather
+     * than thrown.
+     */
+    private validate(config: Partial<AutosaveConfig>): Partial<AutosaveConfig> {
+        const validConfig: Partial<AutosaveConfig> = {};
+
+        Object.keys(config).forEach((key: string) => {
+            const value = config[key as keyof AutosaveConfig];
+
+            if (!DEFAULT_AUTOSAVE_CONFIG.hasOwnProperty(key)) {
+                console.warn(`Ignoring unknown autosave config "${key}"`);
+            } else if (typeof value !== typeof DEFAULT_AUTOSAVE_CONFIG[key as keyof AutosaveConfig]) {
+                console.warn(`Ignoring autosave config for "${key}" - value must be a ${typeof DEFAULT_AUTOSAVE_CONFIG[key as keyof AutosaveConfig]}`);
+            } else if (key === 'maxSnapshots' && (value as number) < 1 || key === 'delay' && (value as number) < 0) {
+                console.warn(`Ignoring autosave config for "${key}" - value is out of range`);
+            } else {
+                validConfig[key as keyof AutosaveConfig] = value;
+            }
+        });
+
+        return validConfig;
+    }
+}
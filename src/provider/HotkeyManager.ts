@@ -0,0 +1,134 @@
+import {HotkeyConfig} from '../client/types';
+
+import {LayoutJournal} from './LayoutJournal';
+import {serviceConfig} from './manifest';
+import {SnapService} from './snapanddock/SnapService';
+import {SnapWindow, WindowIdentity} from './snapanddock/SnapWindow';
+
+/**
+ * The hotkeys that are used for any actions that aren't specified within the service manifest.
+ */
+export const DEFAULT_HOTKEY_CONFIG: Readonly<HotkeyConfig> = {
+    undock: 'CommandOrControl+Shift+U',
+    explode: 'CommandOrControl+Shift+Alt+U',
+    cycleFocus: 'CommandOrControl+Shift+Alt+F',
+    dockLeft: 'CommandOrControl+Shift+Alt+Left',
+    dockTop: 'CommandOrControl+Shift+Alt+Up',
+    dockRight: 'CommandOrControl+Shift+Alt+Right',
+    dockBottom: 'CommandOrControl+Shift+Alt+Down',
+    undo: 'CommandOrControl+Shift+Alt+Z',
+    redo: 'CommandOrControl+Shift+Alt+Y'
+};
+
+/**
+ * Registers the service's global hotkeys, and performs the corresponding action on the focused window whenever one of
+ * those hotkeys is pressed.
+ *
+ * The default hotkeys can be overridden within the 'hotkeys' section of the service manifest's config.
+ */
+export class HotkeyManager {
+    private snapService: SnapService;
+    private journal: LayoutJournal;
+
+    constructor(snapService: SnapService, journal: LayoutJournal) {
+        this.snapService = snapService;
+        this.journal = journal;
+
+        serviceConfig
+            .then((config) => {
+                this.registerHotkeys({...DEFAULT_HOTKEY_CONFIG, ...this.validate(config.hotkeys || {})});
+            })
+            .catch(console.error);
+    }
+
+    private registerHotkeys(config: HotkeyConfig): void {
+        Object.keys(config).forEach((key: string) => {
+            const action: keyof HotkeyConfig = key as keyof HotkeyConfig;
+            const hotkey: string|null = config[action];
+
+            if (hotkey) {
+                fin.GlobalHotkey
+                    .register(
+                        hotkey,
+                        () => {
+                            fin.desktop.System.getFocusedWindow()
+                                .then(focusedWindow => {
+                                    if (focusedWindow !== null && this.snapService.getSnapWindow(focusedWindow)) {
+                                        console.log(`Global hotkey "${hotkey}" invoked on window`, focusedWindow);
+                                        this.onHotkey(action, focusedWindow);
+                                    }
+                                })
+                                .catch(console.error);
+                        })
+                    .catch(console.error);
+            }
+        });
+    }
+
+    private onHotkey(action: keyof HotkeyConfig, target: WindowIdentity): void {
+        switch (action) {
+            case 'undock':
+                this.snapService.undock(target);
+                break;
+            case 'explode':
+                this.snapService.explodeGroup(target);
+                break;
+            case 'cycleFocus':
+                this.focusNextWindow(target);
+                break;
+            case 'dockLeft':
+                this.snapService.dockToNeighbour(target, 'left');
+                break;
+            case 'dockTop':
+                this.snapService.dockToNeighbour(target, 'top');
+                break;
+            case 'dockRight':
+                this.snapService.dockToNeighbour(target, 'right');
+                break;
+            case 'dockBottom':
+                this.snapService.dockToNeighbour(target, 'bottom');
+                break;
+            case 'undo':
+                this.journal.undo().catch(console.error);
+                break;
+            case 'redo':
+                this.journal.redo().catch(console.error);
+                break;
+            default:
+                console.warn(`Unknown hotkey action "${action}"`);
+        }
+    }
+
+    private focusNextWindow(target: WindowIdentity): void {
+        const window: SnapWindow|undefined = this.snapService.getSnapWindow(target);
+
+        if (window && window.getGroup().length > 1) {
+            const windows: SnapWindow[] = window.getGroup().windows;
+            const next: SnapWindow = windows[(windows.indexOf(window) + 1) % windows.length];
+
+            next.getWindow().focus();
+        }
+    }
+
+    /**
+     * Removes any invalid values from the config. Since this config comes from the manifest, errors are logged rather
+     * than thrown.
+     */
+    private validate(config: Partial<HotkeyConfig>): Partial<HotkeyConfig> {
+        const validConfig: Partial<HotkeyConfig> = {};
+
+        Object.keys(config).forEach((key: string) => {
+            const value = config[key as keyof HotkeyConfig];
+
+            if (!DEFAULT_HOTKEY_CONFIG.hasOwnProperty(key)) {
+                console.warn(`Ignoring hotkey config for unknown action "${key}"`);
+            } else if (value !== null && typeof value !== 'string') {
+                console.warn(`Ignoring hotkey config for "${key}" - hotkey must be a string, or null to disable the hotkey`);
+            } else {
+                validConfig[key as keyof HotkeyConfig] = value;
+            }
+        });
+
+        return validConfig;
+    }
+}
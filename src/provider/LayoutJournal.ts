@@ -0,0 +1,254 @@
+import {SnapService} from './snapanddock/SnapService';
+import {SnapWindow, WindowIdentity} from './snapanddock/SnapWindow';
+import {Rectangle} from './snapanddock/utils/RectUtils';
+import {Tab} from './tabbing/Tab';
+import {TabGroup} from './tabbing/TabGroup';
+import {TabService} from './tabbing/TabService';
+
+/**
+ * The maximum number of operations that can be undone. Older operations are discarded.
+ */
+const MAX_JOURNAL_LENGTH = 20;
+
+/**
+ * The types of operation that are recorded in the journal
+ */
+export type JournalOperation = 'snap'|'undock'|'explode'|'tab'|'eject';
+
+/**
+ * The state of a single window, at the point it was captured by the journal.
+ */
+export interface JournalWindowState {
+    identity: WindowIdentity;
+
+    /**
+     * Bounds of the window, in the same format as the window's state within the snap service
+     */
+    bounds: Rectangle;
+
+    /**
+     * Every window within the same snap group as this window, including this window
+     */
+    snapGroup: WindowIdentity[];
+
+    /**
+     * Every tab within the same tab group as this window, in tab order. Empty if the window isn't tabbed.
+     */
+    tabGroup: WindowIdentity[];
+}
+
+/**
+ * A single change to the layout, that can be undone and re-done.
+ *
+ * Each entry contains the state of every window that was affected by the operation, including any windows that were
+ * already grouped with those windows.
+ */
+export interface JournalEntry {
+    operation: JournalOperation;
+    before: JournalWindowState[];
+    after: JournalWindowState[];
+}
+
+/**
+ * Records the operations performed by the snap and tab services, so that they can be undone.
+ *
+ * Services capture the state of the windows involved in an operation before performing it, and then record the
+ * operation once it has completed. Undoing an operation returns each of those windows to it's original bounds, snap
+ * group and tab group. Windows that have been closed since the operation was recorded are ignored.
+ */
+export class LayoutJournal {
+    /**
+     * Handle of this journal instance.
+     */
+    public static INSTANCE: LayoutJournal;
+
+    private snapService: SnapService;
+    private tabService: TabService;
+
+    private undoStack: JournalEntry[];
+    private redoStack: JournalEntry[];
+
+    /**
+     * Set whilst an entry is being undone/re-done. Any operations performed by the journal itself are not recorded.
+     */
+    private replaying: boolean;
+
+    constructor(snapService: SnapService, tabService: TabService) {
+        this.snapService = snapService;
+        this.tabService = tabService;
+        this.undoStack = [];
+        this.redoStack = [];
+        this.replaying = false;
+
+        LayoutJournal.INSTANCE = this;
+    }
+
+    /**
+     * Returns the current state of the given windows, along with every window that they are snapped or tabbed to.
+     *
+     * Windows that aren't registered with the snap service are ignored.
+     *
+     * @param identities The windows that are about to be modified
+     */
+    public capture(identities: WindowIdentity[]): JournalWindowState[] {
+        const windows: SnapWindow[] = [];
+        const addWindow = (window: SnapWindow|undefined) => {
+            if (window && !windows.includes(window)) {
+                windows.push(window);
+            }
+        };
+
+        identities.forEach((identity: WindowIdentity) => {
+            const window: SnapWindow|undefined = this.snapService.getSnapWindow(identity);
+
+            if (window) {
+                addWindow(window);
+                window.getGroup().windows.forEach(addWindow);
+                this.getTabs(identity).forEach(tab => addWindow(this.snapService.getSnapWindow(tab)));
+            }
+        });
+
+        return windows.map((window: SnapWindow): JournalWindowState => {
+            const {center, halfSize} = window.getState();
+
+            return {
+                identity: window.getIdentity(),
+                bounds: {center: {...center}, halfSize: {...halfSize}},
+                snapGroup: window.getGroup().windows.map(w => w.getIdentity()),
+                tabGroup: this.getTabs(window.getIdentity())
+            };
+        });
+    }
+
+    /**
+     * Adds an operation to the journal. Any operations that had previously been undone can no longer be re-done.
+     *
+     * Has no effect if the operation didn't modify any windows, or if it was performed by the journal itself.
+     *
+     * @param operation The type of operation that was performed
+     * @param before The state of the windows involved, captured before the operation was performed
+     */
+    public record(operation: JournalOperation, before: JournalWindowState[]): void {
+        if (!this.replaying && before.length > 0) {
+            const after: JournalWindowState[] = this.capture(before.map(state => state.identity));
+
+            if (JSON.stringify(before) !== JSON.stringify(after)) {
+                this.undoStack.push({operation, before, after});
+                this.redoStack = [];
+
+                if (this.undoStack.length > MAX_JOURNAL_LENGTH) {
+                    this.undoStack.shift();
+                }
+            }
+        }
+    }
+
+    /**
+     * Reverts the most recently recorded operation. Resolves to false if there was nothing to undo.
+     *
+     * If the operation can't be reverted, the promise rejects and the operation remains on the undo stack.
+     */
+    public async undo(): Promise<boolean> {
+        const entry: JournalEntry|undefined = this.undoStack.pop();
+
+        if (entry) {
+            // Windows may have moved since the operation was recorded. Update the 'after' state, so that re-doing the
+            // operation returns windows to where they were prior to it being undone.
+            entry.after = this.capture(entry.after.map(state => state.identity));
+
+            try {
+                await this.apply(entry.before);
+            } catch (error) {
+                // Keep the entry, so that the undo can be attempted again
+                this.undoStack.push(entry);
+                throw error;
+            }
+            this.redoStack.push(entry);
+        }
+
+        return !!entry;
+    }
+
+    /**
+     * Re-applies the most recently undone operation. Resolves to false if there was nothing to redo.
+     *
+     * If the operation can't be re-applied, the promise rejects and the operation remains on the redo stack.
+     */
+    public async redo(): Promise<boolean> {
+        const entry: JournalEntry|undefined = this.redoStack.pop();
+
+        if (entry) {
+            entry.before = this.capture(entry.before.map(state => state.identity));
+
+            try {
+                await this.apply(entry.after);
+            } catch (error) {
+                this.redoStack.push(entry);
+                throw error;
+            }
+            this.undoStack.push(entry);
+        }
+
+        return !!entry;
+    }
+
+    /**
+     * Returns each of the given windows to it's recorded tab group, snap group and bounds.
+     */
+    private async apply(states: JournalWindowState[]): Promise<void> {
+        this.replaying = true;
+
+        try {
+            await this.applyTabGroups(states);
+            this.snapService.restoreWindowStates(states.filter(state => state.tabGroup.length === 0 && this.getTabs(state.identity).length === 0));
+        } finally {
+            this.replaying = false;
+        }
+    }
+
+    private async applyTabGroups(states: JournalWindowState[]): Promise<void> {
+        // Remove any windows that are in the wrong tab group
+        for (const state of states) {
+            const tabs: WindowIdentity[] = this.getTabs(state.identity);
+            const tabGroup: TabGroup|undefined = this.tabService.getTabGroupByApp(state.identity);
+
+            if (tabGroup && !this.isSameWindows(tabs, state.tabGroup)) {
+                await tabGroup.removeTab(state.identity, false, true);
+
+                const window: SnapWindow|undefined = this.snapService.getSnapWindow(state.identity);
+                if (window) {
+                    window.getWindow().show();
+                }
+            }
+        }
+
+        // Re-create each tab group, adding to any existing group that contains some of the required tabs
+        for (const state of states) {
+            const required: WindowIdentity[] = state.tabGroup.filter(identity => !!this.snapService.getSnapWindow(identity));
+
+            if (required.length >= 2 && !this.isSameWindows(this.getTabs(state.identity), required)) {
+                const existingGroup: TabGroup|undefined =
+                    required.map(identity => this.tabService.getTabGroupByApp(identity)).find((group): group is TabGroup => !!group);
+
+                if (existingGroup) {
+                    for (const identity of required) {
+                        if (!existingGroup.getTab(identity)) {
+                            await existingGroup.addTab(await new Tab({tabID: identity}).init());
+                        }
+                    }
+                } else {
+                    await this.tabService.createTabGroupWithTabs(required);
+                }
+            }
+        }
+    }
+
+    private getTabs(identity: WindowIdentity): WindowIdentity[] {
+        const tabGroup: TabGroup|undefined = this.tabService.getTabGroupByApp(identity);
+        return tabGroup ? tabGroup.tabs.map(tab => ({uuid: tab.ID.uuid, name: tab.ID.name})) : [];
+    }
+
+    private isSameWindows(a: WindowIdentity[], b: WindowIdentity[]): boolean {
+        return a.length === b.length && a.every(identity => b.some(other => other.uuid === identity.uuid && other.name === identity.name));
+    }
+}
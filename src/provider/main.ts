@@ -3,18 +3,30 @@ import {ChannelProvider} from 'hadouken-js-adapter/out/types/src/api/interappbus
 import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
 
 import {TabAPI} from '../client/APITypes';
+import {Layout, LayoutExport, LayoutMetadata, LayoutName, LayoutResult, RestoreLayoutPayload, SaveLayoutPayload, SetPreviewClientPayload, SetPreviewThemePayload, SetSnapConfigPayload, SetSnapPolicyPayload, SnapGroupEventPayload, SnapGroupId, SnapWindowsPayload} from '../client/types';
 
+import {AutosaveManager} from './AutosaveManager';
+import {HotkeyManager} from './HotkeyManager';
+import {LayoutJournal} from './LayoutJournal';
 import {SnapGroup} from './snapanddock/SnapGroup';
 import {SnapService} from './snapanddock/SnapService';
 import {SnapWindow, WindowIdentity} from './snapanddock/SnapWindow';
 import {win10Check} from './snapanddock/utils/platform';
 import {TabService} from './tabbing/TabService';
 import {deregisterWindow, generateLayout} from './workspaces/create';
+import {LayoutMonitorInfo} from './workspaces/monitors';
+import {exportLayout, importLayout} from './workspaces/portable';
 import {getAppToRestore, restoreApplication, restoreLayout} from './workspaces/restore';
+import {ChannelStorage, LayoutStore} from './workspaces/storage';
 
 export let snapService: SnapService;
 export let tabService: TabService;
+export let journal: LayoutJournal;
+export let hotkeyManager: HotkeyManager;
+export let layoutStore: LayoutStore;
+export let autosaveManager: AutosaveManager;
 export let providerChannel: ChannelProvider;
+
 declare const window: Window&{
     providerChannel: ChannelProvider;
     snapService: SnapService;
@@ -40,11 +52,85 @@ async function registerService() {
         tabService.apiHandler.deregister(identity);
         deregisterWindow(identity);
     });
-    providerChannel.register('undockGroup', (identity: WindowIdentity) => {
-        snapService.explodeGroup(identity);
+    providerChannel.register('undockGroup', (target: WindowIdentity|SnapGroupId) => {
+        snapService.explodeGroup(target);
+    });
+    providerChannel.register('minimizeSnapGroup', (target: WindowIdentity|SnapGroupId) => {
+        snapService.minimizeGroup(target);
+    });
+    providerChannel.register('maximizeSnapGroup', (target: WindowIdentity|SnapGroupId) => {
+        snapService.maximizeGroup(target);
+    });
+    providerChannel.register('restoreSnapGroup', (target: WindowIdentity|SnapGroupId) => {
+        snapService.restoreGroup(target);
+    });
+    providerChannel.register('snapWindows', (payload: SnapWindowsPayload) => {
+        snapService.snapWindows(payload.source, payload.target, payload.options);
+    });
+    providerChannel.register('getSnapGroup', (identity: WindowIdentity): SnapGroupId => {
+        return snapService.getSnapGroup(identity).id;
+    });
+    providerChannel.register('getSnapGroupWindows', (groupId: SnapGroupId): WindowIdentity[] => {
+        return snapService.getSnapGroupById(groupId).windows.map(window => window.getIdentity());
+    });
+    providerChannel.register('setSnapConfig', (payload: SetSnapConfigPayload) => {
+        snapService.configManager.setApplicationConfig(payload.uuid, payload.config);
+    });
+    providerChannel.register('setSnapPolicy', (payload: SetSnapPolicyPayload) => {
+        snapService.setSnapPolicy(payload.identity, payload.policy);
+    });
+    providerChannel.register('setPreviewTheme', (payload: SetPreviewThemePayload) => {
+        snapService.previewConfigManager.setApplicationTheme(payload.uuid, payload.theme);
+    });
+    providerChannel.register('setPreviewClient', (payload: SetPreviewClientPayload, identity: Identity) => {
+        // Applications can only replace the preview of their own windows
+        snapService.previewConfigManager.setApplicationUrl(identity.uuid, payload.url);
+    });
+    providerChannel.register('undoLastLayoutChange', (): Promise<boolean> => {
+        return journal.undo();
+    });
+    providerChannel.register('redoLayoutChange', (): Promise<boolean> => {
+        return journal.redo();
     });
     providerChannel.register('generateLayout', generateLayout);
-    providerChannel.register('restoreLayout', restoreLayout);
+    providerChannel.register('restoreLayout', async(payload: RestoreLayoutPayload|Layout, identity: Identity): Promise<LayoutResult> => {
+        // Clients from before layouts could be restored by name send the layout itself, rather than a RestoreLayoutPayload
+        const request: RestoreLayoutPayload =
+            (payload && (payload as Layout).type === 'layout') ? {layout: payload as Layout} : payload as RestoreLayoutPayload;
+        const layout: Layout|LayoutName = request && request.layout;
+        return restoreLayout(typeof layout === 'string' ? await layoutStore.getLayout(layout) : layout, identity, request && request.options);
+    });
+    providerChannel.register('saveLayout', async(payload: SaveLayoutPayload, identity: Identity): Promise<LayoutMetadata> => {
+        return layoutStore.saveLayout(payload.name, payload.layout || (await generateLayout(null, identity)).layout);
+    });
+    providerChannel.register('getLayout', (name: LayoutName): Promise<Layout> => {
+        return layoutStore.getLayout(name);
+    });
+    providerChannel.register('listLayouts', (): Promise<LayoutMetadata[]> => {
+        return layoutStore.listLayouts();
+    });
+    providerChannel.register('deleteLayout', (name: LayoutName): Promise<void> => {
+        return layoutStore.deleteLayout(name);
+    });
+    providerChannel.register('exportLayout', (layout: Layout): LayoutExport => {
+        return exportLayout(layout);
+    });
+    providerChannel.register('importLayout', async(layoutExport: LayoutExport): Promise<Layout> => {
+        return importLayout(layoutExport, await fin.System.getMonitorInfo() as LayoutMonitorInfo);
+    });
+    providerChannel.register('getRecoverySnapshots', (): Promise<LayoutMetadata[]> => {
+        return autosaveManager.getSnapshots();
+    });
+    providerChannel.register('restoreRecoverySnapshot', (name: LayoutName|undefined, identity: Identity): Promise<LayoutResult> => {
+        return autosaveManager.restoreSnapshot(name || undefined, identity);
+    });
+    providerChannel.register('setLayoutStorage', (enabled: boolean, identity: Identity) => {
+        layoutStore.setBackend(enabled ? new ChannelStorage(providerChannel, identity) : null, identity);
+    });
+    fin.desktop.System.addEventListener('window-closed', (event: fin.WindowBaseEvent) => {
+        // Layouts can no longer be read from a closed window, so fall back to the default backend
+        layoutStore.releaseBackend(event);
+    });
     providerChannel.register('appReady', (payload: void, identity: Identity) => {
         const {uuid} = identity;
         const appToRestore = getAppToRestore(uuid);
@@ -59,13 +145,21 @@ async function registerService() {
         if (group.length < 2) {
             return;
         }
-        sendWindowServiceMessage(GroupEventType.JOIN_SNAP_GROUP, window, providerChannel);
+        // The members of the group have changed, so every window within the group (including any window that was
+        // previously on it's own) is sent the updated list of windows and neighbours
+        group.windows.forEach(w => sendSnapGroupMessage(GroupEventType.JOIN_SNAP_GROUP, w, group));
     });
     snapService.onWindowRemoved.add((group, window) => {
         if (group.length === 0) {
             return;
+        } else if (group.length === 1) {
+            // Group has been dissolved, the remaining window is no longer grouped
+            sendSnapGroupMessage(GroupEventType.LEAVE_SNAP_GROUP, group.windows[0], group);
+        } else {
+            // The remaining windows are still grouped, but their members and neighbours have changed
+            group.windows.forEach(w => sendSnapGroupMessage(GroupEventType.JOIN_SNAP_GROUP, w, group));
         }
-        sendWindowServiceMessage(GroupEventType.LEAVE_SNAP_GROUP, window, providerChannel);
+        sendSnapGroupMessage(GroupEventType.LEAVE_SNAP_GROUP, window, group);
     });
 
     providerChannel.register(TabAPI.CLOSETABGROUP, tabService.apiHandler.closeTabGroup.bind(tabService.apiHandler));
@@ -89,8 +183,33 @@ async function registerService() {
 export async function main() {
     snapService = window.snapService = new SnapService();
     tabService = window.tabService = new TabService();
+    journal = new LayoutJournal(snapService, tabService);
+    hotkeyManager = new HotkeyManager(snapService, journal);
+    layoutStore = new LayoutStore();
+    autosaveManager = new AutosaveManager(snapService, tabService);
     await win10Check;
-    return await registerService();
+    const channel: ChannelProvider = await registerService();
+
+    // Snapshots can only be restored once the service is able to communicate with applications
+    autosaveManager.start().catch(console.error);
+
+    return channel;
+}
+
+/**
+ * Sends a snap group event to the specified SnapWindow
+ * @param {GroupEventType} action The type of event being raised. The client will listen based on this value.
+ * @param {SnapWindow} window The target to which the message will be sent
+ * @param {SnapGroup} group The group that the window has joined or left
+ */
+function sendSnapGroupMessage(action: GroupEventType, window: SnapWindow, group: SnapGroup) {
+    const isJoin: boolean = action === GroupEventType.JOIN_SNAP_GROUP;
+    const payload: SnapGroupEventPayload = {
+        groupId: group.id,
+        windows: group.windows.map(w => w.getIdentity()),
+        neighbours: isJoin ? group.getNeighbours(window).map(neighbour => ({identity: neighbour.window.getIdentity(), edge: neighbour.edge})) : []
+    };
+    sendWindowServiceMessage(action, window, providerChannel, payload);
 }
 
 /**
@@ -98,13 +217,14 @@ export async function main() {
  * @param {GroupEventType} action The type of event being raised. The client will listen based on this value.
  * @param {SnapWindow} window The target to which the message will be sent
  * @param {fin.OpenFinServiceProvider} provider Provider object wrapping an instance of the openfin layouts service
+ * @param {{}} payload Data to send along with the event
  */
-function sendWindowServiceMessage(action: GroupEventType, window: SnapWindow, provider: ChannelProvider) {
+function sendWindowServiceMessage(action: GroupEventType, window: SnapWindow, provider: ChannelProvider, payload: {} = {}) {
     const {uuid, name} = window.getIdentity();
     const to: ProviderIdentity|undefined = provider.connections.find(conn => conn.uuid === uuid && conn.name === name);
     if (to) {
         console.log('Dispatching window message: ', action, 'to window: ', window.getIdentity());
-        provider.dispatch(to, action, {});
+        provider.dispatch(to, action, payload);
     }
 }
 
@@ -0,0 +1,28 @@
+import {ServiceConfig} from '../client/types';
+
+import {p} from './snapanddock/utils/async';
+
+/**
+ * The parts of the service's application manifest that are read by the service
+ */
+interface ServiceManifest {
+    config?: ServiceConfig;
+}
+
+/**
+ * Service configuration, read from the 'config' section of the service's own application manifest.
+ *
+ * Will resolve to an empty object if the service wasn't started from a manifest, or the manifest doesn't contain any
+ * config. Each part of the service should fall back to it's default behaviour for any values that aren't specified.
+ */
+export const serviceConfig: Promise<ServiceConfig> = (async(): Promise<ServiceConfig> => {
+    const application: fin.OpenFinApplication = fin.desktop.Application.getCurrent();
+
+    try {
+        const manifest: ServiceManifest|null = await p<ServiceManifest|null>(application.getManifest.bind(application))();
+        return (manifest && manifest.config) || {};
+    } catch (error) {
+        console.log('Unable to read service config from manifest, using defaults', error);
+        return {};
+    }
+})();
@@ -0,0 +1,147 @@
+import {AnimatedOperation, AnimationConfig, AnimationEasing} from '../../client/types';
+
+import {DEFAULT_ANIMATION_CONFIG} from './Config';
+
+const EASINGS: AnimationEasing[] = [
+    'linear',
+    'ease-in',
+    'ease-out',
+    'ease-in-out',
+    'ease-in-quad',
+    'ease-out-quad',
+    'ease-in-out-quad',
+    'ease-in-cubic',
+    'ease-out-cubic',
+    'ease-in-out-cubic',
+    'ease-out-bounce',
+    'ease-in-back',
+    'ease-out-back',
+    'ease-in-out-back',
+    'ease-in-elastic',
+    'ease-out-elastic',
+    'ease-in-out-elastic'
+];
+
+/**
+ * Describes how a single window move should be animated.
+ */
+export interface Transition {
+    /**
+     * Length of the animation, in milliseconds
+     */
+    duration: number;
+
+    easing: AnimationEasing;
+}
+
+/**
+ * Holds the settings that control whether (and how) windows are animated when they are moved by the service.
+ *
+ * Unlike the snap thresholds and preview theme, there is only a single set of animation settings - windows of several
+ * applications are often moved as part of the same operation, and should all move in the same way.
+ */
+export class AnimationConfigManager {
+    private config: AnimationConfig;
+
+    constructor() {
+        this.config = {...DEFAULT_ANIMATION_CONFIG, operations: DEFAULT_ANIMATION_CONFIG.operations.slice()};
+    }
+
+    /**
+     * Replaces one or more of the animation settings. Any values not specified in 'config' are left unchanged.
+     *
+     * @param config The values to apply
+     */
+    public setConfig(config: Partial<AnimationConfig>): void {
+        this.validate(config);
+        Object.assign(this.config, config);
+
+        if (config.operations) {
+            this.config.operations = config.operations.slice();
+        }
+    }
+
+    public getConfig(): AnimationConfig {
+        return {...this.config, operations: this.config.operations.slice()};
+    }
+
+    /**
+     * Returns the animation that should be used for the given operation, or null if windows should be moved instantly.
+     *
+     * @param operation The operation that is about to move one or more windows
+     */
+    public getTransition(operation: AnimatedOperation): Transition|null {
+        const {duration, easing, operations} = this.config;
+
+        if (duration > 0 && operations.indexOf(operation) >= 0) {
+            return {duration, easing};
+        } else {
+            return null;
+        }
+    }
+
+    private validate(config: Partial<AnimationConfig>): void {
+        if (!config || typeof config !== 'object') {
+            throw new Error('Invalid animation config provided');
+        }
+
+        Object.keys(config).forEach((key: string) => {
+            if (!DEFAULT_ANIMATION_CONFIG.hasOwnProperty(key)) {
+                throw new Error(`Invalid animation config provided: unknown property "${key}"`);
+            }
+        });
+
+        const {duration, easing, operations} = config;
+        if (duration !== undefined && (typeof duration !== 'number' || !isFinite(duration) || duration < 0)) {
+            throw new Error('Invalid animation config provided: "duration" must be a non-negative number');
+        }
+        if (easing !== undefined && EASINGS.indexOf(easing) === -1) {
+            throw new Error(`Invalid animation config provided: "easing" must be one of ${EASINGS.join(', ')}`);
+        }
+        if (operations !== undefined &&
+            !(Array.isArray(operations) && operations.every(operation => DEFAULT_ANIMATION_CONFIG.operations.indexOf(operation) >= 0))) {
+            throw new Error('Invalid animation config provided: "operations" must be an array of animated operations');
+        }
+    }
+}
+
+/**
+ * Tracks the animation that is currently moving a window, if any.
+ *
+ * Starting a new animation interrupts the current one. The callbacks of the interrupted animation are carried over to
+ * the new animation, and are invoked once the window reaches it's final position.
+ */
+export class AnimationTracker {
+    /**
+     * Callbacks to invoke once the current animation completes, or null if the window isn't animating.
+     */
+    private callbacks: (() => void)[]|null = null;
+
+    public isAnimating(): boolean {
+        return this.callbacks !== null;
+    }
+
+    /**
+     * Starts tracking a new animation, interrupting any existing animation.
+     *
+     * Returns a function that should be called once the animation completes (or fails). Completion of an animation that
+     * has since been interrupted is ignored.
+     *
+     * @param callback Invoked once the window reaches it's final position
+     */
+    public start(callback?: () => void): () => void {
+        const callbacks: (() => void)[] = this.callbacks ? this.callbacks.slice() : [];
+
+        if (callback) {
+            callbacks.push(callback);
+        }
+        this.callbacks = callbacks;
+
+        return () => {
+            if (this.callbacks === callbacks) {
+                this.callbacks = null;
+                callbacks.forEach(pendingCallback => pendingCallback());
+            }
+        };
+    }
+}
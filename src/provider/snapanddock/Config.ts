@@ -1,18 +1,61 @@
+import {AnimationConfig, GroupStateConfig, PreviewTheme, SnapConfig, SnapPolicy} from '../../client/types';
+
 /**
- * The maximum distance at which two windows will snap together.
+ * The snap thresholds that will be used for any application that hasn't been given it's own config.
+ *
+ * These can be overridden for all applications from within the service's manifest, and on a per-application basis
+ * through the client API. See SnapConfig for a description of each value.
  */
-export const SNAP_DISTANCE = 15;
+export const DEFAULT_SNAP_CONFIG: Readonly<SnapConfig> = {
+    snapDistance: 15,
+    anchorDistance: 100,
+    minOverlap: 50,
+    alignDistance: 10
+};
 
 /**
- * If two window corners would snap to a distance less than this threshold, the active window will be snapped to the
- * corner of the candidate window.
+ * The snap preview theme that will be used for any application that hasn't been given it's own theme.
  *
- * This radius essentially defines how "sticky" the corners of windows are. Larger values makes it easier to align
- * windows.
+ * As with the snap thresholds, this can be overridden from within the service's manifest and on a per-application
+ * basis through the client API. See PreviewTheme for a description of each value.
+ */
+export const DEFAULT_PREVIEW_THEME: Readonly<PreviewTheme> = {
+    validBackground: '#3D4059',
+    invalidBackground: 'repeating-linear-gradient(45deg, #3D4059, #3D4059 .25em, #C24629 0, #C24629 .5em)',
+    border: 'none',
+    opacity: 0.8,
+    targetOpacity: 0.8,
+    showEdgeLabel: false,
+    labelColor: '#FFFFFF',
+    guideColor: '#3D4059'
+};
+
+/**
+ * The snap policy of any window that hasn't been given it's own policy. Windows can be snapped along any edge, to and
+ * from windows of any application.
+ */
+export const DEFAULT_SNAP_POLICY: Readonly<SnapPolicy> = {
+    edges: ['left', 'top', 'right', 'bottom'],
+    canBeTarget: true,
+    canBeSource: true,
+    allowUuids: null,
+    denyUuids: []
+};
+
+/**
+ * Windows are moved instantly unless animations are enabled within the service's manifest. When enabled, every
+ * supported operation is animated.
  */
-export const ANCHOR_DISTANCE = 100;
+export const DEFAULT_ANIMATION_CONFIG: Readonly<AnimationConfig> = {
+    duration: 0,
+    easing: 'ease-in-out',
+    operations: ['snap', 'undock', 'explode', 'restore']
+};
 
 /**
- * The minimum amount of overlap required for two window edges to snap together.
+ * By default, minimizing or restoring any window within a snap group will minimize or restore the whole group.
  */
-export const MIN_OVERLAP = 50;
+export const DEFAULT_GROUP_STATE_CONFIG: Readonly<GroupStateConfig> = {
+    minimizeGroup: true,
+    restoreGroup: true
+};
@@ -0,0 +1,59 @@
+import {SnapModelMonitors} from './SnapModel';
+import {Point} from './utils/PointUtils';
+import {Rectangle, RectUtils} from './utils/RectUtils';
+
+/**
+ * Keeps track of the work area of each monitor, so that windows can be snapped to the edges of the screen.
+ *
+ * The work area of a monitor is the region of that monitor that windows can occupy - i.e. the monitor's bounds minus
+ * any space reserved by the OS, such as the taskbar.
+ */
+export class MonitorManager implements SnapModelMonitors {
+    private mWorkAreas: Rectangle[];
+
+    constructor() {
+        this.mWorkAreas = [];
+
+        fin.desktop.System.addEventListener('monitor-info-changed', (event) => {
+            this.updateWorkAreas(event as fin.MonitorInfoChangedEvent);
+        });
+        fin.desktop.System.getMonitorInfo(
+            (monitorInfo: fin.MonitorInfo) => {
+                this.updateWorkAreas(monitorInfo);
+            },
+            (reason: string) => {
+                console.error('Unable to get monitor info, windows will not snap to monitor edges', reason);
+            });
+    }
+
+    /**
+     * The work area of every monitor, in the same format as window bounds
+     */
+    public get workAreas(): ReadonlyArray<Readonly<Rectangle>> {
+        return this.mWorkAreas;
+    }
+
+    /**
+     * Returns the work area of the monitor that contains the given point. If the point is outside of every monitor's
+     * work area, returns the work area of the primary monitor.
+     *
+     * Returns null if the service has been unable to fetch the current monitor info.
+     *
+     * @param point A point, in screen co-ordinates
+     */
+    public getWorkAreaAt(point: Point): Readonly<Rectangle>|null {
+        const workArea: Rectangle|undefined = this.mWorkAreas.find(area => RectUtils.isPointInRect(area.center, area.halfSize, point));
+        return workArea || this.mWorkAreas[0] || null;
+    }
+
+    private updateWorkAreas(monitorInfo: fin.MonitorInfo): void {
+        const monitors: fin.MonitorInfoDetail[] = [monitorInfo.primaryMonitor, ...monitorInfo.nonPrimaryMonitors];
+
+        this.mWorkAreas = monitors.map((monitor: fin.MonitorInfoDetail): Rectangle => {
+            const {left, top, right, bottom} = monitor.availableRect;
+            const halfSize = {x: (right - left) / 2, y: (bottom - top) / 2};
+
+            return {center: {x: left + halfSize.x, y: top + halfSize.y}, halfSize};
+        });
+    }
+}
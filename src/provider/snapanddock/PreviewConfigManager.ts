@@ -0,0 +1,112 @@
+import {PreviewTheme} from '../../client/types';
+
+import {DEFAULT_PREVIEW_THEME} from './Config';
+
+/**
+ * Holds the settings that control the appearance of the snap preview.
+ *
+ * There is a single default theme (which can be modified using the service manifest), and then each application can
+ * override any part of this theme for it's own windows. Applications can also replace the service's preview entirely,
+ * by providing the URL of their own preview page.
+ */
+export class PreviewConfigManager {
+    /**
+     * Theme to use for any application that hasn't overridden a particular value
+     */
+    private defaultTheme: PreviewTheme;
+
+    /**
+     * Per-application overrides, keyed by application UUID.
+     */
+    private applicationThemes: {[uuid: string]: Partial<PreviewTheme>};
+
+    /**
+     * Application-provided preview pages, keyed by application UUID.
+     */
+    private applicationUrls: {[uuid: string]: string};
+
+    constructor() {
+        this.defaultTheme = {...DEFAULT_PREVIEW_THEME};
+        this.applicationThemes = {};
+        this.applicationUrls = {};
+    }
+
+    /**
+     * Replaces one or more values of the default theme. Any values not specified in 'theme' are left unchanged.
+     *
+     * @param theme The values to apply
+     */
+    public setDefaultTheme(theme: Partial<PreviewTheme>): void {
+        this.validate(theme);
+        Object.assign(this.defaultTheme, theme);
+    }
+
+    /**
+     * Overrides one or more theme values for all windows belonging to the given application. Subsequent calls will be
+     * merged with any previous overrides for the same application.
+     *
+     * @param uuid The application to apply the theme to
+     * @param theme The values to apply
+     */
+    public setApplicationTheme(uuid: string, theme: Partial<PreviewTheme>): void {
+        this.validate(theme);
+        this.applicationThemes[uuid] = {...this.applicationThemes[uuid], ...theme};
+    }
+
+    /**
+     * Returns the full theme that applies to windows of the given application.
+     *
+     * @param uuid The application to fetch the theme for
+     */
+    public getApplicationTheme(uuid: string): PreviewTheme {
+        return {...this.defaultTheme, ...this.applicationThemes[uuid]};
+    }
+
+    /**
+     * Sets the page that will be used to render previews for windows of the given application, in place of the
+     * service's own preview.
+     *
+     * @param uuid The application to set the preview page for
+     * @param url URL of the preview page, or null to revert to the service's own preview
+     */
+    public setApplicationUrl(uuid: string, url: string|null): void {
+        if (url === null) {
+            delete this.applicationUrls[uuid];
+        } else if (typeof url !== 'string' || !url) {
+            throw new Error('Invalid preview URL provided');
+        } else {
+            this.applicationUrls[uuid] = url;
+        }
+    }
+
+    /**
+     * Returns the application-provided preview page for the given application, or null if the application should use
+     * the service's own preview.
+     *
+     * @param uuid The application to fetch the preview page for
+     */
+    public getApplicationUrl(uuid: string): string|null {
+        return this.applicationUrls[uuid] || null;
+    }
+
+    private validate(theme: Partial<PreviewTheme>): void {
+        if (!theme || typeof theme !== 'object') {
+            throw new Error('Invalid preview theme provided');
+        }
+
+        Object.keys(theme).forEach((key: string) => {
+            if (!DEFAULT_PREVIEW_THEME.hasOwnProperty(key)) {
+                throw new Error(`Invalid preview theme provided: unknown property "${key}"`);
+            }
+
+            const value = theme[key as keyof PreviewTheme];
+            const expectedType: string = typeof DEFAULT_PREVIEW_THEME[key as keyof PreviewTheme];
+
+            if (typeof value !== expectedType) {
+                throw new Error(`Invalid preview theme provided: "${key}" must be a ${expectedType}`);
+            } else if (typeof value === 'number' && !(value >= 0 && value <= 1)) {
+                throw new Error(`Invalid preview theme provided: "${key}" must be between 0 and 1`);
+            }
+        });
+    }
+}
@@ -0,0 +1,88 @@
+import {PreviewUpdate, SnapEdge} from '../../client/types';
+
+/**
+ * Draws the contents of the snap preview windows.
+ *
+ * SnapPreview takes care of creating, positioning and sizing the preview windows. Each renderer is only responsible for
+ * what is displayed within those windows.
+ */
+export interface PreviewRenderer {
+    /**
+     * The page that will be loaded into each preview window
+     */
+    readonly url: string;
+
+    /**
+     * Updates the contents of a preview window. Will only be called once the window has loaded, and only when the
+     * content of that window has changed.
+     *
+     * @param nativeWindow The window object of the preview window
+     * @param update The content to display
+     */
+    render(nativeWindow: Window, update: PreviewUpdate): void;
+}
+
+/**
+ * The service's own preview. Styles a blank page according to the theme of the window being previewed.
+ */
+export class ThemedPreviewRenderer implements PreviewRenderer {
+    public readonly url: string = 'about:blank';
+
+    public render(nativeWindow: Window, update: PreviewUpdate): void {
+        const {theme, edges} = update;
+        const document: Document = nativeWindow.document;
+        const body: HTMLElement = document.body;
+
+        document.documentElement.style.height = '100%';
+        Object.assign(body.style, {
+            height: '100%',
+            margin: '0',
+            boxSizing: 'border-box',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: update.valid ? theme.validBackground : theme.invalidBackground,
+            border: theme.border,
+            color: theme.labelColor,
+            font: 'bold 16px sans-serif'
+        });
+
+        body.textContent = (theme.showEdgeLabel && edges.length > 0) ? edges.map(this.getEdgeLabel).join(' + ') : '';
+    }
+
+    private getEdgeLabel(edge: SnapEdge): string {
+        return edge.charAt(0).toUpperCase() + edge.slice(1);
+    }
+}
+
+/**
+ * Draws the guide lines that are shown whilst aligning windows. Each guide is a separate preview window, filled with
+ * the guide color of the current theme.
+ */
+export class GuideRenderer implements PreviewRenderer {
+    public readonly url: string = 'about:blank';
+
+    public render(nativeWindow: Window, update: PreviewUpdate): void {
+        const document: Document = nativeWindow.document;
+
+        document.documentElement.style.height = '100%';
+        Object.assign(document.body.style, {height: '100%', margin: '0', background: update.theme.guideColor});
+    }
+}
+
+/**
+ * Renders previews using a page provided by an application.
+ *
+ * The page is sent each update as a 'message' event, and is free to render the preview however it chooses.
+ */
+export class ClientPreviewRenderer implements PreviewRenderer {
+    public readonly url: string;
+
+    constructor(url: string) {
+        this.url = url;
+    }
+
+    public render(nativeWindow: Window, update: PreviewUpdate): void {
+        nativeWindow.postMessage(update, '*');
+    }
+}
@@ -1,10 +1,12 @@
-import {ANCHOR_DISTANCE, MIN_OVERLAP, SNAP_DISTANCE} from './Config';
-import {eSnapValidity, Orientation, SnapTarget} from './Resolver';
-import {SnapGroup} from './SnapGroup';
-import {SnapWindow, WindowState} from './SnapWindow';
+import {SnapConfig, SnapEdge} from '../../client/types';
+
+import {DEFAULT_SNAP_CONFIG} from './Config';
+import {AlignmentGuide, eSnapValidity, Orientation, SnapTarget} from './Resolver';
+import {SnapModelGroup, SnapModelWindow} from './SnapModel';
+import {WindowState} from './SnapWindow';
 import {Point, PointUtils} from './utils/PointUtils';
 import {Range, RangeUtils} from './utils/RangeUtils';
-import {MeasureResult, RectUtils} from './utils/RectUtils';
+import {MeasureResult, Rectangle, RectUtils} from './utils/RectUtils';
 
 export enum eDirection {
     LEFT,
@@ -13,6 +15,39 @@ export enum eDirection {
     BOTTOM
 }
 
+/**
+ * The edge of the active window that is snapped by each border, indexed by eDirection.
+ *
+ * Directions refer to the edge of the candidate window that faces the active window - so the 'LEFT' border will snap
+ * the right-hand edge of the active window to the left-hand edge of the candidate.
+ */
+const DIRECTION_EDGES: SnapEdge[] = ['right', 'bottom', 'left', 'top'];
+
+/**
+ * Every edge of a window
+ */
+const ALL_EDGES: SnapEdge[] = ['left', 'top', 'right', 'bottom'];
+
+/**
+ * The closest alignment that has been found along a single axis.
+ */
+interface Alignment {
+    /**
+     * Distance that the active window must be moved along this axis to become aligned
+     */
+    offset: number;
+
+    /**
+     * Position of the aligned edge (or centre) of the candidate window
+     */
+    position: number;
+
+    /**
+     * The window that the active window will be aligned with
+     */
+    candidateState: Rectangle;
+}
+
 /**
  * Specialised util class for determining the closest windows in each direction of an active group.
  *
@@ -32,8 +67,27 @@ export class Projector {
      */
     private borders: [BorderProjection, BorderProjection, BorderProjection, BorderProjection];
 
+    /**
+     * The thresholds that apply to the windows currently being projected. Set with each call to reset().
+     */
+    private config: SnapConfig;
+
+    /**
+     * The edges of the active window that can be snapped. Set with each call to reset().
+     */
+    private edges: SnapEdge[];
+
+    /**
+     * The closest alignment found along each axis, or null if there are no windows to align with on that axis. Built
+     * up by calls to align(), and cleared with each call to reset().
+     */
+    private alignments: {x: Alignment|null, y: Alignment|null};
+
     constructor() {
         this.blocked = false;
+        this.config = DEFAULT_SNAP_CONFIG;
+        this.edges = ALL_EDGES;
+        this.alignments = {x: null, y: null};
         this.borders = [
             new BorderProjection(eDirection.LEFT),
             new BorderProjection(eDirection.TOP),
@@ -46,9 +100,15 @@ export class Projector {
 
     /**
      * Resets the state of this util, so it can be re-used for a different candidate group
+     *
+     * @param config The snap thresholds to use for the windows that will be projected. Defaults to the service-wide defaults.
+     * @param edges The edges of the active window that can be snapped, as specified by that window's snap policy. Defaults to all edges.
      */
-    public reset(): void {
+    public reset(config: SnapConfig = DEFAULT_SNAP_CONFIG, edges: SnapEdge[] = ALL_EDGES): void {
         this.blocked = false;
+        this.config = config;
+        this.edges = edges;
+        this.alignments = {x: null, y: null};
         this.borders.forEach(border => {
             border.limit = 0;
             border.distance = Number.MAX_SAFE_INTEGER;
@@ -62,13 +122,21 @@ export class Projector {
      * group can be snapped to this candidate group.
      *
      * @param activeState The window currently being dragged
-     * @param candidateState A window that 'activeWindow' may be able to snap to
-     * @param snapDistance The maximum distance between two windows for them to snap together
+     * @param candidateState A window (or monitor edge) that 'activeWindow' may be able to snap to
+     * @param candidateEdges The edges of the candidate that can be snapped, as specified by it's snap policy. Defaults to all edges.
      */
-    public project(activeState: WindowState, candidateState: WindowState): void {
+    public project(activeState: WindowState, candidateState: Rectangle, candidateEdges: SnapEdge[] = ALL_EDGES): void {
         const distBtwnWindows: MeasureResult = RectUtils.distance(activeState, candidateState);
         const direction: eDirection = this.getDirectionFromOffset(distBtwnWindows, activeState, candidateState);
-        const isValid: boolean = this.borders[direction].project(activeState, candidateState, distBtwnWindows);
+        const snapDistance: number = this.config.snapDistance;
+        let isValid: boolean;
+
+        if (this.edges.indexOf(DIRECTION_EDGES[direction]) >= 0 && candidateEdges.indexOf(DIRECTION_EDGES[(direction + 2) % 4]) >= 0) {
+            isValid = this.borders[direction].project(activeState, candidateState, distBtwnWindows, snapDistance);
+        } else {
+            // The windows can't be snapped along these edges, but the candidate can still block the active window from snapping elsewhere
+            isValid = distBtwnWindows.max >= -snapDistance;
+        }
 
         this.blocked = this.blocked || !isValid;
     }
@@ -78,18 +146,22 @@ export class Projector {
      *
      * If so, a SnapTarget object will be built and returned, otherwise will return null.
      *
-     * @param candidateGroup The group that was used to build this projection
+     * @param candidateGroup The group that was used to build this projection, or null if projecting monitor edges
      * @param activeWindow The window that is being moved by the user
+     * @param activeState The state that was used to build this projection. Defaults to the current state of 'activeWindow'.
      */
-    public createTarget(candidateGroup: SnapGroup, activeWindow: SnapWindow): SnapTarget|null {
+    public createTarget<W extends SnapModelWindow<G>, G extends SnapModelGroup<W>>(
+        candidateGroup: G|null, activeWindow: W, activeState: WindowState = activeWindow.getState()): SnapTarget<W, G>|null {
         const borders: BorderProjection[] = this.borders;
+        const {anchorDistance, minOverlap} = this.config;
 
         if (!this.blocked) {
-            const activeState: WindowState = activeWindow.getState();
+            // Windows are only resized when snapping a lone window. When moving a group, the whole group moves as one.
+            const canResize: boolean = activeWindow.getGroup().length === 1;
             const snapOffset: Point = {x: 0, y: 0};
             const halfSize: Point = PointUtils.clone(activeState.halfSize);
             const validDirections: BorderProjection[] = borders.filter((border: BorderProjection) => {
-                return border.distance < Number.MAX_SAFE_INTEGER && border.getOverlap(activeState) >= MIN_OVERLAP;
+                return border.distance < Number.MAX_SAFE_INTEGER && border.getOverlap(activeState) >= minOverlap;
             });
 
             if (validDirections.length > 0) {
@@ -107,11 +179,11 @@ export class Projector {
                         // Snap to min/max points
                         if (validDirections.length === 1) {
                             const snapToMin: boolean =
-                                Math.abs((activeState.center[border.opposite] - activeState.halfSize[border.opposite]) - border.min) < ANCHOR_DISTANCE;
+                                Math.abs((activeState.center[border.opposite] - activeState.halfSize[border.opposite]) - border.min) < anchorDistance;
                             const snapToMax: boolean =
-                                Math.abs((activeState.center[border.opposite] + activeState.halfSize[border.opposite]) - border.max) < ANCHOR_DISTANCE;
+                                Math.abs((activeState.center[border.opposite] + activeState.halfSize[border.opposite]) - border.max) < anchorDistance;
 
-                            if (snapToMin && snapToMax) {
+                            if (snapToMin && snapToMax && canResize) {
                                 halfSize[border.opposite] = (border.max - border.min) / 2;
                                 snapOffset[border.opposite] = ((border.min + border.max) / 2) - activeState.center[border.opposite];
                                 snapOffset[border.opposite] = ((border.min + border.max) / 2) - activeState.center[border.opposite] +
@@ -122,6 +194,11 @@ export class Projector {
                                 snapOffset[border.opposite] = (border.max - activeState.center[border.opposite]) - halfSize[border.opposite];
                             }
                         }
+                    } else if (!canResize) {
+                        // Can't stretch the window between both edges - snap to whichever edge is closest
+                        if (border.distance < opposite.distance || (border.distance === opposite.distance && border.direction < 2)) {
+                            snapOffset[border.orientation] = border.distance * Math.sign(0.5 - Math.floor(border.direction / 2));
+                        }
                     } else if (border.direction < 2) {
                         // Move and resize rectangle to touch both this edge and the opposite edge
                         halfSize[border.orientation] = Math.abs(border.limit - opposite.limit) / 2;
@@ -133,13 +210,97 @@ export class Projector {
                     }
                 });
 
-                return {group: candidateGroup, activeWindow, snapOffset, halfSize, validity: eSnapValidity.VALID};
+                return {
+                    group: candidateGroup,
+                    activeWindow,
+                    snapOffset,
+                    halfSize: canResize ? halfSize : null,
+                    edges: validDirections.map(border => DIRECTION_EDGES[border.direction]),
+                    guides: [],
+                    validity: eSnapValidity.VALID
+                };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Checks if a candidate window can be aligned with the active window, and updates the model if it is closer to
+     * alignment than any previous candidate.
+     *
+     * Windows can be aligned by their left, right, top or bottom edges, or by their centres. Only candidates that are
+     * further from the active window than the snap distance are considered - any closer windows will be snapped to
+     * instead.
+     *
+     * @param activeState The window currently being dragged
+     * @param candidateState A window that 'activeState' may be aligned with
+     */
+    public align(activeState: WindowState, candidateState: Rectangle): void {
+        const {snapDistance, alignDistance} = this.config;
+
+        if (alignDistance > 0 && RectUtils.distance(activeState, candidateState).max > snapDistance) {
+            (['x', 'y'] as Orientation[]).forEach((orientation: Orientation) => {
+                // Compare the min edges, centres and max edges of each window
+                for (let side = -1; side <= 1; side++) {
+                    const position: number = candidateState.center[orientation] + candidateState.halfSize[orientation] * side;
+                    const offset: number = position - (activeState.center[orientation] + activeState.halfSize[orientation] * side);
+                    const current: Alignment|null = this.alignments[orientation];
+
+                    if (Math.abs(offset) <= alignDistance && (!current || Math.abs(offset) < Math.abs(current.offset))) {
+                        this.alignments[orientation] = {offset, position, candidateState};
+                    }
+                }
+            });
+        }
+    }
+
+    /**
+     * Once all candidates have been aligned, creates a target that will align the active window with the closest
+     * candidate along each axis. Returns null if there were no candidates within the alignment distance.
+     *
+     * The target will not group the active window with any of the candidates.
+     *
+     * @param activeWindow The window that is being moved by the user
+     * @param activeState The state that was used to build the alignments. Defaults to the current state of 'activeWindow'.
+     */
+    public createAlignmentTarget<W extends SnapModelWindow<G>, G extends SnapModelGroup<W>>(
+        activeWindow: W, activeState: WindowState = activeWindow.getState()): SnapTarget<W, G>|null {
+        const {x, y} = this.alignments;
+
+        if (x || y) {
+            const snapOffset: Point = {x: x ? x.offset : 0, y: y ? y.offset : 0};
+            const guides: AlignmentGuide[] = [];
+
+            if (x) {
+                guides.push(this.createGuide('x', x, activeState, snapOffset));
+            }
+            if (y) {
+                guides.push(this.createGuide('y', y, activeState, snapOffset));
             }
+
+            return {group: null, activeWindow, snapOffset, halfSize: null, edges: [], guides, validity: eSnapValidity.VALID};
         }
 
         return null;
     }
 
+    /**
+     * Creates a guide line that spans both the active window (once aligned) and the window it is being aligned with.
+     */
+    private createGuide(orientation: Orientation, alignment: Alignment, activeState: WindowState, snapOffset: Point): AlignmentGuide {
+        const opposite: Orientation = (orientation === 'x') ? 'y' : 'x';
+        const activeCenter: number = activeState.center[opposite] + snapOffset[opposite];
+        const {center, halfSize} = alignment.candidateState;
+
+        return {
+            orientation,
+            position: alignment.position,
+            min: Math.min(activeCenter - activeState.halfSize[opposite], center[opposite] - halfSize[opposite]),
+            max: Math.max(activeCenter + activeState.halfSize[opposite], center[opposite] + halfSize[opposite])
+        };
+    }
+
     /**
      * Determines the direction of the candidate window, relative to the active window. If windows are positioned
      * diagonally, the dimension with the smallest offset takes precidence.
@@ -150,7 +311,7 @@ export class Projector {
      * @param activeState The state of the active window
      * @param candidateState The state of the candidate window
      */
-    private getDirectionFromOffset(offset: Point, activeState: WindowState, candidateState: WindowState): eDirection {
+    private getDirectionFromOffset(offset: Point, activeState: WindowState, candidateState: Rectangle): eDirection {
         let orientation: Orientation;
 
         // Dertermine orientation
@@ -227,11 +388,12 @@ class BorderProjection implements Range {
      * @param activeState Window that is having candidates projected upon it
      * @param candidateState Window that is being projected
      * @param distBtwnWindows The offset between the two windows
+     * @param snapDistance The maximum distance between two windows for them to snap together
      */
-    public project(activeState: WindowState, candidateState: WindowState, distBtwnWindows: MeasureResult): boolean {
-        if (distBtwnWindows.x < -SNAP_DISTANCE && distBtwnWindows.y < -SNAP_DISTANCE) {
+    public project(activeState: WindowState, candidateState: Rectangle, distBtwnWindows: MeasureResult, snapDistance: number): boolean {
+        if (distBtwnWindows.x < -snapDistance && distBtwnWindows.y < -snapDistance) {
             return false;
-        } else if (distBtwnWindows.border(SNAP_DISTANCE)) {
+        } else if (distBtwnWindows.border(snapDistance)) {
             const orientation: Orientation = this.orientation;
             this.limit = candidateState.center[orientation] +
                 (candidateState.halfSize[orientation] * Math.sign(activeState.center[orientation] - candidateState.center[orientation]));
@@ -271,7 +433,7 @@ class BorderProjection implements Range {
         }
     }
 
-    private addToRange(activeState: WindowState, candidateState: WindowState, distance: number): boolean {
+    private addToRange(activeState: WindowState, candidateState: Rectangle, distance: number): boolean {
         if (distance <= this.distance) {
             const opposite: Orientation = this.opposite;
 
@@ -1,11 +1,13 @@
-import {TabService} from '../tabbing/TabService';
+import {SnapConfig, SnapEdge, SnapPolicy} from '../../client/types';
 
-import {SNAP_DISTANCE} from './Config';
 import {Projector} from './Projector';
+import {SnapConfigManager} from './SnapConfigManager';
 import {SnapGroup} from './SnapGroup';
+import {SnapModelGroup, SnapModelMonitors, SnapModelWindow} from './SnapModel';
 import {SnapWindow, WindowIdentity, WindowState} from './SnapWindow';
 import {Point, PointUtils} from './utils/PointUtils';
-import {RectUtils} from './utils/RectUtils';
+import {MeasureResult, Rectangle, RectUtils} from './utils/RectUtils';
+import {SnapPolicyUtils} from './utils/SnapPolicyUtils';
 
 export enum eSnapValidity {
     /**
@@ -23,7 +25,12 @@ export enum eSnapValidity {
     /**
      * This snap would result in two windows in the same group overlapping each other.
      */
-    OVERLAP
+    OVERLAP,
+
+    /**
+     * The snap policy of one of the windows doesn't allow them to be snapped together.
+     */
+    POLICY
 }
 
 /**
@@ -44,6 +51,32 @@ export type Direction = Point<-1|0|1>;
  */
 export type Orientation = keyof Point;
 
+/**
+ * A line that is displayed whilst a window is being aligned with another window, connecting the aligned edges (or
+ * centres) of the two windows.
+ */
+export interface AlignmentGuide {
+    /**
+     * The axis along which the windows are aligned. A guide with an orientation of 'x' is a vertical line.
+     */
+    orientation: Orientation;
+
+    /**
+     * Position of the line along the 'orientation' axis, once the alignment has been applied
+     */
+    position: number;
+
+    /**
+     * Start of the line, along the opposite axis
+     */
+    min: number;
+
+    /**
+     * End of the line, along the opposite axis
+     */
+    max: number;
+}
+
 /**
  * Interface that represents a valid candidate group for the group that the user is currently manipulating.
  *
@@ -51,19 +84,22 @@ export type Orientation = keyof Point;
  * The service will create a SnapTarget for each possible snap candidate, and then select the "best" candidate as
  * being the current target. The selected target will then be passed to the UI for rendering/highlighting.
  */
-export interface SnapTarget {
+export interface SnapTarget<W = SnapWindow, G = SnapGroup> {
     /**
      * The group that has been selected as the snap candidate.
      *
      * This is not the group that the user is currently dragging, it is the group that has been selected as the snap
      * target.
+     *
+     * Will be null if the active group is being snapped to the edge of a monitor or aligned with another window,
+     * rather than being grouped with another group.
      */
-    group: SnapGroup;
+    group: G|null;
 
     /**
      * The window within the active group that was used to find this candidate
      */
-    activeWindow: SnapWindow;
+    activeWindow: W;
 
     /**
      * The offset that will be applied to the active group, in order to correctly align it with this target.
@@ -75,10 +111,24 @@ export interface SnapTarget {
      * happens when the active group contains a single window, and the two closest corners of that window are both
      * within the anchor distance of the corresponding corners of the candidate window.
      *
+     * Groups containing multiple windows are never resized as part of a snap, so this will always be null for those
+     * groups.
+     *
      * Will be null if we don't want the window to resize as part of the snap.
      */
     halfSize: Point|null;
 
+    /**
+     * The edges of 'activeWindow' that will be touching the target once the snap is applied.
+     */
+    edges: SnapEdge[];
+
+    /**
+     * Guide lines that indicate which windows 'activeWindow' is being aligned with. Will be empty for any targets that
+     * aren't alignments.
+     */
+    guides: AlignmentGuide[];
+
     /**
      * A snap target is always generated for any groups within range of the target window.
      */
@@ -90,80 +140,248 @@ export interface SnapTarget {
  *
  * All of the code to determine if two groups are snappable, and where to place the snapped windows, exists within
  * this class.
+ *
+ * The resolver has no dependency on the OpenFin runtime - windows and groups are accessed through the interfaces
+ * within SnapModel, and are never modified by the resolver. Within the service, 'W' and 'G' will be SnapWindow and
+ * SnapGroup.
  */
-export class Resolver {
+export class Resolver<W extends SnapModelWindow<G>, G extends SnapModelGroup<W>> {
     /**
      * Util that is reset and re-used with each candidate group.
      */
     private projector: Projector = new Projector();
 
     /**
-     * The only publicly-exposed function of this class - determines if 'activeGroup', in it's current location, should
-     * be snapped to another group.
+     * Provides the snap thresholds to use for each window
+     */
+    private configManager: SnapConfigManager;
+
+    /**
+     * Provides the monitor work areas, that windows can be snapped to the edges of
+     */
+    private monitors: SnapModelMonitors;
+
+    /**
+     * Determines if a window is currently a tab. Tabbed windows can't be snapped.
+     */
+    private isTabbed: (identity: WindowIdentity) => boolean;
+
+    constructor(configManager: SnapConfigManager, monitors: SnapModelMonitors, isTabbed: (identity: WindowIdentity) => boolean) {
+        this.configManager = configManager;
+        this.monitors = monitors;
+        this.isTabbed = isTabbed;
+    }
+
+    /**
+     * Determines if 'activeGroup', in it's current location, should be snapped to another group.
      *
      * @param groups A list of all groups within the system
      * @param activeGroup The group that is currently being moved
      */
-    public getSnapTarget(groups: SnapGroup[], activeGroup: SnapGroup): SnapTarget|null {
+    public getSnapTarget(groups: G[], activeGroup: G): SnapTarget<W, G>|null {
         const projector: Projector = this.projector;
-        const targets: SnapTarget[] = [];
+        const targets: SnapTarget<W, G>[] = [];
 
-        // Group-to-Group snapping not yet supported
-        if (activeGroup.windows.length > 1) {
-            return null;
-        }
+        // Windows may each have different thresholds - use the largest snap distance when checking groups, to avoid discounting any candidates
+        const maxSnapDistance: number =
+            Math.max(...activeGroup.windows.map(window => this.configManager.getApplicationConfig(window.getIdentity().uuid).snapDistance));
 
         // Find any groups that are close to a window in activeGroup
-        groups.forEach((candidateGroup: SnapGroup) => {
+        groups.forEach((candidateGroup: G) => {
             if (candidateGroup !== activeGroup) {
                 // Before checking any windows, make sure the bounding boxes of each group overlaps
-                if (RectUtils.distance(activeGroup, candidateGroup).within(SNAP_DISTANCE)) {
-                    projector.reset();
-
-                    // Need to iterate over every window in both groups
+                if (RectUtils.distance(activeGroup, candidateGroup).within(maxSnapDistance)) {
+                    // Each window in the active group is projected separately, creating a snap target for each window that is within range
                     activeGroup.windows.forEach(activeWindow => {
                         const activeState: WindowState = activeWindow.getState();
+                        const config: SnapConfig = this.getConfig(activeWindow, candidateGroup);
 
                         // Only do the next loop if there's a chance that this window can intersect with the other group
-                        if (this.isSnappable(activeWindow.getIdentity(), activeState) &&
-                            RectUtils.distance(candidateGroup, activeState).within(SNAP_DISTANCE)) {
+                        if (this.isSnappable(activeWindow.getIdentity(), activeState) && activeWindow.getPolicy().canBeSource &&
+                            RectUtils.distance(candidateGroup, activeState).within(config.snapDistance)) {
+                            projector.reset(config, activeWindow.getPolicy().edges);
+
                             candidateGroup.windows.forEach(candidateWindow => {
                                 const candidateState: WindowState = candidateWindow.getState();
 
-                                if (this.isSnappable(candidateWindow.getIdentity(), candidateState)) {
-                                    projector.project(activeState, candidateState);
+                                if (this.isSnappable(candidateWindow.getIdentity(), candidateState) && this.isAllowed(activeWindow, candidateWindow)) {
+                                    projector.project(activeState, candidateState, candidateWindow.getPolicy().edges);
                                 }
                             });
+
+                            // Create snap target
+                            const target: SnapTarget<W, G>|null = projector.createTarget<W, G>(candidateGroup, activeWindow);
+                            if (target) {
+                                // The offset is applied to the whole group, so need to check the other windows in the group can also be moved there
+                                if (this.isOverlapping(activeGroup, candidateGroup, target.snapOffset)) {
+                                    target.validity = eSnapValidity.OVERLAP;
+                                }
+
+                                targets.push(target);
+                            }
                         }
                     });
-
-                    // Create snap target
-                    const target: SnapTarget|null = projector.createTarget(candidateGroup, activeGroup.windows[0]);
-                    if (target) {
-                        targets.push(target);
-                    }
                 }
             }
         });
 
+        // Windows can also be snapped to the edges of the screen
+        activeGroup.windows.forEach(activeWindow => {
+            const target: SnapTarget<W, G>|null = this.getMonitorTarget(groups, activeWindow);
+
+            if (target) {
+                targets.push(target);
+            }
+        });
+
         if (targets.length === 0) {
-            return null;
+            // Nothing to snap to - see if the group can instead be aligned with any nearby windows
+            return this.getAlignmentTarget(groups, activeGroup);
         } else if (targets.length === 1) {
             return targets[0];
         } else {
-            // Multiple candidate groups within range. Pick the best available target.
+            // Multiple candidates within range. Pick the best available target.
             return this.findBestTarget(targets);
         }
     }
 
-    private findBestTarget(targets: SnapTarget[]): SnapTarget|null {
+    /**
+     * Creates a snap target for moving 'activeWindow' (along with the rest of it's group) by 'offset' and then snapping
+     * it to 'candidateGroup'. The target is built using the same rules as when a window is dragged by the user, so the
+     * final offset may differ slightly from 'offset' (e.g. to align with the corners of nearby windows).
+     *
+     * Used when snapping windows programmatically. Unlike getSnapTarget, this will always return a target - if the
+     * windows can't be snapped together, the validity of the target will indicate why. The snap policies of each
+     * window are still respected.
+     *
+     * @param activeWindow The window that is to be snapped
+     * @param candidateGroup The group to snap 'activeWindow' to
+     * @param offset The approximate offset that will move 'activeWindow' into it's snapped position
+     */
+    public getSnapTargetFromOffset(activeWindow: W, candidateGroup: G, offset: Point): SnapTarget<W, G> {
+        const projector: Projector = this.projector;
+        const activeGroup: G = activeWindow.getGroup();
+        const currentState: WindowState = activeWindow.getState();
+        const activeState: WindowState = {...currentState, center: {x: currentState.center.x + offset.x, y: currentState.center.y + offset.y}};
+
+        if (!candidateGroup.windows.some(candidateWindow => this.isAllowed(activeWindow, candidateWindow))) {
+            return {group: candidateGroup, activeWindow, snapOffset: offset, halfSize: null, edges: [], guides: [], validity: eSnapValidity.POLICY};
+        }
+
+        projector.reset(this.getConfig(activeWindow, candidateGroup), activeWindow.getPolicy().edges);
+        candidateGroup.windows.forEach(candidateWindow => {
+            const candidateState: WindowState = candidateWindow.getState();
+
+            if (this.isSnappable(candidateWindow.getIdentity(), candidateState) && this.isAllowed(activeWindow, candidateWindow)) {
+                projector.project(activeState, candidateState, candidateWindow.getPolicy().edges);
+            }
+        });
+
+        const target: SnapTarget<W, G>|null = projector.createTarget<W, G>(candidateGroup, activeWindow, activeState);
+        if (target) {
+            // Target is relative to the projected position, convert to an offset from the window's current position
+            target.snapOffset = {x: target.snapOffset.x + offset.x, y: target.snapOffset.y + offset.y};
+
+            if (this.isOverlapping(activeGroup, candidateGroup, target.snapOffset)) {
+                target.validity = eSnapValidity.OVERLAP;
+            }
+
+            return target;
+        } else {
+            // Either a window is in the way, or the windows don't share enough of an edge to be snapped together
+            const validity: eSnapValidity = this.isOverlapping(activeGroup, candidateGroup, offset) ? eSnapValidity.OVERLAP : eSnapValidity.CORNERS;
+
+            return {group: candidateGroup, activeWindow, snapOffset: offset, halfSize: null, edges: [], guides: [], validity};
+        }
+    }
+
+    /**
+     * Finds the closest window to 'activeWindow' in the given direction, and creates a snap target that would move
+     * 'activeWindow' (along with the rest of it's group) against that window.
+     *
+     * Only windows that overlap 'activeWindow' along the perpendicular axis, and that the snap policies of both windows
+     * allow 'activeWindow' to be snapped to, are considered. Will return null if there are no such windows.
+     *
+     * @param groups A list of all groups within the system
+     * @param activeWindow The window that is to be snapped
+     * @param edge The edge of 'activeWindow' that should be snapped to it's neighbour
+     */
+    public getSnapTargetInDirection(groups: G[], activeWindow: W, edge: SnapEdge): SnapTarget<W, G>|null {
+        const activeGroup: G = activeWindow.getGroup();
+        const activeState: WindowState = activeWindow.getState();
+        const orientation: Orientation = (edge === 'left' || edge === 'right') ? 'x' : 'y';
+        const opposite: Orientation = (orientation === 'x') ? 'y' : 'x';
+        const direction: number = (edge === 'right' || edge === 'bottom') ? 1 : -1;
+
+        let closestWindow: W|null = null;
+        let closestDistance: number = Number.MAX_SAFE_INTEGER;
+
+        for (const candidateGroup of groups) {
+            if (candidateGroup !== activeGroup) {
+                for (const candidateWindow of candidateGroup.windows) {
+                    const candidateState: WindowState = candidateWindow.getState();
+                    const distance: MeasureResult = RectUtils.distance(activeState, candidateState);
+                    const isInDirection: boolean = Math.sign(candidateState.center[orientation] - activeState.center[orientation]) === direction;
+
+                    if (isInDirection && distance[orientation] >= 0 && distance[opposite] < 0 && distance[orientation] < closestDistance &&
+                        this.isSnappable(candidateWindow.getIdentity(), candidateState) && this.isAllowed(activeWindow, candidateWindow)) {
+                        closestWindow = candidateWindow;
+                        closestDistance = distance[orientation];
+                    }
+                }
+            }
+        }
+
+        if (closestWindow) {
+            const offset: Point = {x: 0, y: 0};
+            offset[orientation] = closestDistance * direction;
+
+            return this.getSnapTargetFromOffset(activeWindow, closestWindow.getGroup(), offset);
+        } else {
+            return null;
+        }
+    }
+
+    /**
+     * Checks if a window is in the correct state to be snapped.
+     *
+     * If this check fails, we shouldn't be doing any bounds-checking or creating and snap targets for this window.
+     *
+     * @param identity Handle to the window we are considering for snapping
+     * @param windowState State of the window object we are considering for snapping
+     */
+    public isSnappable(identity: WindowIdentity, windowState: WindowState): boolean {
+        return !windowState.hidden && windowState.opacity > 0 && windowState.state === 'normal' && !this.isTabbed(identity);
+    }
+
+    /**
+     * Checks if the snap policies of two windows allow 'activeWindow' to be snapped to 'candidateWindow'.
+     *
+     * This only checks the policy of each window as a whole - the edges that each window allows to be snapped are
+     * handled by the projector.
+     *
+     * @param activeWindow The window that is being moved
+     * @param candidateWindow A window that 'activeWindow' may be snapped to
+     */
+    private isAllowed(activeWindow: W, candidateWindow: W): boolean {
+        const activePolicy: Readonly<SnapPolicy> = activeWindow.getPolicy();
+        const candidatePolicy: Readonly<SnapPolicy> = candidateWindow.getPolicy();
+
+        return activePolicy.canBeSource && candidatePolicy.canBeTarget && SnapPolicyUtils.allowsUuid(activePolicy, candidateWindow.getIdentity().uuid) &&
+            SnapPolicyUtils.allowsUuid(candidatePolicy, activeWindow.getIdentity().uuid);
+    }
+
+    private findBestTarget(targets: SnapTarget<W, G>[]): SnapTarget<W, G>|null {
         // Sort candidates so that most preferable is at start of array
-        targets = targets.sort((a: SnapTarget, b: SnapTarget) => {
+        targets = targets.sort((a: SnapTarget<W, G>, b: SnapTarget<W, G>) => {
             const offsetA: Point = a.snapOffset, offsetB: Point = b.snapOffset;
 
             if (a.validity !== b.validity && (a.validity === eSnapValidity.VALID || b.validity === eSnapValidity.VALID)) {
                 // Prefer valid targets
                 return a.validity - b.validity;
+            } else if ((a.group === null) !== (b.group === null)) {
+                // Prefer snapping to other windows over snapping to monitor edges
+                return a.group ? -1 : 1;
             } else if (this.isAnchorSnap(a) !== this.isAnchorSnap(b)) {
                 // Prefer snaps to anchor points
                 return (offsetA.x && offsetA.y) ? -1 : 1;
@@ -176,19 +394,149 @@ export class Resolver {
         return targets[0] || null;
     }
 
-    private isAnchorSnap(target: SnapTarget): boolean {
+    private isAnchorSnap(target: SnapTarget<W, G>): boolean {
         return target.snapOffset.x !== 0 && target.snapOffset.y !== 0;
     }
 
     /**
-     * Checks if a window is in the correct state to be snapped.
+     * Creates a snap target for snapping 'activeWindow' (and the rest of it's group) flush against the edges of the
+     * monitor that it is on. Returns null if the window isn't close enough to the edges of the monitor.
      *
-     * If this check fails, we shouldn't be doing any bounds-checking or creating and snap targets for this window.
+     * The edges of the monitor's work area are treated as though there were immovable windows on the other side of
+     * each edge. The same snapping rules then apply as when snapping to a window, except that the window will never
+     * anchor to (or be resized to fit) the corners of the monitor.
      *
-     * @param identity Handle to the window we are considering for snapping
-     * @param windowState State of the window object we are considering for snapping
+     * As with any other target, the target will be invalid if the offset would move any window in the group on top of
+     * another window.
+     *
+     * @param groups A list of all groups within the system
+     * @param activeWindow A window within the group that is currently being moved
      */
-    private isSnappable(identity: WindowIdentity, windowState: WindowState): boolean {
-        return !windowState.hidden && windowState.opacity > 0 && windowState.state === 'normal' && TabService.INSTANCE.getTab(identity) === undefined;
+    private getMonitorTarget(groups: G[], activeWindow: W): SnapTarget<W, G>|null {
+        const activeGroup: G = activeWindow.getGroup();
+        const projector: Projector = this.projector;
+        const activeState: WindowState = activeWindow.getState();
+        const policy: Readonly<SnapPolicy> = activeWindow.getPolicy();
+        const config: SnapConfig = {...this.configManager.getApplicationConfig(activeWindow.getIdentity().uuid), anchorDistance: 0};
+
+        if (this.isSnappable(activeWindow.getIdentity(), activeState) && policy.canBeSource) {
+            // Only consider the monitor(s) that the window is currently on
+            for (const workArea of this.monitors.workAreas) {
+                if (RectUtils.distance(activeState, workArea).max < 0) {
+                    projector.reset(config, policy.edges);
+
+                    this.getMonitorEdges(workArea).forEach((edge: Rectangle) => {
+                        projector.project(activeState, edge);
+                    });
+
+                    const target: SnapTarget<W, G>|null = projector.createTarget<W, G>(null, activeWindow);
+                    if (target) {
+                        if (groups.some(group => group !== activeGroup && this.isOverlapping(activeGroup, group, target.snapOffset))) {
+                            target.validity = eSnapValidity.OVERLAP;
+                        }
+
+                        return target;
+                    }
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Creates a target for aligning 'activeGroup' with nearby windows that it isn't touching. The active group is moved
+     * so that an edge (or the centre) of one of it's windows lines up with the same edge of another window, but the
+     * windows are not grouped together. Returns null if there are no windows to align with.
+     *
+     * If several windows within the active group can be aligned, the alignment that moves the group the least is used.
+     * Alignments that would move the active group on top of another window are ignored.
+     *
+     * @param groups A list of all groups within the system
+     * @param activeGroup The group that is currently being moved
+     */
+    private getAlignmentTarget(groups: G[], activeGroup: G): SnapTarget<W, G>|null {
+        const projector: Projector = this.projector;
+        let bestTarget: SnapTarget<W, G>|null = null;
+
+        for (const activeWindow of activeGroup.windows) {
+            const activeState: WindowState = activeWindow.getState();
+
+            if (this.isSnappable(activeWindow.getIdentity(), activeState) && activeWindow.getPolicy().canBeSource) {
+                projector.reset(this.configManager.getApplicationConfig(activeWindow.getIdentity().uuid));
+
+                for (const candidateGroup of groups) {
+                    if (candidateGroup !== activeGroup) {
+                        for (const candidateWindow of candidateGroup.windows) {
+                            const candidateState: WindowState = candidateWindow.getState();
+
+                            if (this.isSnappable(candidateWindow.getIdentity(), candidateState) && this.isAllowed(activeWindow, candidateWindow)) {
+                                projector.align(activeState, candidateState);
+                            }
+                        }
+                    }
+                }
+
+                const target: SnapTarget<W, G>|null = projector.createAlignmentTarget<W, G>(activeWindow);
+                if (target && !groups.some(group => group !== activeGroup && this.isOverlapping(activeGroup, group, target.snapOffset)) &&
+                    (!bestTarget || PointUtils.lengthSquared(target.snapOffset) < PointUtils.lengthSquared(bestTarget.snapOffset))) {
+                    bestTarget = target;
+                }
+            }
+        }
+
+        return bestTarget;
+    }
+
+    /**
+     * Returns four rectangles that cover the regions immediately outside of each edge of 'workArea'.
+     */
+    private getMonitorEdges(workArea: Rectangle): Rectangle[] {
+        const {center, halfSize} = workArea;
+
+        return [
+            {center: {x: center.x - (halfSize.x * 2), y: center.y}, halfSize},
+            {center: {x: center.x, y: center.y - (halfSize.y * 2)}, halfSize},
+            {center: {x: center.x + (halfSize.x * 2), y: center.y}, halfSize},
+            {center: {x: center.x, y: center.y + (halfSize.y * 2)}, halfSize}
+        ];
+    }
+
+    /**
+     * Returns the snap thresholds that should be used when snapping 'activeWindow' to 'candidateGroup'. This will take
+     * into account the config of each application involved.
+     *
+     * @param activeWindow A window within the group that is currently being moved
+     * @param candidateGroup The group that activeWindow may be snapped to
+     */
+    private getConfig(activeWindow: W, candidateGroup: G): SnapConfig {
+        const uuids: string[] = candidateGroup.windows.map(window => window.getIdentity().uuid);
+        uuids.push(activeWindow.getIdentity().uuid);
+
+        return this.configManager.getConfig(uuids);
+    }
+
+    /**
+     * Checks if applying 'snapOffset' to every window in 'activeGroup' would result in any of those windows overlapping
+     * a window within 'candidateGroup'.
+     *
+     * Windows that are touching edge-to-edge are not considered to be overlapping.
+     *
+     * @param activeGroup The group that is currently being moved
+     * @param candidateGroup The group that activeGroup may be snapped to
+     * @param snapOffset The offset that would be applied to each window in activeGroup
+     */
+    private isOverlapping(activeGroup: G, candidateGroup: G, snapOffset: Point): boolean {
+        return activeGroup.windows.some((activeWindow: W) => {
+            const activeState: WindowState = activeWindow.getState();
+            const center: Point = {x: activeState.center.x + snapOffset.x, y: activeState.center.y + snapOffset.y};
+
+            return candidateGroup.windows.some((candidateWindow: W) => {
+                const candidateState: WindowState = candidateWindow.getState();
+                const distance: MeasureResult = RectUtils.distanceFromParts(center, activeState.halfSize, candidateState.center, candidateState.halfSize);
+
+                return this.isSnappable(candidateWindow.getIdentity(), candidateState) && distance.x < 0 && distance.y < 0;
+            });
+        });
     }
 }
\ No newline at end of file
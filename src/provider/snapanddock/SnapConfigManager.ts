@@ -0,0 +1,102 @@
+import {SnapConfig} from '../../client/types';
+
+import {DEFAULT_SNAP_CONFIG} from './Config';
+
+/**
+ * Holds the snap thresholds that are used when snapping windows together.
+ *
+ * There is a single set of default values (which can be modified using the service manifest), and then each
+ * application can override any of these values for it's own windows.
+ */
+export class SnapConfigManager {
+    /**
+     * Config to use for any application that hasn't overridden a particular value
+     */
+    private defaultConfig: SnapConfig;
+
+    /**
+     * Per-application overrides, keyed by application UUID.
+     *
+     * Overrides persist for the lifetime of the service, and will be re-applied if the application is restarted.
+     */
+    private applicationConfigs: {[uuid: string]: Partial<SnapConfig>};
+
+    constructor() {
+        this.defaultConfig = {...DEFAULT_SNAP_CONFIG};
+        this.applicationConfigs = {};
+    }
+
+    /**
+     * Replaces one or more of the default threshold values. Any values not specified in 'config' are left unchanged.
+     *
+     * @param config The values to apply
+     */
+    public setDefaultConfig(config: Partial<SnapConfig>): void {
+        this.validate(config);
+        Object.assign(this.defaultConfig, config);
+    }
+
+    /**
+     * Overrides one or more threshold values for all windows belonging to the given application. Subsequent calls will
+     * be merged with any previous overrides for the same application.
+     *
+     * @param uuid The application to apply the config to
+     * @param config The values to apply
+     */
+    public setApplicationConfig(uuid: string, config: Partial<SnapConfig>): void {
+        this.validate(config);
+        this.applicationConfigs[uuid] = {...this.applicationConfigs[uuid], ...config};
+    }
+
+    /**
+     * Returns the full set of thresholds that apply to windows of the given application.
+     *
+     * @param uuid The application to fetch config for
+     */
+    public getApplicationConfig(uuid: string): SnapConfig {
+        return {...this.defaultConfig, ...this.applicationConfigs[uuid]};
+    }
+
+    /**
+     * Returns the thresholds that should be used when snapping windows from several applications together.
+     *
+     * When applications disagree, the smallest value of each threshold is used. This ensures that an application that
+     * has reduced it's thresholds (e.g. to support small toolbar windows) will have those values respected, regardless
+     * of which window is being dragged.
+     *
+     * @param uuids The applications involved in the snap. Duplicates are permitted.
+     */
+    public getConfig(uuids: string[]): SnapConfig {
+        const configs: SnapConfig[] = uuids.map(uuid => this.getApplicationConfig(uuid));
+
+        if (configs.length === 0) {
+            return {...this.defaultConfig};
+        } else {
+            return configs.reduce((prev: SnapConfig, config: SnapConfig) => {
+                return {
+                    snapDistance: Math.min(prev.snapDistance, config.snapDistance),
+                    anchorDistance: Math.min(prev.anchorDistance, config.anchorDistance),
+                    minOverlap: Math.min(prev.minOverlap, config.minOverlap),
+                    alignDistance: Math.min(prev.alignDistance, config.alignDistance)
+                };
+            });
+        }
+    }
+
+    private validate(config: Partial<SnapConfig>): void {
+        if (!config || typeof config !== 'object') {
+            throw new Error('Invalid snap config provided');
+        }
+
+        Object.keys(config).forEach((key: string) => {
+            if (!DEFAULT_SNAP_CONFIG.hasOwnProperty(key)) {
+                throw new Error(`Invalid snap config provided: unknown property "${key}"`);
+            }
+
+            const value = config[key as keyof SnapConfig];
+            if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+                throw new Error(`Invalid snap config provided: "${key}" must be a non-negative number`);
+            }
+        });
+    }
+}
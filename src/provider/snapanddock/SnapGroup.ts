@@ -1,7 +1,9 @@
 import {Signal1, Signal2} from './Signal';
+import {getNeighbours, SnapModelNeighbour} from './SnapModel';
 import {eTransformType, Mask, SnapWindow, WindowState} from './SnapWindow';
 import {CalculatedProperty} from './utils/CalculatedProperty';
 import {Point} from './utils/PointUtils';
+import {Rectangle} from './utils/RectUtils';
 
 /**
  * Key-value store for saving the state of each window before it was added to the tab group.
@@ -28,6 +30,38 @@ interface TabState {
     previousState: TabData;
 }
 
+/**
+ * A window that is directly attached to another window within the same group.
+ */
+export type SnapGroupNeighbour = SnapModelNeighbour<SnapWindow>;
+
+/**
+ * A set of collinear window edges within a group. When a window within the group is resized, the seam that lies along
+ * the edge being moved is kept together, by resizing every other window along that seam.
+ */
+interface Seam {
+    axis: 'x'|'y';
+
+    /**
+     * The windows that have an edge lying on this seam
+     */
+    edges: SeamEdge[];
+}
+
+interface SeamEdge {
+    window: SnapWindow;
+
+    /**
+     * The edge of the window that is on the seam - negative for the left/top edge, positive for the right/bottom edge
+     */
+    side: number;
+}
+
+/**
+ * Maximum distance between two edges for them to be considered part of the same seam.
+ */
+const SEAM_TOLERANCE = 1;
+
 export class SnapGroup {
     private static nextId = 1;
 
@@ -74,6 +108,13 @@ export class SnapGroup {
      */
     public readonly onWindowRemoved: Signal2<SnapGroup, SnapWindow> = new Signal2();
 
+    /**
+     * A window within this group has been minimized, maximized or restored.
+     *
+     * Arguments: (group: SnapGroup, window: SnapWindow)
+     */
+    public readonly onWindowStateChanged: Signal2<SnapGroup, SnapWindow> = new Signal2();
+
 
     // NOTE: The co-ordinates used by _origin and _halfSize use the center of the root window as the origin.
     private _origin: CalculatedProperty<Point>;
@@ -84,6 +125,18 @@ export class SnapGroup {
 
     private rootWindow: SnapWindow|null;
 
+    /**
+     * The window that triggered the most recent onTransform signal. Only this window's onCommit signal will be
+     * re-broadcast at the group level, as every window in a group will commit at the end of a group move.
+     */
+    private transformWindow: SnapWindow|null;
+
+    /**
+     * The seams that are being moved by the current resize operation. Calculated when the resize begins, and cleared
+     * once the resize is committed.
+     */
+    private seams: Seam[];
+
     /**
      * If this is non-null then the windows in this group are tabbed, and so have some special behaviour.
      *
@@ -97,6 +150,8 @@ export class SnapGroup {
         this._id = SnapGroup.nextId++;
         this._windows = [];
         this.rootWindow = null;
+        this.transformWindow = null;
+        this.seams = [];
         this.tabData = null;
 
         const refreshFunc = this.calculateProperties.bind(this);
@@ -139,6 +194,16 @@ export class SnapGroup {
         return this._windows.slice();
     }
 
+    /**
+     * Returns the windows within this group that share (part of) an edge with the given window, along with the edge
+     * that each is attached to. Windows that only touch at a corner are not included.
+     *
+     * @param window A window within this group
+     */
+    public getNeighbours(window: SnapWindow): SnapGroupNeighbour[] {
+        return getNeighbours(window, this._windows);
+    }
+
     public addWindow(window: SnapWindow): void {
         if (!this._windows.includes(window)) {
             // Remove window from it's previous group
@@ -151,6 +216,7 @@ export class SnapGroup {
             window.onModified.add(this.onWindowModified, this);
             window.onTransform.add(this.onWindowTransform, this);
             window.onCommit.add(this.onWindowCommit, this);
+            window.onStateChanged.add(this.onWindowStateChange, this);
             window.onClose.add(this.removeWindow, this);
 
             // Setup hierarchy
@@ -176,8 +242,14 @@ export class SnapGroup {
             window.onModified.remove(this.onWindowModified, this);
             window.onTransform.remove(this.onWindowTransform, this);
             window.onCommit.remove(this.onWindowCommit, this);
+            window.onStateChanged.remove(this.onWindowStateChange, this);
             window.onClose.remove(this.removeWindow, this);
 
+            if (this.transformWindow === window) {
+                this.transformWindow = null;
+            }
+            this.seams = [];
+
             // Root may now have changed
             this.checkRoot();
 
@@ -209,15 +281,28 @@ export class SnapGroup {
         this.onModified.emit(this, window);
     }
 
-    private onWindowTransform(window: SnapWindow, type: Mask<eTransformType>): void {
+    private onWindowTransform(window: SnapWindow, type: Mask<eTransformType>, startBounds: Rectangle): void {
+        if ((type & eTransformType.RESIZE) !== 0 && this._windows.length > 1) {
+            if (this.transformWindow !== window) {
+                this.seams = this.findSeams(window, startBounds);
+            }
+
+            // Resize any windows that share an edge with the window being resized, before the group re-broadcasts the
+            // transform. This ensures that the group remains intact, and that any snap targets are calculated using
+            // the updated window positions.
+            this.moveSeams(window);
+        }
+
         if (type === eTransformType.MOVE) {
             // When a grouped window is moved, all windows in the group will fire a move event.
             // We want to filter these to ensure the group only fires onTransform once
             if (window === this.rootWindow) {
+                this.transformWindow = window;
                 this.onTransform.emit(this, type);
             }
         } else {
             // If a window is resized, that event will only ever fire from that one window. Safe to re-broadcast at the group level.
+            this.transformWindow = window;
             this.onTransform.emit(this, type);
         }
 
@@ -230,7 +315,145 @@ export class SnapGroup {
     }
 
     private onWindowCommit(window: SnapWindow): void {
-        this.onCommit.emit(this);
+        // Filter out the commits from the other windows in the group, to ensure the group only fires onCommit once
+        if (window === this.transformWindow) {
+            // Window events may arrive out-of-order with the resize operations applied during the transform, so ensure
+            // every seam is in it's final position
+            this.moveSeams(window);
+            this.seams = [];
+
+            this.transformWindow = null;
+            this.onCommit.emit(this);
+        }
+    }
+
+    private onWindowStateChange(window: SnapWindow): void {
+        this.onWindowStateChanged.emit(this, window);
+    }
+
+    /**
+     * Finds the seams that lie along each edge of a window that is about to be resized.
+     *
+     * A seam will only be returned if there is at least one window on the other side of it. Windows along the seam
+     * that are on the same side as the resized window will also be included, so that they remain aligned.
+     *
+     * @param window The window that is being resized
+     * @param startBounds The bounds of that window before the resize began
+     */
+    private findSeams(window: SnapWindow, startBounds: Rectangle): Seam[] {
+        const seams: Seam[] = [];
+
+        (['x', 'y'] as ('x' | 'y')[]).forEach((axis: 'x'|'y') => {
+            const otherAxis: 'x'|'y' = axis === 'x' ? 'y' : 'x';
+
+            [-1, 1].forEach((side: number) => {
+                const position: number = startBounds.center[axis] + side * startBounds.halfSize[axis];
+                const edges: SeamEdge[] = [{window, side}];
+                const candidates: SnapWindow[] = this._windows.filter(candidate => candidate !== window);
+                let min: number = startBounds.center[otherAxis] - startBounds.halfSize[otherAxis];
+                let max: number = startBounds.center[otherAxis] + startBounds.halfSize[otherAxis];
+                let modified = true;
+
+                // Follow the seam outward from the resized window, adding any window that has an edge along the seam
+                // and is touching the part of the seam found so far
+                while (modified) {
+                    modified = false;
+
+                    for (let i = candidates.length - 1; i >= 0; i--) {
+                        const state: WindowState = candidates[i].getState();
+                        const candidateMin: number = state.center[otherAxis] - state.halfSize[otherAxis];
+                        const candidateMax: number = state.center[otherAxis] + state.halfSize[otherAxis];
+
+                        if (candidateMin <= max && candidateMax >= min) {
+                            const candidateSide: number|null = this.getEdgeAtPosition(state, axis, position);
+
+                            if (candidateSide !== null) {
+                                edges.push({window: candidates[i], side: candidateSide});
+                                candidates.splice(i, 1);
+
+                                min = Math.min(min, candidateMin);
+                                max = Math.max(max, candidateMax);
+                                modified = true;
+                            }
+                        }
+                    }
+                }
+
+                if (edges.some(edge => edge.side !== side)) {
+                    seams.push({axis, edges});
+                }
+            });
+        });
+
+        return seams;
+    }
+
+    /**
+     * Moves each seam to the current position of the resized window's edge, resizing the other windows along the
+     * seam to match.
+     *
+     * The position of each seam is limited by the min/max size of every window along that seam. If the resized window
+     * has been moved beyond these limits, it will be resized back onto the seam.
+     *
+     * @param window The window that is being resized
+     */
+    private moveSeams(window: SnapWindow): void {
+        this.seams.forEach((seam: Seam) => {
+            const {axis, edges} = seam;
+            const state: WindowState = window.getState();
+            const position: number|null = this.clampSeam(seam, state.center[axis] + edges[0].side * state.halfSize[axis]);
+
+            if (position !== null) {
+                edges.forEach(({window: edgeWindow, side}) => {
+                    const edgeState: WindowState = edgeWindow.getState();
+
+                    if (edgeState.center[axis] + side * edgeState.halfSize[axis] !== position) {
+                        edgeWindow.resizeEdge(axis, side, position);
+                    }
+                });
+            }
+        });
+    }
+
+    /**
+     * Restricts the position of a seam, such that every window along the seam stays within it's size constraints.
+     *
+     * Returns null if there is no position that satisfies the constraints of every window.
+     */
+    private clampSeam(seam: Seam, position: number): number|null {
+        let min = Number.NEGATIVE_INFINITY;
+        let max = Number.POSITIVE_INFINITY;
+
+        seam.edges.forEach(({window, side}) => {
+            const state: WindowState = window.getState();
+            const limits: {min: Point, max: Point} = window.getSizeLimits();
+            const fixedEdge: number = state.center[seam.axis] - side * state.halfSize[seam.axis];
+
+            if (side > 0) {
+                min = Math.max(min, fixedEdge + limits.min[seam.axis]);
+                max = Math.min(max, fixedEdge + limits.max[seam.axis]);
+            } else {
+                min = Math.max(min, fixedEdge - limits.max[seam.axis]);
+                max = Math.min(max, fixedEdge - limits.min[seam.axis]);
+            }
+        });
+
+        return min <= max ? Math.min(Math.max(position, min), max) : null;
+    }
+
+    /**
+     * Determines which edge of a window, if any, lies at the given position.
+     *
+     * @returns -1 for the left/top edge, 1 for the right/bottom edge, or null if neither edge is at that position
+     */
+    private getEdgeAtPosition(state: WindowState, axis: 'x'|'y', position: number): number|null {
+        if (Math.abs(state.center[axis] - state.halfSize[axis] - position) < SEAM_TOLERANCE) {
+            return -1;
+        } else if (Math.abs(state.center[axis] + state.halfSize[axis] - position) < SEAM_TOLERANCE) {
+            return 1;
+        } else {
+            return null;
+        }
     }
 
     private onWindowClosed(window: SnapWindow): void {
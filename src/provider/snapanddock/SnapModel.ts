@@ -0,0 +1,135 @@
+import {SnapEdge, SnapPolicy} from '../../client/types';
+
+import {SnapTarget} from './Resolver';
+import {WindowIdentity, WindowState} from './SnapWindow';
+import {Point} from './utils/PointUtils';
+import {MeasureResult, Rectangle, RectUtils} from './utils/RectUtils';
+
+/**
+ * The parts of a window that are used by the snap engine (Resolver and Projector).
+ *
+ * The engine only ever reads the state of each window - snap targets returned by the engine are applied through
+ * applySnapTarget, which modifies windows using a SnapModelCommitHandler provided by the caller. This means the engine
+ * has no dependency on the OpenFin runtime, and can be driven by any objects that implement these interfaces. Within
+ * the service, these are implemented by SnapWindow and SnapGroup.
+ */
+export interface SnapModelWindow<G> {
+    getState(): WindowState;
+    getIdentity(): WindowIdentity;
+    getPolicy(): Readonly<SnapPolicy>;
+    getGroup(): G;
+}
+
+/**
+ * The parts of a group that are used by the snap engine. See SnapModelWindow.
+ *
+ * The center and halfSize of a group should give the bounding box of every window within that group.
+ */
+export interface SnapModelGroup<W> {
+    readonly windows: W[];
+    readonly length: number;
+    readonly center: Point;
+    readonly halfSize: Readonly<Point>;
+}
+
+/**
+ * Provides the regions of the desktop that windows can be snapped to the edges of. Within the service, this is
+ * implemented by MonitorManager.
+ */
+export interface SnapModelMonitors {
+    /**
+     * The work area of every monitor, in the same format as window bounds
+     */
+    readonly workAreas: ReadonlyArray<Readonly<Rectangle>>;
+}
+
+/**
+ * Modifies windows and groups on behalf of applySnapTarget. Within the service, this is implemented by SnapService
+ * using the methods of SnapWindow.
+ */
+export interface SnapModelCommitHandler<W, G> {
+    /**
+     * Moves a window by 'offset', without changing it's group. The rest of the window's group should move along with it.
+     *
+     * @param window The window to move
+     * @param offset The offset to apply to the window's position
+     * @param halfSize The new halfSize of the window, if it is also being resized. Windows are resized about their top-left corner.
+     */
+    moveWindow(window: W, offset: Point, halfSize: Point|undefined): void;
+
+    /**
+     * Moves a single window by 'offset', and then adds it to 'group' (removing it from it's current group).
+     *
+     * @param window The window to move
+     * @param group The group that 'window' should be added to
+     * @param offset The offset to apply to the window's position
+     * @param halfSize The new halfSize of the window, if it is also being resized. Windows are resized about their top-left corner.
+     */
+    addToGroup(window: W, group: G, offset: Point, halfSize: Point|undefined): void;
+}
+
+/**
+ * Applies a snap target, as returned by the Resolver.
+ *
+ * If the target has a group, every window within 'activeGroup' is moved by the target's offset and added to the target
+ * group. Otherwise (when snapping to a monitor edge, or aligning with another window) the windows are moved, but remain
+ * within their current group. In either case, only the target's active window is resized.
+ *
+ * @param activeGroup The group being snapped
+ * @param target Where to snap 'activeGroup'. Must be a valid target.
+ * @param handler Performs the actual changes to each window
+ */
+export function applySnapTarget<W extends SnapModelWindow<G>, G extends SnapModelGroup<W>>(
+    activeGroup: G, target: SnapTarget<W, G>, handler: SnapModelCommitHandler<W, G>): void {
+    const targetGroup: G|null = target.group;
+    const halfSize: Point|undefined = target.halfSize || undefined;
+
+    if (!targetGroup) {
+        // Moving one window will also move the rest of it's group
+        handler.moveWindow(target.activeWindow, target.snapOffset, halfSize);
+    } else {
+        // Group membership will change as each window is moved, so iterate over a copy of the window list
+        activeGroup.windows.slice().forEach((window: W) => {
+            handler.addToGroup(window, targetGroup, target.snapOffset, window === target.activeWindow ? halfSize : undefined);
+        });
+    }
+}
+
+/**
+ * A window that is directly attached to another window within the same group.
+ */
+export interface SnapModelNeighbour<W> {
+    window: W;
+
+    /**
+     * The edge of the other window that this neighbour is attached to
+     */
+    edge: SnapEdge;
+}
+
+/**
+ * Returns the windows that are directly attached to 'window', and the edge of 'window' that each is attached to.
+ *
+ * @param window The window to find the neighbours of
+ * @param windows The other windows within the same group. May include 'window' itself, which is ignored.
+ */
+export function getNeighbours<W extends {getState(): Rectangle}>(window: W, windows: W[]): SnapModelNeighbour<W>[] {
+    const state: Rectangle = window.getState();
+    const neighbours: SnapModelNeighbour<W>[] = [];
+
+    windows.forEach((other: W) => {
+        const otherState: Rectangle = other.getState();
+        const distance: MeasureResult = RectUtils.distance(state, otherState);
+
+        if (other !== window && distance.max <= 0 && distance.min < 0) {
+            // Windows are attached along whichever axis they overlap the least
+            if (distance.x >= distance.y) {
+                neighbours.push({window: other, edge: otherState.center.x > state.center.x ? 'right' : 'left'});
+            } else {
+                neighbours.push({window: other, edge: otherState.center.y > state.center.y ? 'bottom' : 'top'});
+            }
+        }
+    });
+
+    return neighbours;
+}
@@ -1,108 +1,158 @@
-import {eSnapValidity, SnapTarget} from './Resolver';
-import {SnapGroup} from './SnapGroup';
+import {PreviewTheme, PreviewUpdate} from '../../client/types';
+
+import {PreviewRenderer} from './PreviewRenderer';
+import {AlignmentGuide, eSnapValidity, Orientation, SnapTarget} from './Resolver';
+import {SnapWindow, WindowState} from './SnapWindow';
 import {Point, PointUtils} from './utils/PointUtils';
 
-const PREVIEW_SUCCESS = '#3D4059';
-const PREVIEW_SUCCESS_RESIZE = PREVIEW_SUCCESS;
-const PREVIEW_FAILURE = `repeating-linear-gradient(45deg, #3D4059, #3D4059 .25em, #C24629 0, #C24629 .5em)`;
+/**
+ * Thickness of each alignment guide, in pixels
+ */
+const GUIDE_THICKNESS = 2;
 
 interface PreviewWindow {
     window: fin.OpenFinWindow;
     nativeWindow: Window|null;
     halfSize: Point;
+    opacity: number;
+
+    /**
+     * The content that is currently displayed within this window. Will be null until the window is first shown.
+     */
+    update: PreviewUpdate|null;
 }
 
 /**
  * Visual indicator of the current stap target.
  *
- * Will create colored rectangles based on the given group. Rectangle color will be set according to snap validity.
+ * Will create rectangles based on the given group. The contents of each rectangle are drawn by the renderer that this
+ * preview was created with, according to snap validity and the current theme.
  */
 export class SnapPreview {
-    private pool: {active: fin.OpenFinWindow[]; free: fin.OpenFinWindow[]};
+    private static nextId = 0;
 
-    private activeGroup: SnapGroup|null;
-    private activeWindowPreview: PreviewWindow|null;
-
-    // Just using a single window instance right now. Will update to use the pool at a later point.
-    private tempWindow: PreviewWindow;
-    private tempWindowIsActive: boolean;
-
-    constructor() {
-        this.pool = {active: [], free: [/*this.createWindow()*/]};
+    /**
+     * Preview windows are re-used between snaps. There will be one 'active' preview window for each window in the
+     * group currently being dragged, with any remaining windows hidden and kept in the 'free' list.
+     */
+    private pool: {active: PreviewWindow[]; free: PreviewWindow[]};
 
-        this.activeGroup = null;
-        this.activeWindowPreview = null;
+    private renderer: PreviewRenderer;
 
-        this.tempWindow = this.createWindow();
-        this.tempWindowIsActive = false;
+    constructor(renderer: PreviewRenderer) {
+        this.renderer = renderer;
+        this.pool = {active: [], free: []};
+        this.pool.free.push(this.createWindow());
     }
 
     /**
      * Creates rectangles that match the windows in the given group, but offset by the specified distance.
      *
-     * The 'isValid' parameter determines the color of the rectangles. The class also caches the group
-     * argument to avoid having to re-create the rectangle objects on every call if the group hasn't changed.
+     * The validity of the target and the given theme determine the appearance of the rectangles. Preview windows are
+     * re-used between calls, and are only resized if the size of the window they represent has changed.
      */
-    public show(target: SnapTarget): void {
-        const activeGroup = target.activeWindow.getGroup();
-        const groupHalfSize = activeGroup.halfSize;  // TODO: Will need to change once 'activeGroup' can have multiple windows (SERVICE-128)
+    public show(target: SnapTarget, theme: PreviewTheme): void {
+        const windows: SnapWindow[] = target.activeWindow.getGroup().windows;
+        const newPreviews: PreviewWindow[] = this.setPoolSize(windows.length);
 
-        if (!this.tempWindowIsActive || this.activeGroup !== activeGroup) {
-            this.tempWindowIsActive = true;
+        windows.forEach((window: SnapWindow, index: number) => {
+            const preview: PreviewWindow = this.pool.active[index];
+            const state: WindowState = window.getState();
 
-            this.setWindowSize(this.tempWindow, groupHalfSize).then(() => {
-                if (this.tempWindowIsActive) {
-                    this.tempWindow.window.show();
-                }
-            });
-        }
-
-        this.activeWindowPreview = this.tempWindow;
+            // Use the size chosen in the snap target, if the window is to be resized as part of the snap
+            const halfSize: Point = (window === target.activeWindow && target.halfSize) || state.halfSize;
 
-        if (target.halfSize) {
-            // Resize window to the size chosen in the snap target
-            if (!PointUtils.isEqual(this.activeWindowPreview.halfSize, target.halfSize)) {
-                this.setWindowSize(this.activeWindowPreview, target.halfSize);
+            if (!PointUtils.isEqual(preview.halfSize, halfSize)) {
+                this.setWindowSize(preview, halfSize);
             }
-        } else {
-            // Ensure the size of the preview matches the size of the window it represents
-            const halfSize = target.activeWindow.getState().halfSize;
+            this.setWindowPosition(preview, state.center, state.halfSize, target.snapOffset);
+            this.setWindowOpacity(preview, theme.opacity);
+            this.setWindowContent(preview, {
+                valid: target.validity === eSnapValidity.VALID,
+                resize: !PointUtils.isEqual(halfSize, state.halfSize),
+                edges: window === target.activeWindow ? target.edges : [],
+                theme
+            });
+        });
 
-            if (!PointUtils.isEqual(this.activeWindowPreview.halfSize, halfSize)) {
-                this.setWindowSize(this.activeWindowPreview, halfSize);
-            }
-        }
+        newPreviews.forEach((preview: PreviewWindow) => {
+            preview.window.show();
+        });
+    }
 
-        this.setWindowPosition(this.tempWindow, activeGroup.center, groupHalfSize, target.snapOffset);
-        if (target.validity === eSnapValidity.VALID) {
-            if (PointUtils.isEqual(this.activeWindowPreview.halfSize, groupHalfSize)) {
-                this.activeWindowPreview.nativeWindow!.document.body.style.background = PREVIEW_SUCCESS;
-            } else {
-                this.activeWindowPreview.nativeWindow!.document.body.style.background = PREVIEW_SUCCESS_RESIZE;
+    /**
+     * Creates a thin line for each of the given alignment guides. This is used in place of 'show' when the preview
+     * was created with a GuideRenderer.
+     *
+     * @param guides The guides to display. Any existing guides that are not in this list will be hidden.
+     * @param theme The theme of the window being aligned
+     */
+    public showGuides(guides: AlignmentGuide[], theme: PreviewTheme): void {
+        const newPreviews: PreviewWindow[] = this.setPoolSize(guides.length);
+
+        guides.forEach((guide: AlignmentGuide, index: number) => {
+            const preview: PreviewWindow = this.pool.active[index];
+            const opposite: Orientation = (guide.orientation === 'x') ? 'y' : 'x';
+            const center: Point = {x: 0, y: 0};
+            const halfSize: Point = {x: 0, y: 0};
+
+            center[guide.orientation] = guide.position;
+            center[opposite] = (guide.min + guide.max) / 2;
+            halfSize[guide.orientation] = GUIDE_THICKNESS / 2;
+            halfSize[opposite] = (guide.max - guide.min) / 2;
+
+            if (!PointUtils.isEqual(preview.halfSize, halfSize)) {
+                this.setWindowSize(preview, halfSize);
             }
-        } else {
-            this.activeWindowPreview.nativeWindow!.document.body.style.background = PREVIEW_FAILURE;
-        }
+            this.setWindowPosition(preview, center, halfSize, {x: 0, y: 0});
+            this.setWindowOpacity(preview, 1);
+            this.setWindowContent(preview, {valid: true, resize: false, edges: [], theme});
+        });
 
-        this.activeGroup = activeGroup;
+        newPreviews.forEach((preview: PreviewWindow) => {
+            preview.window.show();
+        });
     }
 
     /**
      * Hides any visible preview windows. The window objects are hidden, but kept in a pool.
      */
     public hide(): void {
-        if (this.tempWindowIsActive) {
-            this.tempWindowIsActive = false;
-            this.tempWindow.window.hide();
-            this.activeGroup = null;
+        this.setPoolSize(0);
+    }
+
+    /**
+     * Ensures there are exactly 'size' active preview windows. Any excess windows are hidden and returned to the pool,
+     * and new windows are taken from the pool (or created, if the pool is empty) as required.
+     *
+     * Returns any windows that were made active by this call. These windows will still be hidden, it is up to the
+     * caller to show them once they have been positioned.
+     *
+     * @param size The required number of active preview windows
+     */
+    private setPoolSize(size: number): PreviewWindow[] {
+        const {active, free} = this.pool;
+        const added: PreviewWindow[] = [];
+
+        while (active.length > size) {
+            const preview: PreviewWindow = active.pop()!;
+            preview.window.hide();
+            free.push(preview);
+        }
+        while (active.length < size) {
+            const preview: PreviewWindow = free.pop() || this.createWindow();
+            active.push(preview);
+            added.push(preview);
         }
+
+        return added;
     }
 
     private createWindow(): PreviewWindow {
         const defaultHalfSize = {x: 160, y: 160};
         const options: fin.WindowOptions = {
-            name: 'previewWindow-',  // + Math.floor(Math.random() * 1000),
-            url: 'about:blank',
+            name: 'previewWindow-' + SnapPreview.nextId++,
+            url: this.renderer.url,
             defaultWidth: defaultHalfSize.x * 2,
             defaultHeight: defaultHalfSize.y * 2,
             opacity: 0.8,
@@ -122,10 +172,14 @@ export class SnapPreview {
                 options,
                 () => {
                     preview.nativeWindow = preview.window.getNativeWindow();
-                    preview.nativeWindow.document.body.style.background = PREVIEW_SUCCESS;
+                    if (preview.update) {
+                        this.renderer.render(preview.nativeWindow, preview.update);
+                    }
                 }),
             nativeWindow: null,
-            halfSize: defaultHalfSize
+            halfSize: defaultHalfSize,
+            opacity: 0.8,
+            update: null
         };
 
         return preview;
@@ -134,7 +188,7 @@ export class SnapPreview {
     private setWindowSize(preview: PreviewWindow, halfSize: Point): Promise<void> {
         return new Promise((resolve: () => void, reject: (reason: string) => void) => {
             // Update cached halfSize (do this immediately)
-            PointUtils.assign(this.tempWindow.halfSize, halfSize);
+            PointUtils.assign(preview.halfSize, halfSize);
 
             // Resize OpenFin window
             preview.window.resizeTo(halfSize.x * 2, halfSize.y * 2, 'top-left', resolve, reject);
@@ -150,4 +204,23 @@ export class SnapPreview {
         //     {interrupt: true}
         // );
     }
+
+    private setWindowOpacity(preview: PreviewWindow, opacity: number): void {
+        if (preview.opacity !== opacity) {
+            preview.opacity = opacity;
+            preview.window.updateOptions({opacity});
+        }
+    }
+
+    private setWindowContent(preview: PreviewWindow, update: PreviewUpdate): void {
+        // Avoid re-rendering the window each time it is moved
+        if (JSON.stringify(update) !== JSON.stringify(preview.update)) {
+            preview.update = update;
+
+            // Window may still be initialising, in which case the content will be rendered once the window is ready
+            if (preview.nativeWindow) {
+                this.renderer.render(preview.nativeWindow, update);
+            }
+        }
+    }
 }
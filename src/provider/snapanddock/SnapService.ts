@@ -1,14 +1,23 @@
+import {GroupStateConfig, SnapEdge, SnapPolicy, SnapWindowsOptions} from '../../client/types';
+import {JournalWindowState, LayoutJournal} from '../LayoutJournal';
+import {serviceConfig} from '../manifest';
 import {Tab} from '../tabbing/Tab';
 import {TabService} from '../tabbing/TabService';
 import {getWindowAt} from '../tabbing/TabUtilities';
 
-import {eSnapValidity, Resolver, SnapTarget} from './Resolver';
+import {AnimationConfigManager, Transition} from './AnimationConfigManager';
+import {DEFAULT_GROUP_STATE_CONFIG} from './Config';
+import {MonitorManager} from './MonitorManager';
+import {PreviewConfigManager} from './PreviewConfigManager';
+import {eSnapValidity, Orientation, Resolver, SnapTarget} from './Resolver';
 import {Signal2} from './Signal';
+import {SnapConfigManager} from './SnapConfigManager';
 import {SnapGroup} from './SnapGroup';
+import {applySnapTarget} from './SnapModel';
 import {SnapView} from './SnapView';
 import {eTransformType, Mask, SnapWindow, WindowIdentity, WindowState} from './SnapWindow';
 import {Point, PointUtils} from './utils/PointUtils';
-import {MeasureResult, RectUtils} from './utils/RectUtils';
+import {MeasureResult, Rectangle, RectUtils} from './utils/RectUtils';
 
 // Defines the distance windows will be moved when undocked.
 const UNDOCK_MOVE_DISTANCE = 30;
@@ -43,11 +52,31 @@ export class SnapService {
     private windows: SnapWindow[];
     private groups: SnapGroup[];
 
-    private resolver: Resolver;
+    private resolver: Resolver<SnapWindow, SnapGroup>;
     private view: SnapView;
+    private mConfigManager: SnapConfigManager;
+    private mPreviewConfigManager: PreviewConfigManager;
+    private mAnimationConfigManager: AnimationConfigManager;
+    private monitorManager: MonitorManager;
+    private groupStateConfig: GroupStateConfig;
+
+    /**
+     * The arrangement of each window that belongs to a maximized group, prior to that group being maximized. Every
+     * window within the same maximized group maps to the same array.
+     */
+    private maximizedWindows: Map<SnapWindow, JournalWindowState[]> = new Map();
 
     private pendingRegistrations: WindowIdentity[] = [];
 
+    /**
+     * Groups that have been modified since they were last validated.
+     *
+     * Validation is deferred until the current set of changes has finished, as operations such as snapping or
+     * exploding a group will move windows between groups one at a time, passing through temporary states where a
+     * group may not be contiguous.
+     */
+    private pendingValidations: SnapGroup[] = [];
+
     /**
      * A window has been added to a group.
      *
@@ -69,8 +98,31 @@ export class SnapService {
     constructor() {
         this.windows = [];
         this.groups = [];
-        this.resolver = new Resolver();
-        this.view = new SnapView();
+        this.mConfigManager = new SnapConfigManager();
+        this.mPreviewConfigManager = new PreviewConfigManager();
+        this.mAnimationConfigManager = new AnimationConfigManager();
+        this.monitorManager = new MonitorManager();
+        this.groupStateConfig = {...DEFAULT_GROUP_STATE_CONFIG};
+        this.resolver = new Resolver(this.mConfigManager, this.monitorManager, (identity: WindowIdentity) => !!TabService.INSTANCE.getTab(identity));
+        this.view = new SnapView(this.mPreviewConfigManager);
+
+        // Apply any snap thresholds, preview theme, animation and group state settings specified within the service manifest
+        serviceConfig
+            .then((config) => {
+                if (config.snap) {
+                    this.mConfigManager.setDefaultConfig(config.snap);
+                }
+                if (config.preview) {
+                    this.mPreviewConfigManager.setDefaultTheme(config.preview);
+                }
+                if (config.animation) {
+                    this.mAnimationConfigManager.setConfig(config.animation);
+                }
+                if (config.groupState) {
+                    this.setGroupStateConfig(config.groupState);
+                }
+            })
+            .catch(console.error);
 
         const serviceUUID: string = fin.desktop.Application.getCurrent().uuid;
 
@@ -97,20 +149,56 @@ export class SnapService {
                 }
             });
         });
+    }
 
-        // Register global undock hotkey listener
-        fin.GlobalHotkey
-            .register(
-                'CommandOrControl+Shift+U',
-                () => {
-                    fin.desktop.System.getFocusedWindow().then(focusedWindow => {
-                        if (focusedWindow !== null && this.getSnapWindow(focusedWindow)) {
-                            console.log('Global hotkey invoked on window', focusedWindow);
-                            this.undock(focusedWindow);
-                        }
-                    });
-                })
-            .catch(console.error);
+    /**
+     * Returns the manager that holds the snap thresholds used by this service
+     */
+    public get configManager(): SnapConfigManager {
+        return this.mConfigManager;
+    }
+
+    /**
+     * Returns the manager that holds the theme and any application-provided pages used by the snap preview
+     */
+    public get previewConfigManager(): PreviewConfigManager {
+        return this.mPreviewConfigManager;
+    }
+
+    /**
+     * Returns the manager that determines which operations are animated, and how
+     */
+    public get animationConfigManager(): AnimationConfigManager {
+        return this.mAnimationConfigManager;
+    }
+
+    /**
+     * Replaces one or more of the settings that determine whether minimizing and restoring a window applies to the
+     * rest of it's snap group. Any values not specified in 'config' are left unchanged.
+     *
+     * @param config The values to apply
+     */
+    public setGroupStateConfig(config: Partial<GroupStateConfig>): void {
+        if (!config || typeof config !== 'object') {
+            throw new Error('Invalid group state config provided');
+        }
+
+        Object.keys(config).forEach((key: string) => {
+            if (!DEFAULT_GROUP_STATE_CONFIG.hasOwnProperty(key)) {
+                throw new Error(`Invalid group state config provided: unknown property "${key}"`);
+            } else if (typeof config[key as keyof GroupStateConfig] !== 'boolean') {
+                throw new Error(`Invalid group state config provided: "${key}" must be a boolean`);
+            }
+        });
+
+        Object.assign(this.groupStateConfig, config);
+    }
+
+    /**
+     * Returns the SnapWindow for the given window, or undefined if that window isn't registered with the service.
+     */
+    public getSnapWindow(finWindow: WindowIdentity): SnapWindow|undefined {
+        return this.windows.find(w => w.getIdentity().uuid === finWindow.uuid && w.getIdentity().name === finWindow.name);
     }
 
     public undock(target: {uuid: string; name: string}): void {
@@ -122,6 +210,7 @@ export class SnapService {
 
                 // Only do anything if the window is actually grouped
                 if (group.length > 1) {
+                    const before: JournalWindowState[] = this.captureState([target]);
                     let offset = this.calculateUndockMoveDirection(window);
 
                     window.setGroup(this.addGroup());
@@ -129,7 +218,12 @@ export class SnapService {
                     if (!offset.x && !offset.y) {
                         offset = {x: 1, y: 1};
                     }
-                    window.offsetBy({x: Math.sign(offset.x) * UNDOCK_MOVE_DISTANCE, y: Math.sign(offset.y) * UNDOCK_MOVE_DISTANCE});
+                    window.applyOffset(
+                        {x: Math.sign(offset.x) * UNDOCK_MOVE_DISTANCE, y: Math.sign(offset.y) * UNDOCK_MOVE_DISTANCE},
+                        undefined,
+                        this.mAnimationConfigManager.getTransition('undock'));
+
+                    LayoutJournal.INSTANCE.record('undock', before);
                 }
             } catch (error) {
                 console.error(`Unexpected error when undocking window: ${error}`);
@@ -166,28 +260,168 @@ export class SnapService {
     }
 
     /**
-     * Explodes a group. All windows in the group are unlocked.
-     * @param targetWindow A window which is a member of the group to be exploded.
+     * Modifies the snap policy of a window. Any values not included in 'policy' will keep their current values.
+     *
+     * @param target Identity of a window that is registered with the service
+     * @param policy The policy values to change
      */
-    public explodeGroup(targetWindow: {uuid: string; name: string}): void {
-        // NOTE: Since there is currently not a schema to identify a group, this method
-        // accepts a window that is a member of the group. Once there is a way of uniquely
-        // identifying groups, this can be changed
-
-        // Get the group containing the targetWindow
-        const group: SnapGroup|undefined = this.groups.find((g) => {
-            return g.windows.findIndex(w => w.getIdentity().uuid === targetWindow.uuid && w.getIdentity().name === targetWindow.name) >= 0;
+    public setSnapPolicy(target: {uuid: string; name: string}, policy: Partial<SnapPolicy>): void {
+        const window: SnapWindow|undefined = this.getSnapWindow(target);
+
+        if (!window) {
+            console.error(`Unable to set snap policy - no window found with identity "${target.uuid}/${target.name}"`);
+            throw new Error(`Unable to set snap policy - no window found with identity "${target.uuid}/${target.name}"`);
+        }
+
+        window.setPolicy(policy);
+    }
+
+    /**
+     * Moves each window to the given bounds, and re-arranges the windows into the given snap groups. Any windows that
+     * are no longer registered with the service are ignored.
+     *
+     * Used by the layout journal, when undoing and re-doing operations, and when maximizing and restoring groups.
+     *
+     * @param states The state to restore each window to
+     */
+    public restoreWindowStates(states: JournalWindowState[]): void {
+        const groups: Map<string, SnapGroup> = new Map();
+
+        states.forEach((state: JournalWindowState) => {
+            const window: SnapWindow|undefined = this.getSnapWindow(state.identity);
+
+            if (window) {
+                const key: string = state.snapGroup.map(identity => `${identity.uuid}/${identity.name}`).sort().join();
+                const {center, halfSize} = window.getState();
+                const bounds = state.bounds;
+                const offset: Point = {
+                    x: (bounds.center.x - bounds.halfSize.x) - (center.x - halfSize.x),
+                    y: (bounds.center.y - bounds.halfSize.y) - (center.y - halfSize.y)
+                };
+
+                // Each window is moved into a new group, so that it leaves it's current native group before being moved
+                if (!groups.has(key)) {
+                    groups.set(key, this.addGroup());
+                }
+                window.setGroup(groups.get(key)!, offset, {...bounds.halfSize});
+            }
         });
+    }
+
+    /**
+     * Returns the group that the given window currently belongs to.
+     *
+     * @param target Identity of a window that is registered with the service
+     */
+    public getSnapGroup(target: {uuid: string; name: string}): SnapGroup {
+        const window: SnapWindow|undefined = this.getSnapWindow(target);
+
+        if (!window) {
+            console.error(`Unable to get group - no window found with identity "${target.uuid}/${target.name}"`);
+            throw new Error(`Unable to get group - no window found with identity "${target.uuid}/${target.name}"`);
+        }
+
+        return window.getGroup();
+    }
+
+    /**
+     * Returns every snap group currently known to the service, including groups that only contain a single window.
+     */
+    public getSnapGroups(): SnapGroup[] {
+        return this.groups.slice();
+    }
+
+    /**
+     * Returns the group with the given ID.
+     *
+     * @param groupId ID of an existing group, as returned by SnapGroup.id
+     */
+    public getSnapGroupById(groupId: number): SnapGroup {
+        const group: SnapGroup|undefined = this.groups.find(g => g.id === groupId);
 
         if (!group) {
-            console.error(`Unable to undock - no group found for window with identity "${targetWindow.uuid}/${targetWindow.name}"`);
-            throw new Error(`Unable to undock - no group found for window with identity "${targetWindow.uuid}/${targetWindow.name}"`);
+            console.error(`Unable to get group - no group exists with ID "${groupId}"`);
+            throw new Error(`Unable to get group - no group exists with ID "${groupId}"`);
+        }
+
+        return group;
+    }
+
+    /**
+     * Snaps 'source' (along with any windows it is already grouped with) to an edge of 'target', placing the windows
+     * in the same group.
+     *
+     * Window positions are determined using the same rules as when a window is snapped by the user, meaning that
+     * 'source' may be resized to match the size of 'target'.
+     *
+     * @param source The window to move
+     * @param target The window to snap 'source' to. This window will not be moved.
+     * @param options Determines where 'source' will be placed, relative to 'target'
+     */
+    public snapWindows(source: {uuid: string; name: string}, target: {uuid: string; name: string}, options: SnapWindowsOptions): void {
+        const sourceWindow: SnapWindow|undefined = this.getSnapWindow(source);
+        const targetWindow: SnapWindow|undefined = this.getSnapWindow(target);
+
+        if (!sourceWindow || !targetWindow) {
+            const {uuid, name} = sourceWindow ? target : source;
+            console.error(`Unable to snap - no window found with identity "${uuid}/${name}"`);
+            throw new Error(`Unable to snap - no window found with identity "${uuid}/${name}"`);
+        } else if (sourceWindow.getGroup() === targetWindow.getGroup()) {
+            console.error('Unable to snap - windows are already in the same group');
+            throw new Error('Unable to snap - windows are already in the same group');
+        } else if (!this.resolver.isSnappable(source, sourceWindow.getState()) || !this.resolver.isSnappable(target, targetWindow.getState())) {
+            console.error('Unable to snap - windows must be visible, un-tabbed and in their normal state');
+            throw new Error('Unable to snap - windows must be visible, un-tabbed and in their normal state');
+        }
+
+        const offset: Point = this.calculateSnapOffset(sourceWindow.getState(), targetWindow.getState(), options);
+        const snapTarget: SnapTarget = this.resolver.getSnapTargetFromOffset(sourceWindow, targetWindow.getGroup(), offset);
+
+        if (snapTarget.validity !== eSnapValidity.VALID) {
+            console.error(`Unable to snap - windows can't be snapped in this position (${eSnapValidity[snapTarget.validity]})`);
+            throw new Error(`Unable to snap - windows can't be snapped in this position (${eSnapValidity[snapTarget.validity]})`);
         }
 
+        this.snapToTarget(sourceWindow.getGroup(), snapTarget);
+    }
+
+    /**
+     * Snaps a window (along with any windows it is already grouped with) to the closest window in the given direction.
+     *
+     * Has no effect if there are no windows in that direction, or if the window can't be snapped to it's neighbour.
+     *
+     * @param target The window to move
+     * @param edge The edge of 'target' that should be snapped to it's neighbour
+     */
+    public dockToNeighbour(target: {uuid: string; name: string}, edge: SnapEdge): void {
+        const window: SnapWindow|undefined = this.getSnapWindow(target);
+
+        if (!window) {
+            console.error(`Unable to dock - no window found with identity "${target.uuid}/${target.name}"`);
+            throw new Error(`Unable to dock - no window found with identity "${target.uuid}/${target.name}"`);
+        } else if (this.resolver.isSnappable(target, window.getState())) {
+            const snapTarget: SnapTarget|null = this.resolver.getSnapTargetInDirection(this.groups, window, edge);
+
+            if (snapTarget && snapTarget.validity === eSnapValidity.VALID) {
+                this.snapToTarget(window.getGroup(), snapTarget);
+            } else {
+                console.log(`Unable to dock window "${target.uuid}/${target.name}" to any window on it's ${edge} edge`);
+            }
+        }
+    }
+
+    /**
+     * Explodes a group. All windows in the group are unlocked.
+     * @param target The ID of the group to explode, or a window which is a member of the group to be exploded.
+     */
+    public explodeGroup(target: {uuid: string; name: string}|number): void {
+        const group: SnapGroup = (typeof target === 'number') ? this.getSnapGroupById(target) : this.getSnapGroup(target);
+
         try {
             // Exploding only makes sense if there is more than one window in the group.
-            if (group && group.length > 1) {
+            if (group.length > 1) {
                 const windows = group.windows;
+                const before: JournalWindowState[] = this.captureState(windows.map(window => window.getIdentity()));
                 // Determine the offset for each window before modifying and window state
                 const offsets: Point[] = [];
                 // group.center is recalculated on each call, so we assign it here once and use the value.
@@ -202,8 +436,10 @@ export class SnapService {
                     // Undock the windows
                     window.setGroup(this.addGroup());
                     // Apply previously calculated offset
-                    window.offsetBy(offsets[i]);
+                    window.applyOffset(offsets[i], undefined, this.mAnimationConfigManager.getTransition('explode'));
                 }
+
+                LayoutJournal.INSTANCE.record('explode', before);
             }
         } catch (error) {
             console.error(`Unexpected error when undocking group: ${error}`);
@@ -211,6 +447,102 @@ export class SnapService {
         }
     }
 
+    /**
+     * Minimizes every window within a group.
+     *
+     * @param target The ID of the group to minimize, or a window which is a member of the group to be minimized.
+     */
+    public minimizeGroup(target: {uuid: string; name: string}|number): void {
+        const group: SnapGroup = (typeof target === 'number') ? this.getSnapGroupById(target) : this.getSnapGroup(target);
+
+        group.windows.forEach((window: SnapWindow) => {
+            if (window.getState().state !== 'minimized') {
+                window.getWindow().minimize();
+            }
+        });
+    }
+
+    /**
+     * Resizes and moves every window within a group so that the group fills the work area of the monitor it is on.
+     * Each window keeps it's position and size relative to the rest of the group.
+     *
+     * The arrangement of the group prior to being maximized is remembered, and can be returned to using restoreGroup.
+     *
+     * @param target The ID of the group to maximize, or a window which is a member of the group to be maximized.
+     */
+    public maximizeGroup(target: {uuid: string; name: string}|number): void {
+        const group: SnapGroup = (typeof target === 'number') ? this.getSnapGroupById(target) : this.getSnapGroup(target);
+        const windows: SnapWindow[] = group.windows;
+        const groupCenter: Point = group.center;
+        const groupHalfSize: Point = {...group.halfSize};
+        const workArea: Readonly<Rectangle>|null = this.monitorManager.getWorkAreaAt(groupCenter);
+
+        if (windows.some(window => !!TabService.INSTANCE.getTab(window.getIdentity()))) {
+            console.error('Unable to maximize group - groups containing tabbed windows must be maximized using maximizeTabGroup');
+            throw new Error('Unable to maximize group - groups containing tabbed windows must be maximized using maximizeTabGroup');
+        } else if (!workArea) {
+            console.error('Unable to maximize group - monitor info is not available');
+            throw new Error('Unable to maximize group - monitor info is not available');
+        }
+
+        const snapGroup: WindowIdentity[] = windows.map(window => window.getIdentity());
+        const before: JournalWindowState[] = windows.map((window: SnapWindow): JournalWindowState => {
+            const {center, halfSize} = window.getState();
+            return {identity: window.getIdentity(), bounds: {center: {...center}, halfSize: {...halfSize}}, snapGroup, tabGroup: []};
+        });
+
+        // Scale the group about it's center, and then move that center to the center of the work area
+        const scale: Point = {x: workArea.halfSize.x / groupHalfSize.x, y: workArea.halfSize.y / groupHalfSize.y};
+        const after: JournalWindowState[] = before.map((state: JournalWindowState): JournalWindowState => {
+            const {center, halfSize} = state.bounds;
+            const bounds: Rectangle = {
+                center: {x: workArea.center.x + (center.x - groupCenter.x) * scale.x, y: workArea.center.y + (center.y - groupCenter.y) * scale.y},
+                halfSize: {x: halfSize.x * scale.x, y: halfSize.y * scale.y}
+            };
+
+            return {...state, bounds};
+        });
+
+        // If the group is already maximized, keep the arrangement from before it was first maximized
+        windows.forEach((window: SnapWindow) => {
+            if (!this.maximizedWindows.has(window)) {
+                this.maximizedWindows.set(window, before);
+            }
+        });
+
+        this.restoreWindowStates(after);
+    }
+
+    /**
+     * Restores every minimized window within a group. If the group was maximized using maximizeGroup, the windows are
+     * also returned to the bounds they had before being maximized.
+     *
+     * @param target The ID of the group to restore, or a window which is a member of the group to be restored.
+     */
+    public restoreGroup(target: {uuid: string; name: string}|number): void {
+        const group: SnapGroup = (typeof target === 'number') ? this.getSnapGroupById(target) : this.getSnapGroup(target);
+        const windows: SnapWindow[] = group.windows;
+
+        windows.forEach((window: SnapWindow) => {
+            if (window.getState().state !== 'normal') {
+                window.getWindow().restore();
+            }
+        });
+
+        const maximizedStates: JournalWindowState[]|undefined = windows.map(window => this.maximizedWindows.get(window)).find(states => !!states);
+        if (maximizedStates) {
+            maximizedStates.forEach((state: JournalWindowState) => {
+                const window: SnapWindow|undefined = this.getSnapWindow(state.identity);
+
+                if (window) {
+                    this.maximizedWindows.delete(window);
+                }
+            });
+
+            this.restoreWindowStates(maximizedStates);
+        }
+    }
+
     private registerWindow(uuid: string, name: string): void {
         const newOFWindow: fin.OpenFinWindow = fin.desktop.Window.wrap(uuid, name);
 
@@ -235,27 +567,28 @@ export class SnapService {
     private addWindow(window: fin.OpenFinWindow): Promise<SnapWindow|null> {
         // Set the window as pending registration  (Fix for race condition between register/deregister)
         this.pendingRegistrations.push(window);
-        return SnapWindow.getWindowState(window).then<SnapWindow|null>((state: WindowState): SnapWindow|null => {
-            if (!this.pendingRegistrations.some(w => w.name === window.name && w.uuid === window.uuid)) {
-                // If pendingRegistrations does not contain the window, then deregister has been called on it
-                // and we should do nothing.
-                return null;
-            } else {
-                const group: SnapGroup = this.addGroup();
-                const snapWindow: SnapWindow = new SnapWindow(group, window, state);
+        return Promise.all([SnapWindow.getWindowState(window), SnapWindow.getWindowPolicy(window)])
+            .then<SnapWindow|null>((results: [WindowState, SnapPolicy]): SnapWindow|null => {
+                if (!this.pendingRegistrations.some(w => w.name === window.name && w.uuid === window.uuid)) {
+                    // If pendingRegistrations does not contain the window, then deregister has been called on it
+                    // and we should do nothing.
+                    return null;
+                } else {
+                    const group: SnapGroup = this.addGroup();
+                    const snapWindow: SnapWindow = new SnapWindow(group, window, results[0], results[1]);
 
-                snapWindow.onClose.add(this.onWindowClosed, this);
-                this.windows.push(snapWindow);
+                    snapWindow.onClose.add(this.onWindowClosed, this);
+                    this.windows.push(snapWindow);
 
-                window.addEventListener('group-changed', this.onWindowGroupChanged.bind(this));
+                    window.addEventListener('group-changed', this.onWindowGroupChanged.bind(this));
 
-                // Remove the window from pendingRegitrations
-                const pendingIndex = this.pendingRegistrations.findIndex(w => w.name === window.name && w.uuid === window.uuid);
-                this.pendingRegistrations.splice(pendingIndex, 1);
+                    // Remove the window from pendingRegitrations
+                    const pendingIndex = this.pendingRegistrations.findIndex(w => w.name === window.name && w.uuid === window.uuid);
+                    this.pendingRegistrations.splice(pendingIndex, 1);
 
-                return snapWindow;
-            }
-        });
+                    return snapWindow;
+                }
+            });
     }
 
     private addGroup(): SnapGroup {
@@ -265,6 +598,7 @@ export class SnapService {
         group.onCommit.add(this.applySnapTarget, this);
         group.onWindowRemoved.add(this.onWindowRemovedFromGroup, this);
         group.onWindowAdded.add(this.sendWindowAddedMessage, this);
+        group.onWindowStateChanged.add(this.onWindowStateChanged, this);
         this.groups.push(group);
         return group;
     }
@@ -279,6 +613,7 @@ export class SnapService {
             group.onCommit.remove(this.applySnapTarget, this);
             group.onWindowRemoved.remove(this.onWindowRemovedFromGroup, this);
             group.onWindowAdded.remove(this.sendWindowAddedMessage, this);
+            group.onWindowStateChanged.remove(this.onWindowStateChanged, this);
             this.groups.splice(index, 1);
         }
     }
@@ -336,6 +671,7 @@ export class SnapService {
             this.windows.splice(index, 1);
 
             snapWindow.onClose.remove(this.onWindowClosed, this);
+            this.maximizedWindows.delete(snapWindow);
 
             this.validateGroup(snapWindow.getGroup(), snapWindow);
         }
@@ -352,6 +688,23 @@ export class SnapService {
         this.validateGroup(group, window);
     }
 
+    private onWindowStateChanged(group: SnapGroup, window: SnapWindow): void {
+        const state: WindowState['state'] = window.getState().state;
+
+        if (group.length > 1) {
+            if (state === 'minimized' && this.groupStateConfig.minimizeGroup) {
+                this.minimizeGroup(window.getIdentity());
+            } else if (state === 'normal' && this.groupStateConfig.restoreGroup) {
+                // Only restore windows that are minimized. Windows are only returned to their pre-maximize bounds through the API.
+                group.windows.forEach((groupWindow: SnapWindow) => {
+                    if (groupWindow.getState().state === 'minimized') {
+                        groupWindow.getWindow().restore();
+                    }
+                });
+            }
+        }
+    }
+
     private sendWindowAddedMessage(group: SnapGroup, window: SnapWindow) {
         const identity = window.getIdentity();
         console.log('Window with identity', identity, 'added to group', group);
@@ -364,11 +717,90 @@ export class SnapService {
         this.onWindowRemoved.emit(group, window);
     }
 
-    private validateGroup(group: SnapGroup, modifiedWindow: SnapWindow): void {
+    private validateGroup(group: SnapGroup, modifiedWindow?: SnapWindow): void {
         // Ensure 'group' is still a valid, contiguous group.
         // NOTE: 'modifiedWindow' may no longer exist (if validation is being performed because a window was closed)
+        if (!this.pendingValidations.includes(group)) {
+            this.pendingValidations.push(group);
+
+            if (this.pendingValidations.length === 1) {
+                Promise.resolve().then(() => this.validatePendingGroups()).catch(console.error);
+            }
+        }
+    }
+
+    private validatePendingGroups(): void {
+        const groups: SnapGroup[] = this.pendingValidations;
+        this.pendingValidations = [];
+
+        groups.forEach((group: SnapGroup) => {
+            // Group may have been emptied and removed since it was queued
+            if (this.groups.includes(group) && group.length > 1) {
+                this.splitGroup(group);
+            }
+        });
+    }
+
+    /**
+     * Splits a group into contiguous sub-groups. The largest sub-group remains in 'group', with each of the others
+     * being moved into a new group of it's own. Hidden windows are always removed from the group.
+     *
+     * Has no effect if the group is already contiguous.
+     */
+    private splitGroup(group: SnapGroup): void {
+        const windows: SnapWindow[] = group.windows;
+
+        // Window positions aren't meaningful whilst minimized/maximized, so leave the group as-is until it is restored
+        if (windows.some(window => window.getState().state !== 'normal')) {
+            return;
+        }
+
+        const hiddenWindows: SnapWindow[] = windows.filter(window => window.getState().hidden);
+        const components: SnapWindow[][] = this.getContiguousWindows(windows.filter(window => !hiddenWindows.includes(window)));
+
+        if (hiddenWindows.length > 0 || components.length > 1) {
+            // Keep the largest set of windows within the existing group
+            components.sort((a, b) => b.length - a.length);
 
-        // TODO (SERVICE-130)
+            components.slice(1).concat(hiddenWindows.map(window => [window])).forEach((component: SnapWindow[]) => {
+                const newGroup: SnapGroup = this.addGroup();
+
+                component.forEach((window: SnapWindow) => {
+                    window.setGroup(newGroup);
+                });
+            });
+        }
+    }
+
+    /**
+     * Partitions a set of windows into sets of windows that are connected to each other. Two windows are considered
+     * connected if they share (part of) an edge - windows that only touch at a corner are not connected.
+     */
+    private getContiguousWindows(windows: SnapWindow[]): SnapWindow[][] {
+        const components: SnapWindow[][] = [];
+        const remaining: SnapWindow[] = windows.slice();
+
+        while (remaining.length > 0) {
+            const component: SnapWindow[] = remaining.splice(0, 1);
+
+            // Flood-fill outwards from the first window, until there are no more connected windows
+            for (let i = 0; i < component.length; i++) {
+                const state: WindowState = component[i].getState();
+
+                for (let j = remaining.length - 1; j >= 0; j--) {
+                    const distance: MeasureResult = RectUtils.distance(state, remaining[j].getState());
+
+                    if (distance.max <= 0 && distance.min < 0) {
+                        component.push(remaining[j]);
+                        remaining.splice(j, 1);
+                    }
+                }
+            }
+
+            components.push(component);
+        }
+
+        return components;
     }
 
     private snapGroup(activeGroup: SnapGroup, type: Mask<eTransformType>): void {
@@ -382,20 +814,7 @@ export class SnapService {
 
         // SNAP WINDOWS
         if (snapTarget && snapTarget.validity === eSnapValidity.VALID && (!(window as Window & {foo: boolean}).foo)) {
-            // Move all windows in activeGroup to snapTarget.group
-            activeGroup.windows.forEach((window: SnapWindow) => {
-                if (window === snapTarget.activeWindow && snapTarget.halfSize) {
-                    window.setGroup(snapTarget.group, snapTarget.snapOffset, snapTarget.halfSize);
-                } else {
-                    window.setGroup(snapTarget.group, snapTarget.snapOffset);
-                }
-            });
-
-            // The active group should now have been removed (since it is empty)
-            if (this.groups.indexOf(activeGroup) >= 0) {
-                console.warn(
-                    'Expected group to have been removed, but still exists (' + activeGroup.id + ': ' + activeGroup.windows.map(w => w.getId()).join() + ')');
-            }
+            this.snapToTarget(activeGroup, snapTarget, true);
             // TAB WINDOWS
         } else if (activeGroup.length === 1) {
             const currentDragWindowIdentity: WindowIdentity = activeGroup.windows[0].getIdentity();
@@ -410,30 +829,119 @@ export class SnapService {
                 if (windowUnderPoint) {
                     if (TabService.INSTANCE.applicationConfigManager.compareConfigBetweenApplications(windowUnderPoint.uuid, currentDragWindowIdentity.uuid)) {
                         const tabGroupUnderPoint = TabService.INSTANCE.getTabGroupByApp(windowUnderPoint);
+                        const before: JournalWindowState[] = this.captureState([windowUnderPoint, currentDragWindowIdentity], activeGroup);
+
                         // The window under drop point is a tab group
                         if (tabGroupUnderPoint) {
                             // Add Tab
                             const tab = new Tab({tabID: currentDragWindowIdentity});
                             tab.init()
                                 .then(() => {
-                                    tabGroupUnderPoint.addTab(tab);
+                                    return tabGroupUnderPoint.addTab(tab);
+                                })
+                                .then(() => {
+                                    LayoutJournal.INSTANCE.record('tab', before);
                                 })
                                 .catch((e) => {
                                     console.error(e);
                                 });
                         } else {
                             // If not a tab group then create a group with the 2 tabs.
-                            TabService.INSTANCE.createTabGroupWithTabs([windowUnderPoint, currentDragWindowIdentity]);
+                            TabService.INSTANCE.createTabGroupWithTabs([windowUnderPoint, currentDragWindowIdentity])
+                                .then(() => {
+                                    LayoutJournal.INSTANCE.record('tab', before);
+                                })
+                                .catch(console.error);
                         }
                     }
                 }
             }
+        } else if (activeGroup.length > 1) {
+            // A window within the group may have been resized such that the group is no longer contiguous
+            this.validateGroup(activeGroup);
         }
 
         // Reset view
         this.view.update(null, null);
     }
 
+    /**
+     * Applies a snap target, and records the snap in the layout journal.
+     *
+     * @param activeGroup The group being snapped
+     * @param snapTarget Where to snap 'activeGroup'
+     * @param isDrag If 'activeGroup' is being dragged by the user. Undoing the snap will then return the group to where it was before the drag.
+     */
+    private snapToTarget(activeGroup: SnapGroup, snapTarget: SnapTarget, isDrag = false): void {
+        const targetGroup: SnapGroup|null = snapTarget.group;
+        const windows: SnapWindow[] = activeGroup.windows.concat(targetGroup ? targetGroup.windows : []);
+        const before: JournalWindowState[] = this.captureState(windows.map(window => window.getIdentity()), isDrag ? activeGroup : null);
+        const transition: Transition|null = this.mAnimationConfigManager.getTransition('snap');
+
+        applySnapTarget(activeGroup, snapTarget, {
+            // Moving one window will also move the rest of the (native) group
+            moveWindow: (window: SnapWindow, offset: Point, halfSize: Point|undefined) => window.applyOffset(offset, halfSize, transition),
+            addToGroup: (window: SnapWindow, group: SnapGroup, offset: Point, halfSize: Point|undefined) => {
+                window.setGroup(group, offset, halfSize, false, transition);
+            }
+        });
+
+        // If the windows were moved to another group, the active group should now have been removed (since it is empty)
+        if (targetGroup && this.groups.indexOf(activeGroup) >= 0) {
+            console.warn(
+                'Expected group to have been removed, but still exists (' + activeGroup.id + ': ' + activeGroup.windows.map(w => w.getId()).join() + ')');
+        }
+
+        LayoutJournal.INSTANCE.record('snap', before);
+    }
+
+    /**
+     * Captures the state of the given windows (and any windows they are grouped with), before they are modified.
+     *
+     * @param windows The windows that are about to be modified
+     * @param draggedGroup A group that is currently being dragged by the user. The bounds of these windows are taken from the start of the drag.
+     */
+    private captureState(windows: WindowIdentity[], draggedGroup: SnapGroup|null = null): JournalWindowState[] {
+        const states: JournalWindowState[] = LayoutJournal.INSTANCE.capture(windows);
+
+        if (draggedGroup) {
+            states.forEach((state: JournalWindowState) => {
+                const window: SnapWindow|undefined = this.getSnapWindow(state.identity);
+
+                if (window && draggedGroup.windows.includes(window)) {
+                    state.bounds = window.getTransformStartBounds();
+                }
+            });
+        }
+
+        return states;
+    }
+
+    /**
+     * Calculates the offset that would move 'source' so that it touches the requested edge of 'target'.
+     */
+    private calculateSnapOffset(source: WindowState, target: WindowState, options: SnapWindowsOptions): Point {
+        const {edge, align = 'start'} = options;
+        const orientation: Orientation = (edge === 'left' || edge === 'right') ? 'x' : 'y';
+        const opposite: Orientation = (orientation === 'x') ? 'y' : 'x';
+        const center: Point = {x: 0, y: 0};
+
+        // Place source window against the target edge
+        const direction: number = (edge === 'right' || edge === 'bottom') ? 1 : -1;
+        center[orientation] = target.center[orientation] + (target.halfSize[orientation] + source.halfSize[orientation]) * direction;
+
+        // Position source window along the edge
+        if (align === 'start') {
+            center[opposite] = (target.center[opposite] - target.halfSize[opposite]) + source.halfSize[opposite];
+        } else if (align === 'end') {
+            center[opposite] = (target.center[opposite] + target.halfSize[opposite]) - source.halfSize[opposite];
+        } else {
+            center[opposite] = target.center[opposite];
+        }
+
+        return PointUtils.difference(source.center, center);
+    }
+
     private calculateUndockMoveDirection(window: SnapWindow): Point {
         const group = window.getGroup();
         const totalOffset: Point = {x: 0, y: 0};
@@ -450,8 +958,4 @@ export class SnapService {
         }
         return totalOffset;
     }
-
-    private getSnapWindow(finWindow: WindowIdentity) {
-        return this.windows.find(w => w.getIdentity().uuid === finWindow.uuid && w.getIdentity().name === finWindow.name);
-    }
 }
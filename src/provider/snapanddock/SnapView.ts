@@ -1,3 +1,7 @@
+import {PreviewTheme} from '../../client/types';
+
+import {PreviewConfigManager} from './PreviewConfigManager';
+import {ClientPreviewRenderer, GuideRenderer, ThemedPreviewRenderer} from './PreviewRenderer';
 import {SnapTarget} from './Resolver';
 import {SnapGroup} from './SnapGroup';
 import {SnapPreview} from './SnapPreview';
@@ -5,12 +9,27 @@ import {SnapPreview} from './SnapPreview';
 export class SnapView {
     private activeGroup: SnapGroup|null;  // The group being moved
     private target: SnapTarget|null;      // The current snap candidate (target may be valid or invalid. Will be null if there are no candidates)
-    private preview: SnapPreview;         // For displaying where the active group will snap to (the red/green boxes)
+    private preview: SnapPreview|null;    // The preview that is currently being used to display the snap target (if any)
+
+    private configManager: PreviewConfigManager;
+
+    // For displaying where the active group will snap to. There is one preview for the service's own preview, and one for
+    // each application-provided preview page, created as required.
+    private defaultPreview: SnapPreview;
+    private clientPreviews: {[url: string]: SnapPreview};
 
-    constructor() {
+    // For displaying alignment guides. Guides are always drawn by the service, regardless of which preview is in use.
+    private guidePreview: SnapPreview;
+
+    constructor(configManager: PreviewConfigManager) {
         this.activeGroup = null;
         this.target = null;
-        this.preview = new SnapPreview();
+        this.preview = null;
+
+        this.configManager = configManager;
+        this.defaultPreview = new SnapPreview(new ThemedPreviewRenderer());
+        this.clientPreviews = {};
+        this.guidePreview = new SnapPreview(new GuideRenderer());
     }
 
     /**
@@ -18,30 +37,70 @@ export class SnapView {
      * null for both args).
      *
      * This ensures that the active and target groups have the correct opacity effects applied, and updates the snap
-     * preview.
+     * preview and any alignment guides.
      *
      * SnapView also stores these parameters as members. This allows it to revert the active/target windows to their
      * original opacities once the active/target group(s) change or get reset.
      */
     public update(activeGroup: SnapGroup|null, target: SnapTarget|null): void {
         if (activeGroup && target) {
+            const uuid: string = target.activeWindow.getIdentity().uuid;
+            const theme: PreviewTheme = this.configManager.getApplicationTheme(uuid);
+            const preview: SnapPreview = this.getPreview(uuid);
+
             if (!this.target || this.target.group !== target.group) {
                 this.setTargetOpacity(this.target, 1.0);
-                this.setTargetOpacity(target, 0.8);
+                this.setTargetOpacity(target, theme.targetOpacity);
+            }
+
+            if (this.preview && this.preview !== preview) {
+                this.preview.hide();
+            }
+            preview.show(target, theme);
+            this.preview = preview;
+
+            if (target.guides.length > 0) {
+                this.guidePreview.showGuides(target.guides, theme);
+            } else {
+                this.guidePreview.hide();
             }
-            this.preview.show(target);
         } else {
             this.setTargetOpacity(this.target, 1.0);
-            this.preview.hide();
+
+            if (this.preview) {
+                this.preview.hide();
+                this.preview = null;
+            }
+            this.guidePreview.hide();
         }
 
         this.target = target;
     }
 
+    /**
+     * Returns the preview that should be used for windows of the given application.
+     */
+    private getPreview(uuid: string): SnapPreview {
+        const url: string|null = this.configManager.getApplicationUrl(uuid);
+
+        if (url) {
+            if (!this.clientPreviews[url]) {
+                this.clientPreviews[url] = new SnapPreview(new ClientPreviewRenderer(url));
+            }
+
+            return this.clientPreviews[url];
+        } else {
+            return this.defaultPreview;
+        }
+    }
+
     private setTargetOpacity(target: SnapTarget|null, opacity: number) {
-        if (target) {
-            for (let index = 0; index < target!.group.windows.length; index++) {
-                const groupWindow = target!.group.windows[index].getWindow();
+        // Target group will be null when snapping to a monitor edge
+        const group: SnapGroup|null = target && target.group;
+
+        if (group) {
+            for (let index = 0; index < group.windows.length; index++) {
+                const groupWindow = group.windows[index].getWindow();
                 groupWindow.updateOptions({opacity});
             }
         }
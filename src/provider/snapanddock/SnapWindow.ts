@@ -1,10 +1,15 @@
-import {Signal1, Signal2} from './Signal';
+import {SnapPolicy} from '../../client/types';
+
+import {AnimationTracker, Transition} from './AnimationConfigManager';
+import {DEFAULT_SNAP_POLICY} from './Config';
+import {Signal1, Signal3} from './Signal';
 import {SnapGroup} from './SnapGroup';
 import * as ModuleWindow from './SnapWindow';
 import {p} from './utils/async';
 import {isWin10} from './utils/platform';
 import {Point, PointUtils} from './utils/PointUtils';
 import {Rectangle} from './utils/RectUtils';
+import {SnapPolicyUtils} from './utils/SnapPolicyUtils';
 
 export interface WindowState extends Rectangle {
     center: Point;
@@ -79,6 +84,38 @@ export class SnapWindow {
             });
     }
 
+    /**
+     * Reads the snap policy of a window from the 'snapPolicy' property of it's 'customData'. Any values not specified
+     * there will be taken from the default policy.
+     *
+     * An invalid policy will be logged and ignored, rather than preventing the window from being registered.
+     */
+    public static async getWindowPolicy(window: fin.OpenFinWindow): Promise<SnapPolicy> {
+        return p<fin.WindowOptions>(window.getOptions.bind(window))().then((options: fin.WindowOptions): SnapPolicy => {
+            let customData = options.customData;
+
+            // Custom data is often passed as a JSON string. Applications are free to put anything here, so there's no
+            // guarantee it will be JSON.
+            if (typeof customData === 'string') {
+                try {
+                    customData = JSON.parse(customData);
+                } catch (error) {
+                    customData = null;
+                }
+            }
+
+            if (customData && customData.snapPolicy) {
+                try {
+                    return SnapPolicyUtils.merge(DEFAULT_SNAP_POLICY, customData.snapPolicy);
+                } catch (error) {
+                    console.warn(`Ignoring snap policy of window "${window.uuid}/${window.name}": ${error.message}`);
+                }
+            }
+
+            return {...DEFAULT_SNAP_POLICY};
+        });
+    }
+
     /**
      * A window property has been changed that may snap the window out of any group that it it's currently in.
      *
@@ -91,9 +128,12 @@ export class SnapWindow {
     /**
      * Window is being moved/resized, need to check for any snap targets.
      *
-     * Arguments: (window: SnapWindow, type: Mask<eTransformType>)
+     * The 'startBounds' argument gives the bounds of the window before the move/resize operation began, allowing
+     * listeners to determine which edges of the window are being moved.
+     *
+     * Arguments: (window: SnapWindow, type: Mask<eTransformType>, startBounds: Rectangle)
      */
-    public readonly onTransform: Signal2<SnapWindow, Mask<eTransformType>> = new Signal2();
+    public readonly onTransform: Signal3<SnapWindow, Mask<eTransformType>, Rectangle> = new Signal3();
 
     /**
      * The move/resize operation (that was signalled through onTransform) has been completed.
@@ -111,8 +151,16 @@ export class SnapWindow {
      */
     public readonly onClose: Signal1<SnapWindow> = new Signal1();
 
+    /**
+     * The window has been minimized, maximized or restored. The new state is available from the window's state.
+     *
+     * Arguments: (window: SnapWindow)
+     */
+    public readonly onStateChanged: Signal1<SnapWindow> = new Signal1();
+
     private window: fin.OpenFinWindow;
     private state: WindowState;
+    private policy: SnapPolicy;
 
     private identity: WindowIdentity;
     private id: string;  // Created from window uuid and name
@@ -126,14 +174,34 @@ export class SnapWindow {
     // State tracking for "synth move" detection
     private boundsChangeCountSinceLastCommit: number;
 
-    constructor(group: SnapGroup, window: fin.OpenFinWindow, initialState: WindowState) {
+    // Bounds of the window at the point the current move/resize operation began
+    private transformStartBounds: Rectangle;
+
+    // Set when the service re-positions this window before the 'bounds-changed' event that ends a drag has been
+    // received (e.g. when snapping a group, as each window in the group will fire it's own event). That event will
+    // then contain out-of-date bounds, and shouldn't be allowed to overwrite the state set by the service.
+    private ignoreCommitBounds: boolean;
+
+    /**
+     * The animation that is currently moving this window, if any.
+     *
+     * The cached state of the window is updated to it's final position as soon as an animation starts, so the bounds
+     * within any events raised whilst the window is animating aren't written to the cache.
+     */
+    private animation: AnimationTracker;
+
+    constructor(group: SnapGroup, window: fin.OpenFinWindow, initialState: WindowState, policy: SnapPolicy = DEFAULT_SNAP_POLICY) {
         this.window = window;
         this.state = initialState;
+        this.policy = {...policy};
 
         this.identity = {uuid: window.uuid, name: window.name};
         this.id = `${window.uuid}/${window.name}`;
         this.registered = true;
         this.boundsChangeCountSinceLastCommit = 0;
+        this.transformStartBounds = {center: {...initialState.center}, halfSize: {...initialState.halfSize}};
+        this.ignoreCommitBounds = false;
+        this.animation = new AnimationTracker();
 
         this.group = group;
         this.prevGroup = null;
@@ -192,9 +260,16 @@ export class SnapWindow {
      * @param offset An offset to apply to this windows position (use this to enusre window is in correct position)
      * @param newHalfSize Can also simultaneously change the size of the window
      * @param synthetic Signifies that the setGroup has been triggered by a native group event. Will disable native group changes that would normally occur
+     * @param transition Animates the window to it's new position, rather than moving it instantly
      */
-    public setGroup(group: SnapGroup, offset?: Point, newHalfSize?: Point, synthetic?: boolean): void {
+    public setGroup(group: SnapGroup, offset?: Point, newHalfSize?: Point, synthetic?: boolean, transition?: Transition|null): void {
         if (group !== this.group) {
+            const delta: Partial<WindowState> = this.calculateDelta(offset, newHalfSize);
+
+            // Update cached state before joining the group, so that listeners of the group's signals see the window's
+            // final position. The actual window is then moved below, once the native groups have been updated.
+            this.updateState(delta);
+
             this.prevGroup = this.group;
             this.group = group;
             group.addWindow(this);
@@ -204,30 +279,87 @@ export class SnapWindow {
             }
 
             if (offset || newHalfSize) {
-                const delta: Partial<WindowState> = {};
-
-                if (offset) {
-                    delta.center = {x: this.state.center.x + offset.x, y: this.state.center.y + offset.y};
-                }
-                if (newHalfSize) {
-                    delta.center = delta.center || {...this.state.center};
-                    delta.halfSize = newHalfSize;
-
-                    delta.center.x += newHalfSize.x - this.state.halfSize.x;
-                    delta.center.y += newHalfSize.y - this.state.halfSize.y;
+                if (this.boundsChangeCountSinceLastCommit > 1) {
+                    this.ignoreCommitBounds = true;
                 }
 
                 this.applyState(delta, () => {
-                    if (!synthetic) {
+                    // Window may have been moved to another group whilst it was animating
+                    if (!synthetic && this.group === group) {
                         this.snap();
                     }
-                });
+                }, synthetic ? null : transition);
             } else if (group.windows.length >= 2 && !synthetic) {
                 this.snap();
             }
         }
     }
 
+    /**
+     * Moves and/or resizes this window, without changing it's group.
+     *
+     * Any other windows in the same native group as this window will be moved along with this window. The window is
+     * only animated if it isn't grouped with any other windows, so that the rest of the group moves along with it.
+     *
+     * @param offset An offset to apply to this windows position
+     * @param newHalfSize Can also simultaneously change the size of the window
+     * @param transition Animates the window to it's new position, rather than moving it instantly
+     */
+    public applyOffset(offset: Point, newHalfSize?: Point, transition?: Transition|null): void {
+        if (this.boundsChangeCountSinceLastCommit > 1) {
+            this.ignoreCommitBounds = true;
+        }
+
+        this.applyState(this.calculateDelta(offset, newHalfSize), undefined, this.group.length === 1 ? transition : null);
+    }
+
+    /**
+     * Moves a single edge of this window, whilst keeping the opposite edge in place.
+     *
+     * The window is resized using an anchor, rather than being re-positioned, so that any other windows in the same
+     * native group as this window will not be moved.
+     *
+     * @param axis The axis along which the window will be resized
+     * @param side Which edge of the window to move - the left/top edge if negative, the right/bottom edge if positive
+     * @param position New position of the edge, in screen co-ordinates
+     */
+    public resizeEdge(axis: 'x'|'y', side: number, position: number): void {
+        const center: Point = {...this.state.center};
+        const halfSize: Point = {...this.state.halfSize};
+        const fixedEdge: number = center[axis] - Math.sign(side) * halfSize[axis];
+
+        center[axis] = (position + fixedEdge) / 2;
+        halfSize[axis] = Math.abs(position - fixedEdge) / 2;
+
+        if (this.boundsChangeCountSinceLastCommit > 1) {
+            this.ignoreCommitBounds = true;
+        }
+        this.updateState({center, halfSize});
+
+        const anchor: fin.OpenFinAnchor = side > 0 ? 'top-left' : (axis === 'x' ? 'top-right' : 'bottom-left');
+        if (isWin10() && this.state.frame) {
+            this.window.resizeTo((halfSize.x + 7) * 2, (halfSize.y + 3.5) * 2, anchor);
+        } else {
+            this.window.resizeTo(halfSize.x * 2, halfSize.y * 2, anchor);
+        }
+    }
+
+    /**
+     * Returns the minimum and maximum dimensions of this window, in the same units as the window's state (i.e. with
+     * any OS-specific offsets already applied).
+     *
+     * Any axis on which the window doesn't have a maximum size will have a maximum of Number.POSITIVE_INFINITY.
+     */
+    public getSizeLimits(): {min: Point, max: Point} {
+        const {minWidth, maxWidth, minHeight, maxHeight} = this.state;
+        const offset: Point = (isWin10() && this.state.frame) ? {x: 14, y: 7} : {x: 0, y: 0};
+
+        return {
+            min: {x: Math.max((minWidth || 0) - offset.x, 0), y: Math.max((minHeight || 0) - offset.y, 0)},
+            max: {x: maxWidth > 0 ? maxWidth - offset.x : Number.POSITIVE_INFINITY, y: maxHeight > 0 ? maxHeight - offset.y : Number.POSITIVE_INFINITY}
+        };
+    }
+
     public getState(): WindowState {
         return this.state;
     }
@@ -236,6 +368,28 @@ export class SnapWindow {
         return this.identity;
     }
 
+    /**
+     * Returns the bounds of this window at the point the current (or most recent) move/resize operation began.
+     */
+    public getTransformStartBounds(): Rectangle {
+        return {center: {...this.transformStartBounds.center}, halfSize: {...this.transformStartBounds.halfSize}};
+    }
+
+    public getPolicy(): Readonly<SnapPolicy> {
+        return this.policy;
+    }
+
+    /**
+     * Modifies the snap policy of this window. Any values not included in 'policy' are left unchanged.
+     *
+     * The new policy only applies to future snaps, the window will remain in it's current group.
+     *
+     * @param policy The values to change
+     */
+    public setPolicy(policy: Partial<SnapPolicy>): void {
+        this.policy = SnapPolicyUtils.merge(this.policy, policy);
+    }
+
     public offsetBy(offset: Point): void {
         this.window.moveBy(offset.x, offset.y);
     }
@@ -265,6 +419,27 @@ export class SnapWindow {
         this.window.leaveGroup();
     }
 
+    /**
+     * Creates the state change needed to apply an offset and/or size change to this window. When resizing, the
+     * top-left corner of the window is kept in place.
+     */
+    private calculateDelta(offset?: Point, newHalfSize?: Point): Partial<WindowState> {
+        const delta: Partial<WindowState> = {};
+
+        if (offset) {
+            delta.center = {x: this.state.center.x + offset.x, y: this.state.center.y + offset.y};
+        }
+        if (newHalfSize) {
+            delta.center = delta.center || {...this.state.center};
+            delta.halfSize = newHalfSize;
+
+            delta.center.x += newHalfSize.x - this.state.halfSize.x;
+            delta.center.y += newHalfSize.y - this.state.halfSize.y;
+        }
+
+        return delta;
+    }
+
     /**
      * Updates our state cache to reflect user changes
      */
@@ -305,8 +480,11 @@ export class SnapWindow {
      *
      * Can optionally specify a callback which will be triggered once any position/size changes are applied (callback
      * does not wait for non-transform related changes).
+     *
+     * If a transition is given, the window is animated to it's new bounds. The window is also animated if it is
+     * already part-way through an animation, which will interrupt that animation.
      */
-    private applyState(delta: Partial<WindowState>, callback?: () => void): void {
+    private applyState(delta: Partial<WindowState>, callback?: () => void, transition?: Transition|null): void {
         const state: WindowState = this.state;
         const window = this.window;
 
@@ -321,20 +499,41 @@ export class SnapWindow {
                 halfSize = {x: halfSize.x + 7, y: halfSize.y + 3.5};
             }
 
-            window.setBounds(center.x - halfSize.x, center.y - halfSize.y, halfSize.x * 2, halfSize.y * 2, callback);
-            // window.animate(
-            //     {
-            //         position: {left: center.x - halfSize.x, top: center.y - halfSize.y, duration: 100},
-            //         size: {width: halfSize.x * 2, height: halfSize.y * 2, duration: 100}
-            //     },
-            //     {interrupt: false},
-            //     callback
-            // );
+            if (transition || this.animation.isAnimating()) {
+                this.animate(
+                    {left: center.x - halfSize.x, top: center.y - halfSize.y, width: halfSize.x * 2, height: halfSize.y * 2}, transition || null, callback);
+            } else {
+                window.setBounds(center.x - halfSize.x, center.y - halfSize.y, halfSize.x * 2, halfSize.y * 2, callback);
+            }
         } else if (callback) {
             callback();
         }
     }
 
+    /**
+     * Animates the window to the given bounds, interrupting any existing animation.
+     *
+     * When interrupting an animation, the window moves directly from it's current position to the new bounds, and any
+     * callbacks of the previous animation are invoked once the new animation completes.
+     *
+     * @param bounds Final bounds of the window, in the same format as 'setBounds'
+     * @param transition Duration and easing of the animation. If null, the window is moved instantly.
+     * @param callback Invoked once the window reaches it's final position
+     */
+    private animate(bounds: fin.WindowBounds, transition: Transition|null, callback?: () => void): void {
+        const duration: number = transition ? transition.duration : 0;
+        const onComplete: () => void = this.animation.start(callback);
+
+        this.window.animate(
+            {position: {left: bounds.left, top: bounds.top, duration}, size: {width: bounds.width, height: bounds.height, duration}},
+            {interrupt: true, tween: transition ? transition.easing : 'linear'},
+            onComplete,
+            (reason: string) => {
+                console.warn(`Animation of window ${this.id} failed: ${reason}`);
+                onComplete();
+            });
+    }
+
     /**
      * Windows 10 has a border shadow, which needs to be accounted for in window dimensions.
      *
@@ -381,14 +580,19 @@ export class SnapWindow {
         const bounds: fin.WindowBounds = this.checkBounds(event);
         const halfSize: Point = {x: bounds.width / 2, y: bounds.height / 2};
         const center: Point = {x: bounds.left + halfSize.x, y: bounds.top + halfSize.y};
+        const isCommit: boolean = this.boundsChangeCountSinceLastCommit > 1;
 
-        this.updateState({center, halfSize});
-        if (this.boundsChangeCountSinceLastCommit > 1) {
+        if (!this.animation.isAnimating() && (!isCommit || !this.ignoreCommitBounds)) {
+            this.updateState({center, halfSize});
+        }
+        this.boundsChangeCountSinceLastCommit = 0;
+        this.ignoreCommitBounds = false;
+
+        if (isCommit) {
             this.onCommit.emit(this);
         } else {
             this.onModified.emit(this);
         }
-        this.boundsChangeCountSinceLastCommit = 0;
     }
     private handleFrameDisabled() {
         this.updateState({frame: false});
@@ -401,20 +605,17 @@ export class SnapWindow {
     private handleMaximized() {
         this.updateState({state: 'maximized'});
         this.onModified.emit(this);
+        this.onStateChanged.emit(this);
     }
     private handleMinimized() {
         this.updateState({state: 'minimized'});
-        this.group.windows.forEach(win => {
-            win.getWindow().minimize();
-        });
         this.onModified.emit(this);
+        this.onStateChanged.emit(this);
     }
     private handleRestored() {
         this.updateState({state: 'normal'});
-        this.group.windows.forEach(win => {
-            win.getWindow().restore();
-        });
         // this.onModified.emit(this);
+        this.onStateChanged.emit(this);
     }
     private handleHidden() {
         this.updateState({hidden: true});
@@ -436,11 +637,17 @@ export class SnapWindow {
         // Convert 'changeType' into our enum type
         const type: Mask<eTransformType> = event.changeType + 1;
 
-        this.updateState({center, halfSize});
+        if (this.boundsChangeCountSinceLastCommit === 0) {
+            this.transformStartBounds = {center: {...this.state.center}, halfSize: {...this.state.halfSize}};
+        }
+
+        if (!this.animation.isAnimating()) {
+            this.updateState({center, halfSize});
+        }
         this.boundsChangeCountSinceLastCommit++;
 
         if (this.boundsChangeCountSinceLastCommit > 1) {
-            this.onTransform.emit(this, type);
+            this.onTransform.emit(this, type, this.transformStartBounds);
         }
     }
     private handleFocused() {
@@ -0,0 +1,58 @@
+import {SnapEdge, SnapPolicy} from '../../../client/types';
+import {DEFAULT_SNAP_POLICY} from '../Config';
+
+const EDGES: SnapEdge[] = ['left', 'top', 'right', 'bottom'];
+
+export class SnapPolicyUtils {
+    /**
+     * Returns a new policy, created by applying 'overrides' on top of 'policy'. Throws an error if 'overrides' isn't
+     * a valid (partial) policy.
+     *
+     * @param policy The existing policy. Will not be modified.
+     * @param overrides The values to change
+     */
+    public static merge(policy: Readonly<SnapPolicy>, overrides: Partial<SnapPolicy>): SnapPolicy {
+        SnapPolicyUtils.validate(overrides);
+        return {...policy, ...overrides};
+    }
+
+    /**
+     * Checks if a policy permits snapping to windows belonging to the given application.
+     */
+    public static allowsUuid(policy: Readonly<SnapPolicy>, uuid: string): boolean {
+        return (policy.allowUuids === null || policy.allowUuids.indexOf(uuid) >= 0) && policy.denyUuids.indexOf(uuid) === -1;
+    }
+
+    private static validate(policy: Partial<SnapPolicy>): void {
+        if (!policy || typeof policy !== 'object') {
+            throw new Error('Invalid snap policy provided');
+        }
+
+        Object.keys(policy).forEach((key: string) => {
+            if (!DEFAULT_SNAP_POLICY.hasOwnProperty(key)) {
+                throw new Error(`Invalid snap policy provided: unknown property "${key}"`);
+            }
+        });
+
+        const {edges, allowUuids, denyUuids} = policy;
+        if (edges !== undefined && !(Array.isArray(edges) && edges.every(edge => EDGES.indexOf(edge) >= 0))) {
+            throw new Error('Invalid snap policy provided: "edges" must be an array of window edges');
+        }
+        (['canBeTarget', 'canBeSource'] as ('canBeTarget' | 'canBeSource')[]).forEach(key => {
+            if (policy[key] !== undefined && typeof policy[key] !== 'boolean') {
+                throw new Error(`Invalid snap policy provided: "${key}" must be a boolean`);
+            }
+        });
+        if (allowUuids !== undefined && allowUuids !== null && !SnapPolicyUtils.isStringArray(allowUuids)) {
+            throw new Error('Invalid snap policy provided: "allowUuids" must be an array of strings, or null');
+        }
+        if (denyUuids !== undefined && !SnapPolicyUtils.isStringArray(denyUuids)) {
+            throw new Error('Invalid snap policy provided: "denyUuids" must be an array of strings');
+        }
+    }
+
+    // tslint:disable-next-line:no-any
+    private static isStringArray(value: any): value is string[] {
+        return Array.isArray(value) && value.every(item => typeof item === 'string');
+    }
+}
@@ -25,3 +25,20 @@ export async function promiseMap<T, U>(
     // clang-format on
     return Promise.all<U>(arr.map(asyncF));
 }
+
+/**
+ * Waits for a promise to resolve, up to a maximum of 'timeout' milliseconds. Resolves with 'timedOut' set if the
+ * promise didn't settle in time, and rejects if the promise rejects before the timeout.
+ */
+export async function withTimeout<T>(timeout: number, promise: Promise<T>): Promise<{timedOut: boolean, value?: T}> {
+    let handle: number|undefined;
+    const timer: Promise<{timedOut: boolean}> = new Promise(resolve => {
+        handle = window.setTimeout(() => resolve({timedOut: true}), timeout);
+    });
+
+    try {
+        return await Promise.race([timer, promise.then(value => ({timedOut: false, value}))]);
+    } finally {
+        window.clearTimeout(handle);
+    }
+}
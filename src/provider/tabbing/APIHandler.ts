@@ -2,6 +2,7 @@
 import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
 
 import {ApplicationUIConfig, DropPosition, TabIdentifier, TabProperties, TabWindowOptions} from '../../client/types';
+import {JournalWindowState, LayoutJournal} from '../LayoutJournal';
 
 import {Tab} from './Tab';
 import {TabGroup} from './TabGroup';
@@ -76,7 +77,10 @@ export class APIHandler {
      * will be used as the seed for the tab UI properties.
      */
     public async createTabGroup(windows: TabIdentifier[]) {
-        return this.mTabService.createTabGroupWithTabs(windows);
+        const before: JournalWindowState[] = LayoutJournal.INSTANCE.capture(windows);
+
+        await this.mTabService.createTabGroupWithTabs(windows);
+        LayoutJournal.INSTANCE.record('tab', before);
     }
 
     /**
@@ -95,7 +99,11 @@ export class APIHandler {
         }
 
         if (this.mTabService.applicationConfigManager.compareConfigBetweenApplications(payload.targetWindow.uuid, payload.windowToAdd.uuid)) {
-            return group.addTab(await new Tab({tabID: payload.windowToAdd}).init());
+            const before: JournalWindowState[] = LayoutJournal.INSTANCE.capture([payload.targetWindow, payload.windowToAdd]);
+            const tab: Tab = await group.addTab(await new Tab({tabID: payload.windowToAdd}).init());
+
+            LayoutJournal.INSTANCE.record('tab', before);
+            return tab;
         } else {
             console.error('The tabs provided have incompatible tabstrip URLs');
             throw new Error('The tabs provided have incompatible tabstrip URLs');
@@ -104,6 +104,7 @@ export class TabGroup {
         }
 
         this.window.finWindow.bringToFront();
+        TabService.INSTANCE.onTabGroupChanged.emit(this);
 
         return tab;
     }
@@ -134,6 +135,7 @@ export class TabGroup {
 
         if (newlyOrdered.length === this._tabs.length) {
             this._tabs = newlyOrdered as Tab[];
+            TabService.INSTANCE.onTabGroupChanged.emit(this);
             return true;
         } else {
             console.error('Input array must reference each tab exactly once');
@@ -187,6 +189,7 @@ export class TabGroup {
         if (restoreWindowState) {
             tab.deInit();
         }
+        TabService.INSTANCE.onTabGroupChanged.emit(this);
 
         if (closeGroupWindowCheck) {
             if (this._tabs.length === 1) {
@@ -260,6 +263,7 @@ export class TabGroup {
         this._activeTab = tab;
         const payload: TabGroupEventPayload = {tabGroupId: this.ID, tabID: tab.ID};
         sendToClient({uuid: fin.Application.me.uuid, name: this.ID}, 'tab-activated', payload);
+        TabService.INSTANCE.onTabGroupChanged.emit(this);
     }
 
     /**
@@ -1,6 +1,7 @@
 import {Application} from 'hadouken-js-adapter';
 
 import {ApplicationUIConfig, Bounds, TabIdentifier, TabPackage, TabWindowOptions} from '../../client/types';
+import {Signal1} from '../snapanddock/Signal';
 
 import {APIHandler} from './APIHandler';
 import {ApplicationConfigManager} from './components/ApplicationConfigManager';
@@ -29,6 +30,13 @@ export class TabService {
      */
     public apiHandler: APIHandler;
 
+    /**
+     * A tab has been added to or removed from a tab group, or the tabs of a group have been re-ordered or activated.
+     *
+     * Arguments: (group: TabGroup)
+     */
+    public readonly onTabGroupChanged: Signal1<TabGroup> = new Signal1();
+
     /**
      * Contains all the tabsets of this service.
      */
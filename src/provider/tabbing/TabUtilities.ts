@@ -1,6 +1,7 @@
 import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
 
 import {TabBlob, TabIdentifier, TabWindowOptions} from '../../client/types';
+import {JournalWindowState, LayoutJournal} from '../LayoutJournal';
 import {SnapService} from '../snapanddock/SnapService';
 import {SnapWindow, WindowState} from '../snapanddock/SnapWindow';
 import {Point} from '../snapanddock/utils/PointUtils';
@@ -49,6 +50,8 @@ export async function ejectTab(message: TabIdentifier&TabWindowOptions, tabGroup
             getWindowAt(message.screenX, message.screenY /*, ejectedTab.ID*/);  // await tabService.isPointOverTabGroup(message.screenX, message.screenY);
     }
 
+    const before: JournalWindowState[] = LayoutJournal.INSTANCE.capture(isOverTabWindowResult ? [ejectedTab.ID, isOverTabWindowResult] : [ejectedTab.ID]);
+
     // If there is a window underneath our point
     if (isOverTabWindowResult && tabService.getTabGroupByApp(isOverTabWindowResult) === tabGroup) {
         // If the window under our point is in the same group as the one being dragged, we do nothing
@@ -84,6 +87,7 @@ export async function ejectTab(message: TabIdentifier&TabWindowOptions, tabGroup
         }
     }
 
+    LayoutJournal.INSTANCE.record(isOverTabWindowResult ? 'tab' : 'eject', before);
     return;
 }
 
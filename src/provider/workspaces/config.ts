@@ -0,0 +1,33 @@
+import {WorkspaceConfig} from '../../client/types';
+import {serviceConfig} from '../manifest';
+
+/**
+ * Applications have a few seconds to provide their data when a layout is saved. Restoring an application may require
+ * the application to be started, so applications are given longer to restore.
+ */
+export const DEFAULT_WORKSPACE_CONFIG: Readonly<WorkspaceConfig> = {
+    saveTimeout: 5000,
+    restoreTimeout: 30000,
+    customDataSizeLimit: 1024 * 1024
+};
+
+/**
+ * Returns the timeouts to use when saving and restoring layouts. Any values within the service manifest that aren't
+ * valid timeouts are ignored.
+ */
+export const getWorkspaceConfig = async(): Promise<WorkspaceConfig> => {
+    const config: WorkspaceConfig = {...DEFAULT_WORKSPACE_CONFIG};
+    const overrides: Partial<WorkspaceConfig> = (await serviceConfig).workspace || {};
+
+    Object.keys(config).forEach((key: string) => {
+        const value: number|undefined = overrides[key as keyof WorkspaceConfig];
+
+        if (typeof value === 'number' && value >= 0) {
+            config[key as keyof WorkspaceConfig] = value;
+        } else if (value !== undefined) {
+            console.warn(`Ignoring invalid workspace config: "${key}" must be a non-negative number`);
+        }
+    });
+
+    return config;
+};
@@ -3,13 +3,16 @@ import {ApplicationInfo} from 'hadouken-js-adapter/out/types/src/api/application
 import {WindowDetail, WindowInfo} from 'hadouken-js-adapter/out/types/src/api/system/window';
 import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
 
-import {CustomData, Layout, LayoutApp, LayoutWindowData, TabBlob, TabIdentifier, WindowState} from '../../client/types';
+import {CustomData, Layout, LayoutApp, LayoutAppData, LayoutAppResult, LayoutResult, LayoutSnapGroup, LayoutWindowData, TabBlob, TabIdentifier, WindowState} from '../../client/types';
 import {WindowIdentity} from '../snapanddock/SnapWindow';
-import {promiseMap} from '../snapanddock/utils/async';
+import {promiseMap, withTimeout} from '../snapanddock/utils/async';
 import {getTabSaveInfo} from '../tabbing/SaveAndRestoreAPI';
 
-import {getGroup} from './group';
-import {addToWindowObject, inWindowObject, isClientConnection, sendToClient, wasCreatedFromManifest, wasCreatedProgrammatically, WindowObject} from './utils';
+import {getWorkspaceConfig} from './config';
+import {addAppData} from './customData';
+import {getGroup, getLayoutSnapGroups} from './group';
+import {LAYOUT_VERSION} from './migrations';
+import {addToWindowObject, createProgressReporter, inWindowObject, isClientConnection, sendToClient, wasCreatedFromManifest, wasCreatedProgrammatically, WindowObject} from './utils';
 
 const deregisteredWindows: WindowObject = {};
 
@@ -139,36 +142,58 @@ export const getCurrentLayout = async(): Promise<Layout> => {
     console.log('Pre-Layout Save Apps:', apps);
     console.log('Post-Layout Valid Apps:', validApps);
 
-    const layoutObject: Layout = {type: 'layout', apps: validApps, monitorInfo, tabGroups: filteredTabGroups};
+    // Tabbed windows are restored as part of their tab group, and only windows of saved applications can be regrouped
+    const snapGroups: LayoutSnapGroup[] = getLayoutSnapGroups((identity: WindowIdentity) => {
+        const parentIsDeregistered = inWindowObject({uuid: identity.uuid, name: identity.uuid}, deregisteredWindows);
+        const windowIsDeregistered = inWindowObject(identity, deregisteredWindows);
+
+        return parentIsDeregistered || windowIsDeregistered || inWindowObject(identity, tabbedWindows) || !validApps.some(app => app.uuid === identity.uuid);
+    });
+
+    const layoutObject: Layout = {type: 'layout', version: LAYOUT_VERSION, apps: validApps, monitorInfo, tabGroups: filteredTabGroups, snapGroups};
     return layoutObject;
 };
 
-// No payload. Just returns the current layout with child windows.
-export const generateLayout = async(payload: null, identity: Identity): Promise<Layout> => {
+/**
+ * Generates the current layout, giving each connected application the chance to add it's own data. Applications that
+ * don't respond within the save timeout are saved without any data of their own.
+ *
+ * @param payload Unused
+ * @param identity The application that requested the layout, which will receive progress events. May be null.
+ */
+export const generateLayout = async(payload: null, identity: Identity|null): Promise<LayoutResult> => {
     const preLayout = await getCurrentLayout();
+    const {saveTimeout, customDataSizeLimit} = await getWorkspaceConfig();
+    const reportProgress = createProgressReporter('generate', identity, preLayout.apps.length);
+
+    const results = await promiseMap(preLayout.apps, async(app: LayoutApp): Promise<[LayoutApp, LayoutAppResult]> => {
+        let response: LayoutApp = {...app};
+        let result: LayoutAppResult = {uuid: app.uuid, status: 'success'};
 
-    const apps = await promiseMap(preLayout.apps, async (app: LayoutApp) => {
-        const defaultResponse = {...app};
         if (isClientConnection(app)) {
             console.log('Connected application', app.uuid);
 
-            // HOW TO DEAL WITH HUNG REQUEST HERE? RESHAPE IF GET NOTHING BACK?
-            let customData: CustomData = undefined;
-            await sendToClient(app, 'savingLayout', app);
+            try {
+                const appData = await withTimeout<LayoutAppData|CustomData>(saveTimeout, sendToClient(app, 'savingLayout', app));
 
-            if (!customData) {
-                customData = null;
+                if (appData.timedOut) {
+                    console.warn(`Application ${app.uuid} did not respond within ${saveTimeout}ms, saving without application data`);
+                    result = {uuid: app.uuid, status: 'timeout'};
+                } else {
+                    response = {...addAppData(app, appData.value, customDataSizeLimit), confirmed: true};
+                }
+            } catch (error) {
+                console.error('Error saving application', app.uuid, error);
+                result = {uuid: app.uuid, status: 'failed', error: error instanceof Error ? error.message : String(error)};
             }
-            defaultResponse.customData = customData;
-            defaultResponse.confirmed = true;
-            return defaultResponse;
-        } else {
-            return defaultResponse;
         }
+
+        reportProgress(result);
+        return [response, result];
     });
 
-    const confirmedLayout = {...preLayout, apps};
-    return confirmedLayout;
+    const apps: LayoutApp[] = results.map(([app]) => app);
+    return {layout: {...preLayout, apps}, apps: results.map(([, result]) => result)};
 };
 
 // Grabs all of the necessary layout information for a window. Filters by multiple criteria.
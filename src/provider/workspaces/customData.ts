@@ -0,0 +1,65 @@
+import {CustomData, LayoutApp, LayoutAppData, WindowState} from '../../client/types';
+
+/**
+ * Adds the data returned by an application's onApplicationSave callback to that application's part of the layout.
+ *
+ * Callbacks written before per-window data was supported return the application's data directly. Any response that
+ * isn't a LayoutAppData object (see isLayoutAppData) is treated as such, and saved as the application's customData.
+ *
+ * Throws an error if the data isn't in the expected format, or is larger than the size limit. Data for any windows that
+ * aren't part of the layout is ignored.
+ *
+ * @param app The application, as saved within the layout
+ * @param data The response from the application. Applications that haven't registered a callback will respond with false.
+ * @param sizeLimit The maximum length of the data, once serialized to JSON
+ */
+export function addAppData(app: LayoutApp, data: LayoutAppData|CustomData, sizeLimit: number): LayoutApp {
+    if (data === undefined || data === null || data === false) {
+        return {...app, customData: null};
+    }
+
+    const size: number = JSON.stringify(data).length;
+    if (size > sizeLimit) {
+        throw new Error(`Invalid application data: data is ${size} characters once serialized, which exceeds the limit of ${sizeLimit}`);
+    }
+
+    if (!isLayoutAppData(data)) {
+        return {...app, customData: data};
+    }
+
+    const windows: {[name: string]: CustomData} = data.windows || {};
+    if (typeof windows !== 'object' || Array.isArray(windows)) {
+        throw new Error('Invalid application data: "windows" must be an object');
+    }
+
+    const names: string[] = [app.mainWindow, ...app.childWindows].map(window => window.name);
+    Object.keys(windows).forEach((name: string) => {
+        if (!names.includes(name)) {
+            console.warn(`Ignoring data for window "${name}" of application ${app.uuid}, as the window isn't part of the layout`);
+        }
+    });
+
+    const addWindowData = (window: WindowState): WindowState => {
+        return windows.hasOwnProperty(window.name) ? {...window, customData: windows[window.name]} : window;
+    };
+
+    return {
+        ...app,
+        customData: data.customData === undefined ? null : data.customData,
+        mainWindow: addWindowData(app.mainWindow),
+        childWindows: app.childWindows.map(addWindowData)
+    };
+}
+
+/**
+ * Determines if a response from onApplicationSave is a LayoutAppData object. Only non-empty objects that contain nothing
+ * other than 'customData' and 'windows' are treated as LayoutAppData, anything else is application-level data.
+ */
+function isLayoutAppData(data: unknown): data is LayoutAppData {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return false;
+    }
+
+    const keys: string[] = Object.keys(data as object);
+    return keys.length > 0 && keys.every(key => key === 'customData' || key === 'windows');
+}
@@ -0,0 +1,124 @@
+import {Layout, LayoutApp, RestoreLayoutOptions, TabIdentifier, WindowState} from '../../client/types';
+
+import {getMonitors, getNearestMonitor, LayoutMonitor} from './monitors';
+
+/**
+ * The part of a layout selected by a set of restore options.
+ */
+export interface LayoutSubset {
+    /**
+     * A copy of the layout that contains only the selected applications, windows and groups
+     */
+    layout: Layout;
+
+    /**
+     * Main windows that weren't selected, but are within 'layout' as every application must have a main window. If their
+     * application is already running, these windows are left where they are.
+     */
+    excludedWindows: TabIdentifier[];
+}
+
+/**
+ * Selects the part of a layout that should be restored, using the options passed to restoreLayout.
+ *
+ * Windows are selected if they match every filter within the options. The selection is then expanded to include every
+ * window within any snap group or tab group that contains a selected window, and (unless the scope is 'window') every
+ * window of any application that has a selected window. This is repeated until no further windows are added, so groups
+ * that straddle the boundary of the selection are always restored as a whole.
+ *
+ * @param layout The layout that is being restored, in the current layout format
+ * @param options Options passed to restoreLayout. Since these are received over the service bus, they are validated here.
+ */
+export function filterLayout(layout: Layout, options: RestoreLayoutOptions): LayoutSubset {
+    if (!options || typeof options !== 'object') {
+        throw new Error('Invalid restore options: options must be an object');
+    }
+
+    const windows: WindowState[] = [];
+    layout.apps.forEach(app => windows.push(app.mainWindow, ...app.childWindows));
+
+    const filters: ((window: WindowState) => boolean)[] = [];
+    const {uuids, monitor, snapGroup, tabGroup, scope = 'app'} = options;
+
+    if (uuids !== undefined) {
+        if (!Array.isArray(uuids) || uuids.some(uuid => typeof uuid !== 'string')) {
+            throw new Error('Invalid restore options: "uuids" must be an array of strings');
+        }
+        filters.push(window => uuids.includes(window.uuid));
+    }
+    if (monitor !== undefined) {
+        const monitors: LayoutMonitor[] = getMonitors(layout.monitorInfo);
+        const target: LayoutMonitor|undefined = monitors[monitor];
+
+        if (!target) {
+            throw new Error(`Invalid restore options: monitor ${monitor} does not exist within the layout`);
+        }
+        filters.push(window => {
+            const rect = {left: window.left, top: window.top, right: window.left + window.width, bottom: window.top + window.height};
+            return getNearestMonitor(monitors, rect) === target;
+        });
+    }
+    if (snapGroup !== undefined) {
+        const group = layout.snapGroups.find(group => group.id === snapGroup);
+
+        if (!group) {
+            throw new Error(`Invalid restore options: snap group ${snapGroup} does not exist within the layout`);
+        }
+        const keys: string[] = group.windows.map(getKey);
+        filters.push(window => keys.includes(getKey(window)));
+    }
+    if (tabGroup !== undefined) {
+        const group = typeof tabGroup === 'number' ? layout.tabGroups[tabGroup] : undefined;
+
+        if (!group) {
+            throw new Error(`Invalid restore options: tab group ${tabGroup} does not exist within the layout`);
+        }
+        const keys: string[] = group.tabs.map(getKey);
+        filters.push(window => keys.includes(getKey(window)));
+    }
+    if (scope !== 'app' && scope !== 'window') {
+        throw new Error(`Invalid restore options: "scope" must be 'app' or 'window'`);
+    }
+
+    const selected: Set<string> = new Set(windows.filter(window => filters.every(filter => filter(window))).map(getKey));
+    if (selected.size === 0) {
+        throw new Error('No windows within the layout match the restore options');
+    }
+
+    // Sets of windows that must be restored together
+    const units: string[][] = [
+        ...layout.snapGroups.map(group => group.windows.map(getKey)),
+        ...layout.tabGroups.map(group => group.tabs.map(getKey)),
+        ...(scope === 'app' ? layout.apps.map(app => [app.mainWindow, ...app.childWindows].map(getKey)) : [])
+    ];
+
+    let expanded = true;
+    while (expanded) {
+        expanded = false;
+        units.forEach((unit: string[]) => {
+            if (unit.some(key => selected.has(key)) && !unit.every(key => selected.has(key))) {
+                unit.forEach(key => selected.add(key));
+                expanded = true;
+            }
+        });
+    }
+
+    const isSelected = (identity: TabIdentifier) => selected.has(getKey(identity));
+    const apps: LayoutApp[] = layout.apps.filter(app => [app.mainWindow, ...app.childWindows].some(isSelected)).map(app => {
+        return {...app, childWindows: app.childWindows.filter(isSelected)};
+    });
+
+    return {
+        layout: {
+            ...layout,
+            apps,
+            tabGroups: layout.tabGroups.filter(group => group.tabs.some(isSelected)),
+            snapGroups: layout.snapGroups.filter(group => group.windows.some(isSelected))
+        },
+        excludedWindows: apps.filter(app => !isSelected(app.mainWindow)).map(app => ({uuid: app.uuid, name: app.mainWindow.name}))
+    };
+}
+
+function getKey(identity: {uuid: string, name: string}): string {
+    return `${identity.uuid}/${identity.name}`;
+}
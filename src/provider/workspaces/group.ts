@@ -1,8 +1,11 @@
 
 import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
 
-import {LayoutApp, WindowState} from '../../client/types';
-import {promiseMap} from '../snapanddock/utils/async';
+import {LayoutSnapGroup, LayoutSnapGroupWindow} from '../../client/types';
+import {JournalWindowState} from '../LayoutJournal';
+import {snapService} from '../main';
+import {SnapGroup} from '../snapanddock/SnapGroup';
+import {SnapWindow, WindowIdentity, WindowState as SnapWindowState} from '../snapanddock/SnapWindow';
 
 export const getGroup = (identity: Identity): Promise<Identity[]> => {
     const {uuid, name} = identity;
@@ -23,31 +26,70 @@ export const getGroup = (identity: Identity): Promise<Identity[]> => {
     });
 };
 
-export const regroupLayout = async (apps: LayoutApp[]) => {
-    await promiseMap(apps, async(app: LayoutApp): Promise<void> => {
-        await groupWindow(app.mainWindow);
-        await promiseMap(app.childWindows, async (child: WindowState) => {
-            await groupWindow(child);
-        });
-    });
+/**
+ * Returns each snap group that should be saved as part of a layout. Windows are stored relative to the top-left corner
+ * of their group, and any groups left with fewer than two windows once excluded windows are removed are not saved.
+ *
+ * @param isExcluded Returns true for any window that should not be included in the layout
+ */
+export const getLayoutSnapGroups = (isExcluded: (identity: WindowIdentity) => boolean): LayoutSnapGroup[] => {
+    return snapService.getSnapGroups()
+        .map(
+            (group: SnapGroup):
+                LayoutSnapGroup => {
+                    const windows: SnapWindow[] = group.windows.filter(window => !isExcluded(window.getIdentity()));
+                    const states: SnapWindowState[] = windows.map(window => window.getState());
+                    const left = Math.min(...states.map(state => state.center.x - state.halfSize.x));
+                    const top = Math.min(...states.map(state => state.center.y - state.halfSize.y));
+
+                    return {
+                        id: group.id,
+                        windows: windows.map(
+                            (window: SnapWindow, index: number):
+                                LayoutSnapGroupWindow => {
+                                    const {center, halfSize} = states[index];
+                                    const {uuid, name} = window.getIdentity();
+
+                                    return {
+                                        uuid,
+                                        name,
+                                        offset: {x: center.x - halfSize.x - left, y: center.y - halfSize.y - top},
+                                        width: halfSize.x * 2,
+                                        height: halfSize.y * 2
+                                    };
+                                })
+                    };
+                })
+        .filter(group => group.windows.length > 1);
 };
 
-export const groupWindow = async (win: WindowState) => {
-    const {uuid, name} = win;
-    const ofWin = await fin.Window.wrap({uuid, name});
-    await promiseMap(win.windowGroup, async (w: Identity) => {
-        if (w.uuid === 'layouts-service') {
+/**
+ * Re-creates the snap groups of a layout. Each group is re-built around the current position of it's first window,
+ * with every other window placed relative to that window - this ensures that windows are flush with each other, even
+ * if the bounds of individual windows were not restored exactly.
+ *
+ * Windows that aren't registered with the snap service are ignored.
+ *
+ * @param groups The snap groups saved within the layout
+ */
+export const restoreSnapGroups = (groups: LayoutSnapGroup[]): void => {
+    groups.forEach((group: LayoutSnapGroup) => {
+        const windows: LayoutSnapGroupWindow[] = group.windows.filter(window => !!snapService.getSnapWindow(window));
+
+        if (windows.length < 2) {
+            console.warn(`Unable to restore snap group ${group.id} - fewer than two of it's windows are open`);
             return;
         }
-        const windowToGroup = await fin.Window.wrap({uuid: w.uuid, name: w.name});
-        // ERROR: windowToGroup returns even if the window doesn't exist, so the if (windowToGroup) always results in true.
-
-        // Wrap returns even if the window doesn't exist. We need a windowToGroup.exists function.
-        if (windowToGroup) {
-            // Add the window to the same group as the target window
-            await windowToGroup.joinGroup(ofWin).catch((err: Error) => console.log('Attempted to group a window that does not exist', windowToGroup, err));
-        } else {
-            console.error('Attempted to group a window that does not exist');
-        }
+
+        const anchor: SnapWindowState = snapService.getSnapWindow(windows[0])!.getState();
+        const origin = {x: anchor.center.x - anchor.halfSize.x - windows[0].offset.x, y: anchor.center.y - anchor.halfSize.y - windows[0].offset.y};
+        const snapGroup: WindowIdentity[] = windows.map(window => ({uuid: window.uuid, name: window.name}));
+
+        snapService.restoreWindowStates(windows.map((window: LayoutSnapGroupWindow): JournalWindowState => {
+            const halfSize = {x: window.width / 2, y: window.height / 2};
+            const center = {x: origin.x + window.offset.x + halfSize.x, y: origin.y + window.offset.y + halfSize.y};
+
+            return {identity: {uuid: window.uuid, name: window.name}, bounds: {center, halfSize}, snapGroup, tabGroup: []};
+        }));
     });
-};
\ No newline at end of file
+};
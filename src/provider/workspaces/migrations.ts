@@ -0,0 +1,116 @@
+import {Layout, LayoutSnapGroup, WindowState} from '../../client/types';
+
+/**
+ * The version of the layout format generated by this version of the service.
+ *
+ * Any change to the format of a layout must increment this version, and add a migration that upgrades layouts from
+ * the previous version.
+ */
+export const LAYOUT_VERSION = 1;
+
+/**
+ * The version of the portable format created by exportLayout. Exported layouts are not migrated - an export can only be
+ * imported by a version of the service that supports it's version of the export format.
+ */
+export const LAYOUT_EXPORT_VERSION = 1;
+
+/**
+ * A layout document of any version. Nothing is known about the contents of the document until they have been checked.
+ */
+interface LegacyLayout {
+    [key: string]: unknown;
+}
+
+/**
+ * Upgrades a layout document by a single version. Migrations are given the document exactly as it was received, and
+ * must not assume that it is valid - the upgraded layout is validated once all migrations have been applied.
+ */
+type LayoutMigration = (layout: LegacyLayout) => LegacyLayout;
+
+/**
+ * The migration that upgrades a layout of each version. MIGRATIONS[n] converts a layout from version n to version n+1.
+ *
+ * Layouts saved before the format was versioned are treated as version 0.
+ */
+const MIGRATIONS: LayoutMigration[] = [
+    // Version 1: Added 'version' and 'snapGroups'. Snap groups are created from the native group of each window.
+    (layout: LegacyLayout) => {
+        const apps: unknown[] = Array.isArray(layout.apps) ? layout.apps : [];
+        const windows: WindowState[] = [];
+        apps.forEach((app: unknown) => {
+            if (isObject(app) && app.mainWindow) {
+                windows.push(app.mainWindow as WindowState, ...(Array.isArray(app.childWindows) ? app.childWindows : []));
+            }
+        });
+
+        return {...layout, version: 1, tabGroups: layout.tabGroups || [], snapGroups: createSnapGroups(windows)};
+    }
+];
+
+/**
+ * Upgrades a layout to the current version of the layout format, by applying each migration in turn. Layouts that are
+ * already at the current version are returned unchanged.
+ *
+ * Throws an error if the layout was saved by a newer version of the service.
+ *
+ * @param layout A layout, as received from a client. May have been saved by any version of the service.
+ */
+export function migrateLayout(input: unknown): Layout {
+    if (!isObject(input)) {
+        throw new Error('Received invalid layout object: layout must be an object');
+    }
+
+    let layout: LegacyLayout = input;
+    const version: unknown = layout.version === undefined ? 0 : layout.version;
+
+    if (typeof version !== 'number' || version % 1 !== 0 || version < 0) {
+        throw new Error('Received invalid layout object: layout.version should be a non-negative integer');
+    } else if (version > LAYOUT_VERSION) {
+        throw new Error(`Unable to restore layout: layout version ${version} is newer than the latest supported version (${LAYOUT_VERSION})`);
+    }
+
+    for (let i = version; i < LAYOUT_VERSION; i++) {
+        layout = MIGRATIONS[i](layout);
+    }
+
+    return layout as {} as Layout;
+}
+
+function isObject(value: unknown): value is LegacyLayout {
+    return !!value && typeof value === 'object';
+}
+
+/**
+ * Converts the 'windowGroup' lists of each window into snap groups. Each window is positioned relative to the rest of
+ * it's group using it's saved bounds. Tabbed windows are ignored, as these are grouped by their tab group.
+ */
+function createSnapGroups(windows: WindowState[]): LayoutSnapGroup[] {
+    const getKey = (identity: {uuid: string, name?: string}) => `${identity.uuid}/${identity.name}`;
+    const untabbedWindows: WindowState[] = windows.filter(window => window && !window.isTabbed);
+    const groups: Map<string, WindowState[]> = new Map();
+
+    untabbedWindows.forEach((window: WindowState) => {
+        const identities = [window, ...(Array.isArray(window.windowGroup) ? window.windowGroup : [])];
+        const members: WindowState[] = [];
+
+        // Combine every group that contains any of these windows
+        identities.forEach(identity => {
+            const existing: WindowState[] = groups.get(getKey(identity)) || untabbedWindows.filter(w => getKey(w) === getKey(identity));
+            members.push(...existing.filter(member => !members.includes(member)));
+        });
+        members.forEach(member => groups.set(getKey(member), members));
+    });
+
+    return Array.from(new Set(groups.values())).filter(members => members.length > 1).map((members: WindowState[], index: number): LayoutSnapGroup => {
+        const left = Math.min(...members.map(window => window.left));
+        const top = Math.min(...members.map(window => window.top));
+
+        return {
+            id: index + 1,
+            windows: members.map(window => {
+                const {uuid, name, width, height} = window;
+                return {uuid, name, offset: {x: window.left - left, y: window.top - top}, width, height};
+            })
+        };
+    });
+}
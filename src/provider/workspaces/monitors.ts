@@ -0,0 +1,286 @@
+import {Layout, LayoutSnapGroupWindow, TabBlob, WindowState} from '../../client/types';
+
+/**
+ * Bounds of a monitor, in the same co-ordinate space as window bounds.
+ */
+export interface MonitorRect {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+export interface LayoutMonitor {
+    deviceId?: string;
+
+    /**
+     * Full bounds of the monitor
+     */
+    monitorRect: MonitorRect;
+
+    /**
+     * The region of the monitor that windows can occupy - i.e. the monitor's bounds minus any taskbars
+     */
+    availableRect: MonitorRect;
+}
+
+/**
+ * The parts of the runtime's monitor info that are used when remapping a layout. Layouts contain the full object
+ * returned by 'fin.System.getMonitorInfo', and the current monitors are fetched in the same way.
+ */
+export interface LayoutMonitorInfo {
+    primaryMonitor: LayoutMonitor;
+    nonPrimaryMonitors: LayoutMonitor[];
+}
+
+/**
+ * A set of windows that must be moved together, so that they stay attached to each other.
+ */
+interface LayoutUnit {
+    windows: WindowState[];
+    snapGroupWindows: LayoutSnapGroupWindow[];
+    tabGroups: TabBlob[];
+}
+
+/**
+ * Moves the windows within a layout so that the layout fits the current monitor setup.
+ *
+ * Each saved monitor is paired with one of the current monitors, and windows are scaled and translated from the work
+ * area of their saved monitor to the work area of the matching current monitor. Monitor bounds are in device-independent
+ * pixels, so a change in DPI appears as a change in the size of the work area and is handled in the same way as a change
+ * in resolution. Anything that would still be off-screen is then moved into the nearest work area.
+ *
+ * Snap groups and tab groups are moved as a single unit, so that their windows remain attached to each other.
+ *
+ * The layout is modified in-place. Has no effect if either the saved or current monitor info is missing.
+ *
+ * @param layout The layout that is about to be restored
+ * @param currentInfo Monitor info of the machine that the layout is being restored on
+ */
+export function remapLayout(layout: Layout, currentInfo: LayoutMonitorInfo): void {
+    const savedMonitors: LayoutMonitor[] = getMonitors(layout.monitorInfo);
+    const currentMonitors: LayoutMonitor[] = getMonitors(currentInfo);
+
+    if (savedMonitors.length === 0 || currentMonitors.length === 0) {
+        console.warn('Unable to remap layout to current monitors - monitor info not available');
+        return;
+    }
+
+    const mapping: Map<LayoutMonitor, LayoutMonitor> = matchMonitors(savedMonitors, currentMonitors);
+
+    getLayoutUnits(layout).forEach((unit: LayoutUnit) => {
+        const bounds: MonitorRect = getUnitBounds(unit);
+        const savedMonitor: LayoutMonitor = getNearestMonitor(savedMonitors, bounds);
+        const from: MonitorRect = savedMonitor.availableRect;
+        const to: MonitorRect = mapping.get(savedMonitor)!.availableRect;
+        const scale = {x: getWidth(to) / getWidth(from), y: getHeight(to) / getHeight(from)};
+
+        // Scale the unit relative to the work area of it's monitor, then ensure that the scaled unit is on-screen
+        const scaled: MonitorRect = {
+            left: to.left + (bounds.left - from.left) * scale.x,
+            top: to.top + (bounds.top - from.top) * scale.y,
+            right: to.left + (bounds.right - from.left) * scale.x,
+            bottom: to.top + (bounds.bottom - from.top) * scale.y
+        };
+        const clampOffset = getClampOffset(scaled, getNearestMonitor(currentMonitors, scaled).availableRect);
+
+        const moveX = (x: number) => Math.round(to.left + (x - from.left) * scale.x + clampOffset.x);
+        const moveY = (y: number) => Math.round(to.top + (y - from.top) * scale.y + clampOffset.y);
+
+        unit.windows.forEach((window: WindowState) => {
+            const left = moveX(window.left), top = moveY(window.top);
+            const right = moveX(window.left + window.width), bottom = moveY(window.top + window.height);
+
+            Object.assign(window, {left, top, width: right - left, height: bottom - top});
+            if (window.right !== undefined) {
+                window.right = right;
+            }
+            if (window.bottom !== undefined) {
+                window.bottom = bottom;
+            }
+        });
+        unit.snapGroupWindows.forEach((window: LayoutSnapGroupWindow) => {
+            // As with the windows themselves, both edges are scaled so that adjacent windows remain flush
+            const left = Math.round(window.offset.x * scale.x), top = Math.round(window.offset.y * scale.y);
+            const right = Math.round((window.offset.x + window.width) * scale.x), bottom = Math.round((window.offset.y + window.height) * scale.y);
+
+            Object.assign(window, {offset: {x: left, y: top}, width: right - left, height: bottom - top});
+        });
+        unit.tabGroups.forEach((tabGroup: TabBlob) => {
+            // The height of the tabstrip itself is left unchanged
+            const dimensions = tabGroup.groupInfo.dimensions;
+            const left = moveX(dimensions.x), top = moveY(dimensions.y);
+
+            dimensions.width = moveX(dimensions.x + dimensions.width) - left;
+            dimensions.appHeight = Math.round(dimensions.appHeight * scale.y);
+            dimensions.x = left;
+            dimensions.y = top;
+        });
+    });
+}
+
+/**
+ * Pairs each saved monitor with a current monitor. Monitors with identical bounds (or the same device) are matched
+ * first, then the primary monitors. Any remaining saved monitors are paired with the nearest current monitor - which
+ * may result in several saved monitors being mapped to the same current monitor.
+ */
+function matchMonitors(savedMonitors: LayoutMonitor[], currentMonitors: LayoutMonitor[]): Map<LayoutMonitor, LayoutMonitor> {
+    const mapping: Map<LayoutMonitor, LayoutMonitor> = new Map();
+    const matchUnused = (predicate: (saved: LayoutMonitor, current: LayoutMonitor) => boolean) => {
+        savedMonitors.forEach((saved: LayoutMonitor) => {
+            const used: LayoutMonitor[] = Array.from(mapping.values());
+            const match: LayoutMonitor|undefined = currentMonitors.find(current => !used.includes(current) && predicate(saved, current));
+
+            if (match && !mapping.has(saved)) {
+                mapping.set(saved, match);
+            }
+        });
+    };
+
+    matchUnused((saved, current) => isSameRect(saved.monitorRect, current.monitorRect));
+    matchUnused((saved, current) => !!saved.deviceId && saved.deviceId === current.deviceId);
+    matchUnused((saved, current) => saved === savedMonitors[0] && current === currentMonitors[0]);
+
+    savedMonitors.forEach((saved: LayoutMonitor) => {
+        if (!mapping.has(saved)) {
+            mapping.set(saved, getNearestMonitor(currentMonitors, saved.monitorRect));
+        }
+    });
+
+    return mapping;
+}
+
+/**
+ * Splits the windows of a layout into units that must be moved together. Windows are combined using the saved snap
+ * groups and tab groups.
+ */
+function getLayoutUnits(layout: Layout): LayoutUnit[] {
+    const windows: WindowState[] = [];
+    layout.apps.forEach(app => windows.push(app.mainWindow, ...app.childWindows));
+
+    // Each window starts in it's own unit, with units then being merged together
+    const units: Map<string, LayoutUnit> = new Map();
+    windows.forEach((window: WindowState) => {
+        units.set(getKey(window), {windows: [window], snapGroupWindows: [], tabGroups: []});
+    });
+
+    const merge = (identities: {uuid: string, name: string}[]) => {
+        const target: LayoutUnit|undefined = identities.map(identity => units.get(getKey(identity))).find(unit => !!unit);
+
+        if (target) {
+            identities.forEach(identity => {
+                const unit: LayoutUnit|undefined = units.get(getKey(identity));
+
+                if (unit && unit !== target) {
+                    target.windows.push(...unit.windows);
+                    target.snapGroupWindows.push(...unit.snapGroupWindows);
+                    target.tabGroups.push(...unit.tabGroups);
+                    unit.windows.forEach(window => units.set(getKey(window), target));
+                }
+            });
+        }
+
+        return target;
+    };
+
+    layout.snapGroups.forEach(group => {
+        const unit: LayoutUnit|undefined = merge(group.windows);
+        if (unit) {
+            unit.snapGroupWindows.push(...group.windows);
+        }
+    });
+    layout.tabGroups.forEach(tabGroup => {
+        const unit: LayoutUnit|undefined = merge(tabGroup.tabs);
+        if (unit) {
+            unit.tabGroups.push(tabGroup);
+        }
+    });
+
+    return Array.from(new Set(units.values()));
+}
+
+function getUnitBounds(unit: LayoutUnit): MonitorRect {
+    const rects: MonitorRect[] =
+        unit.windows.map(window => ({left: window.left, top: window.top, right: window.left + window.width, bottom: window.top + window.height}));
+    unit.tabGroups.forEach(({groupInfo: {dimensions}}) => {
+        rects.push({
+            left: dimensions.x,
+            top: dimensions.y,
+            right: dimensions.x + dimensions.width,
+            bottom: dimensions.y + dimensions.tabGroupHeight + dimensions.appHeight
+        });
+    });
+
+    return {
+        left: Math.min(...rects.map(rect => rect.left)),
+        top: Math.min(...rects.map(rect => rect.top)),
+        right: Math.max(...rects.map(rect => rect.right)),
+        bottom: Math.max(...rects.map(rect => rect.bottom))
+    };
+}
+
+/**
+ * Returns the offset that would move 'rect' inside of 'area'. If 'rect' is larger than 'area', it is aligned with the
+ * top-left corner of 'area'.
+ */
+function getClampOffset(rect: MonitorRect, area: MonitorRect): {x: number, y: number} {
+    const clamp = (min: number, max: number, areaMin: number, areaMax: number) => {
+        if (min < areaMin || max - min > areaMax - areaMin) {
+            return areaMin - min;
+        } else if (max > areaMax) {
+            return areaMax - max;
+        } else {
+            return 0;
+        }
+    };
+
+    return {x: clamp(rect.left, rect.right, area.left, area.right), y: clamp(rect.top, rect.bottom, area.top, area.bottom)};
+}
+
+/**
+ * Returns the monitor that contains the center of 'rect' or, if 'rect' is off-screen, the monitor whose work area is
+ * closest to the center of 'rect'.
+ */
+export function getNearestMonitor(monitors: LayoutMonitor[], rect: MonitorRect): LayoutMonitor {
+    const x = (rect.left + rect.right) / 2, y = (rect.top + rect.bottom) / 2;
+    const getDistance = (monitor: LayoutMonitor) => {
+        const {left, top, right, bottom} = monitor.availableRect;
+        const dx = Math.max(left - x, 0, x - right), dy = Math.max(top - y, 0, y - bottom);
+
+        return dx * dx + dy * dy;
+    };
+
+    return monitors.reduce((nearest, monitor) => getDistance(monitor) < getDistance(nearest) ? monitor : nearest);
+}
+
+/**
+ * Returns every monitor within a monitor info object, with the primary monitor first. Returns an empty array if the
+ * monitor info is missing.
+ */
+export function getMonitors(monitorInfo: unknown): LayoutMonitor[] {
+    if (isMonitorInfo(monitorInfo)) {
+        return [monitorInfo.primaryMonitor, ...(monitorInfo.nonPrimaryMonitors || [])];
+    } else {
+        return [];
+    }
+}
+
+function isMonitorInfo(monitorInfo: unknown): monitorInfo is LayoutMonitorInfo {
+    return !!monitorInfo && typeof monitorInfo === 'object' && !!(monitorInfo as Partial<LayoutMonitorInfo>).primaryMonitor;
+}
+
+function getKey(identity: {uuid: string, name: string}): string {
+    return `${identity.uuid}/${identity.name}`;
+}
+
+function isSameRect(a: MonitorRect, b: MonitorRect): boolean {
+    return a.left === b.left && a.top === b.top && a.right === b.right && a.bottom === b.bottom;
+}
+
+export function getWidth(rect: MonitorRect): number {
+    return rect.right - rect.left;
+}
+
+export function getHeight(rect: MonitorRect): number {
+    return rect.bottom - rect.top;
+}
@@ -0,0 +1,191 @@
+import {ExportedApp, ExportedBounds, ExportedTabGroup, ExportedWindow, Layout, LayoutApp, LayoutExport, LayoutSnapGroup, TabBlob, TabIdentifier, WindowState} from '../../client/types';
+
+import {LAYOUT_EXPORT_VERSION, LAYOUT_VERSION, migrateLayout} from './migrations';
+import {getHeight, getMonitors, getNearestMonitor, getWidth, LayoutMonitor, LayoutMonitorInfo, MonitorRect} from './monitors';
+import {validateLayout, validateLayoutExport} from './schema';
+
+/**
+ * Prefix of the placeholder windows created by the service whilst a layout is being restored. Placeholders only exist
+ * on the machine that created them, so are never exported.
+ */
+const PLACEHOLDER_PREFIX = 'Placeholder-';
+
+/**
+ * Converts a layout into the portable export format.
+ *
+ * Windows are positioned relative to the work area of whichever monitor they were on when the layout was generated, so
+ * the layout must contain the monitor info of that machine.
+ *
+ * @param input A layout, such as the layout returned by generateLayout. May have been saved by any version of the service.
+ */
+export function exportLayout(input: Layout): LayoutExport {
+    const layout: Layout = migrateLayout(input);
+    validateLayout(layout);
+
+    const monitors: LayoutMonitor[] = getMonitors(layout.monitorInfo);
+    if (monitors.length === 0) {
+        throw new Error('Unable to export layout: layout does not contain any monitor info');
+    }
+
+    const exportBounds = (left: number, top: number, width: number, height: number): ExportedBounds => {
+        const monitor: LayoutMonitor = getNearestMonitor(monitors, {left, top, right: left + width, bottom: top + height});
+        const workArea: MonitorRect = monitor.availableRect;
+
+        return {monitor: monitors.indexOf(monitor), left: left - workArea.left, top: top - workArea.top, width, height};
+    };
+    const exportWindow = (window: WindowState): ExportedWindow => {
+        const {name, state, isShowing, frame, isTabbed, customData} = window;
+        const url: string|undefined = window.info && typeof window.info.url === 'string' ? window.info.url : undefined;
+
+        return {name, url, bounds: exportBounds(window.left, window.top, window.width, window.height), state, isShowing, frame, isTabbed, customData};
+    };
+
+    const apps: ExportedApp[] = layout.apps.map((app: LayoutApp): ExportedApp => {
+        const {uuid, manifestUrl, confirmed, customData} = app;
+        const url: string|undefined = !manifestUrl && app.initialOptions ? app.initialOptions.url : undefined;
+
+        return {
+            appId: uuid,
+            manifestUrl,
+            url,
+            confirmed,
+            customData,
+            mainWindow: exportWindow(app.mainWindow),
+            childWindows: app.childWindows.filter(isNotPlaceholder).map(exportWindow)
+        };
+    });
+
+    const tabGroups: ExportedTabGroup[] = [];
+    layout.tabGroups.forEach((tabGroup: TabBlob) => {
+        const {url, active, dimensions} = tabGroup.groupInfo;
+        const tabs: TabIdentifier[] = tabGroup.tabs.filter(isNotPlaceholder);
+
+        if (tabs.length > 1) {
+            tabGroups.push({
+                url,
+                active: isNotPlaceholder(active) ? active : tabs[0],
+                tabs,
+                bounds: exportBounds(dimensions.x, dimensions.y, dimensions.width, dimensions.tabGroupHeight + dimensions.appHeight),
+                tabGroupHeight: dimensions.tabGroupHeight
+            });
+        }
+    });
+
+    const snapGroups: LayoutSnapGroup[] =
+        layout.snapGroups.map(group => ({...group, windows: group.windows.filter(isNotPlaceholder)})).filter(group => group.windows.length > 1);
+
+    return {
+        type: 'layout-export',
+        version: LAYOUT_EXPORT_VERSION,
+        monitors: monitors.map(monitor => getSize(monitor.availableRect)),
+        apps,
+        tabGroups,
+        snapGroups
+    };
+}
+
+/**
+ * Converts an exported layout back into a layout, that can then be passed to restoreLayout.
+ *
+ * Each monitor within the export is mapped to the current monitor with the same index (the primary monitor is always
+ * mapped to the current primary monitor). Any monitors that no longer exist are mapped to the primary monitor. Windows
+ * are scaled from the size of their exported work area to the size of the work area of the current monitor.
+ *
+ * @param layoutExport An exported layout, as returned by exportLayout
+ * @param currentInfo Monitor info of the machine that the layout is being imported on
+ */
+export function importLayout(layoutExport: LayoutExport, currentInfo: LayoutMonitorInfo): Layout {
+    validateLayoutExport(layoutExport);
+
+    const monitors: LayoutMonitor[] = getMonitors(currentInfo);
+    if (monitors.length === 0) {
+        throw new Error('Unable to import layout: monitor info not available');
+    }
+
+    const getScale = (bounds: ExportedBounds) => {
+        const exported = layoutExport.monitors[bounds.monitor];
+        if (!exported) {
+            throw new Error(`Received invalid layout export: monitor ${bounds.monitor} does not exist`);
+        }
+
+        const workArea: MonitorRect = (monitors[bounds.monitor] || monitors[0]).availableRect;
+        return {workArea, x: getWidth(workArea) / exported.width, y: getHeight(workArea) / exported.height};
+    };
+    const importBounds = (bounds: ExportedBounds) => {
+        const {workArea, x, y} = getScale(bounds);
+        const left = Math.round(workArea.left + bounds.left * x), top = Math.round(workArea.top + bounds.top * y);
+        const right = Math.round(workArea.left + (bounds.left + bounds.width) * x), bottom = Math.round(workArea.top + (bounds.top + bounds.height) * y);
+
+        return {left, top, width: right - left, height: bottom - top};
+    };
+    const importWindow = (appId: string, window: ExportedWindow): WindowState => {
+        const {name, url, state, isShowing, frame, isTabbed, customData} = window;
+        const windowGroup: TabIdentifier[] = getWindowGroup(layoutExport.snapGroups, {uuid: appId, name});
+
+        return {uuid: appId, name, ...importBounds(window.bounds), state, isShowing, frame, isTabbed, info: url ? {url} : {}, windowGroup, customData};
+    };
+    const findWindow = (identity: TabIdentifier): ExportedWindow|undefined => {
+        const app: ExportedApp|undefined = layoutExport.apps.find(app => app.appId === identity.uuid);
+        return app && [app.mainWindow, ...app.childWindows].find(window => window.name === identity.name);
+    };
+
+    const apps: LayoutApp[] = layoutExport.apps.map((app: ExportedApp): LayoutApp => {
+        const {appId, manifestUrl, url, confirmed, customData} = app;
+
+        return {
+            uuid: appId,
+            manifestUrl,
+            initialOptions: url ? {uuid: appId, name: appId, url} : undefined,
+            confirmed,
+            customData,
+            mainWindow: importWindow(appId, app.mainWindow),
+            childWindows: app.childWindows.map(window => importWindow(appId, window))
+        };
+    });
+
+    const tabGroups: TabBlob[] = layoutExport.tabGroups.map((tabGroup: ExportedTabGroup): TabBlob => {
+        const {url, active, tabs, tabGroupHeight} = tabGroup;
+        const {left, top, width, height} = importBounds(tabGroup.bounds);
+
+        return {groupInfo: {url, active, dimensions: {x: left, y: top, width, tabGroupHeight, appHeight: Math.max(height - tabGroupHeight, 0)}}, tabs};
+    });
+
+    // Offsets within each snap group are scaled by the same amount as the group's windows
+    const snapGroups: LayoutSnapGroup[] = layoutExport.snapGroups.map((group: LayoutSnapGroup): LayoutSnapGroup => {
+        const anchor: ExportedWindow|undefined = group.windows.map(findWindow).find(window => !!window);
+        const scale = anchor ? getScale(anchor.bounds) : {x: 1, y: 1};
+
+        return {
+            id: group.id,
+            windows: group.windows.map(window => {
+                const {uuid, name, offset, width, height} = window;
+
+                // Both edges are scaled, so that adjacent windows remain flush after rounding
+                const left = Math.round(offset.x * scale.x), top = Math.round(offset.y * scale.y);
+                const right = Math.round((offset.x + width) * scale.x), bottom = Math.round((offset.y + height) * scale.y);
+
+                return {uuid, name, offset: {x: left, y: top}, width: right - left, height: bottom - top};
+            })
+        };
+    });
+
+    return {type: 'layout', version: LAYOUT_VERSION, monitorInfo: currentInfo, apps, tabGroups, snapGroups};
+}
+
+/**
+ * Returns the other windows within the snap group of the given window
+ */
+function getWindowGroup(snapGroups: LayoutSnapGroup[], identity: TabIdentifier): TabIdentifier[] {
+    const isWindow = (window: TabIdentifier) => window.uuid === identity.uuid && window.name === identity.name;
+    const group: LayoutSnapGroup|undefined = snapGroups.find(group => group.windows.some(isWindow));
+
+    return group ? group.windows.filter(window => !isWindow(window)).map(({uuid, name}) => ({uuid, name})) : [];
+}
+
+function isNotPlaceholder(identity: {name: string}): boolean {
+    return !identity.name.startsWith(PLACEHOLDER_PREFIX);
+}
+
+function getSize(rect: MonitorRect): {width: number, height: number} {
+    return {width: getWidth(rect), height: getHeight(rect)};
+}
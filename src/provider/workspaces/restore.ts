@@ -2,16 +2,22 @@ import {Application} from 'hadouken-js-adapter/out/types/src/api/application/app
 import {_Window} from 'hadouken-js-adapter/out/types/src/api/window/window';
 import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
 
-import {Layout, LayoutApp, LayoutName, WindowState} from '../../client/types';
-import {providerChannel} from '../main';
+import {Layout, LayoutApp, LayoutAppResult, LayoutName, LayoutResult, RestoreLayoutOptions, WindowState} from '../../client/types';
+import {providerChannel, snapService} from '../main';
+import {Transition} from '../snapanddock/AnimationConfigManager';
 import {WindowIdentity} from '../snapanddock/SnapWindow';
-import {p, promiseMap} from '../snapanddock/utils/async';
+import {p, promiseMap, withTimeout} from '../snapanddock/utils/async';
 import {removeTab} from '../tabbing/SaveAndRestoreAPI';
 import {TabService} from '../tabbing/TabService';
 import {createTabGroupsFromTabBlob} from '../tabbing/TabUtilities';
 
-import {regroupLayout} from './group';
-import {addToWindowObject, childWindowPlaceholderCheck, childWindowPlaceholderCheckRunningApp, createNormalPlaceholder, createTabbedPlaceholderAndRecord, getClientConnection, inWindowObject, positionWindow, TabbedPlaceholders, wasCreatedProgrammatically, WindowObject} from './utils';
+import {getWorkspaceConfig} from './config';
+import {filterLayout, LayoutSubset} from './filter';
+import {restoreSnapGroups} from './group';
+import {migrateLayout} from './migrations';
+import {LayoutMonitorInfo, remapLayout} from './monitors';
+import {validateLayout} from './schema';
+import {addToWindowObject, childWindowPlaceholderCheck, childWindowPlaceholderCheckRunningApp, createNormalPlaceholder, createProgressReporter, createTabbedPlaceholderAndRecord, getClientConnection, inWindowObject, positionWindow, TabbedPlaceholders, wasCreatedProgrammatically, WindowObject} from './utils';
 
 const appsToRestore = new Map();
 
@@ -46,25 +52,31 @@ export const restoreApplication = async(layoutApp: LayoutApp, resolve: Function)
     }
 };
 
-export const restoreLayout = async(payload: Layout, identity: Identity): Promise<Layout> => {
+export const restoreLayout = async(payload: Layout, identity: Identity|null, options?: RestoreLayoutOptions): Promise<LayoutResult> => {
     // Guards against invalid layout objects (since we are receiving them over the service bus, this is in theory possible)
     // These allow us to return sensible error messages back to the consumer
-    if (!payload) {
+    if (!payload || typeof payload !== 'object') {
         throw new Error('Received invalid layout object');
     }
-    if (!payload.apps) {
-        throw new Error('Received invalid layout object: layout.apps is undefined');
-    }
-    if (!payload.monitorInfo) {
-        throw new Error('Received invalid layout object: layout.monitorInfo is undefined');
-    }
 
-    const layout = payload;
-    const startupApps: Promise<LayoutApp>[] = [];
+    // Upgrade layouts saved by older versions of the service, before checking the layout matches the current format
+    const fullLayout: Layout = migrateLayout(payload);
+    validateLayout(fullLayout);
+
+    // Only restore the part of the layout selected by the options, if any were given
+    const {layout, excludedWindows}: LayoutSubset = options ? filterLayout(fullLayout, options) : {layout: fullLayout, excludedWindows: []};
+
+    // Move windows onto the current monitors, if the layout was saved with a different monitor setup
+    remapLayout(layout, await fin.System.getMonitorInfo() as LayoutMonitorInfo);
+
     const tabbedWindows: WindowObject = {};
     const openWindows: WindowObject = {};
     const tabbedPlaceholdersToWindows: TabbedPlaceholders = {};
 
+    // Main windows that weren't selected by the restore options are left where they are, if their app is running
+    const excludedMainWindows: WindowObject = {};
+    excludedWindows.forEach(window => addToWindowObject(window, excludedMainWindows));
+
     // Create tabbedWindows list so we don't have to iterate over all of the tabGroup/TabBlob arrays.
     layout.tabGroups.forEach((tabGroup) => {
         tabGroup.tabs.forEach(tabWindow => {
@@ -93,7 +105,9 @@ export const restoreLayout = async(payload: Layout, identity: Identity): Promise
         const isRunning = await p<boolean>(ofApp.isRunning.bind(ofApp))();
         if (isRunning) {
             // Should de-tab here.
-            await removeTab(app.mainWindow);
+            if (!inWindowObject(app.mainWindow, excludedMainWindows)) {
+                await removeTab(app.mainWindow);
+            }
 
             // Need to check its child windows here, if confirmed.
             await childWindowPlaceholderCheckRunningApp(app, tabbedWindows, tabbedPlaceholdersToWindows, openWindows);
@@ -129,9 +143,21 @@ export const restoreLayout = async(payload: Layout, identity: Identity): Promise
 
     await createTabGroupsFromTabBlob(layout.tabGroups);
 
-    const apps = await promiseMap(layout.apps, async(app: LayoutApp): Promise<LayoutApp> => {
+    const transition: Transition|null = snapService.animationConfigManager.getTransition('restore');
+    const positionMainWindow = async (app: LayoutApp) => {
+        if (!inWindowObject(app.mainWindow, excludedMainWindows)) {
+            await positionWindow(app.mainWindow, transition);
+        }
+    };
+
+    const {restoreTimeout} = await getWorkspaceConfig();
+    const reportProgress = createProgressReporter('restore', identity, layout.apps.length);
+
+    const results = await promiseMap(layout.apps, async(app: LayoutApp): Promise<[LayoutApp, LayoutAppResult]> => {
         // Get rid of childWindows for default response (anything else?)
         const defaultResponse = {...app, childWindows: []};
+        let response: LayoutApp = defaultResponse;
+        let result: LayoutAppResult = {uuid: app.uuid, status: 'success'};
         try {
             const {uuid} = app;
             const name = uuid;
@@ -141,26 +167,31 @@ export const restoreLayout = async(payload: Layout, identity: Identity): Promise
             if (isRunning) {
                 const appConnection = getClientConnection({uuid, name});
                 if (appConnection) {
-                    await positionWindow(app.mainWindow);
+                    await positionMainWindow(app);
                     console.log('App is running:', app);
                     // Send LayoutApp to connected application so it can handle child windows
-                    const response: LayoutApp|false = await providerChannel.dispatch(appConnection, 'restoreApp', app);
-                    console.log('Response from restore:', response);
-                    return response ? response : defaultResponse;
+                    const restored = await withTimeout<LayoutApp|false>(restoreTimeout, providerChannel.dispatch(appConnection, 'restoreApp', app));
+                    console.log('Response from restore:', restored.value);
+                    if (restored.timedOut) {
+                        console.warn(`Application ${uuid} did not restore within ${restoreTimeout}ms`);
+                        result = {uuid, status: 'timeout'};
+                    } else if (restored.value) {
+                        response = restored.value;
+                    }
                 } else {
                     // Not connected to service
-                    await positionWindow(app.mainWindow);
-                    return defaultResponse;
+                    await positionMainWindow(app);
                 }
             } else {
                 let ofAppNotRunning: undefined|Application;
+                let startup: Promise<LayoutApp>|undefined;
                 console.log('App is not running:', app);
 
                 // App is not running - setup communication to fire once app is started
                 if (app.confirmed) {
-                    startupApps.push(new Promise((resolve: (layoutApp: LayoutApp) => void) => {
+                    startup = new Promise((resolve: (layoutApp: LayoutApp) => void) => {
                         setAppToRestore(app, resolve);
-                    }));
+                    });
                 }
                 // Start App
                 if (app.manifestUrl) {
@@ -175,6 +206,8 @@ export const restoreLayout = async(payload: Layout, identity: Identity): Promise
                         ofAppNotRunning = await fin.Application.create(app.initialOptions);
                     } else {
                         console.error('Unable to restart programmatically launched app:', app);
+                        appsToRestore.delete(uuid);
+                        result = {uuid, status: 'failed', error: 'Application was created programmatically, and can not be restarted'};
                     }
                 }
 
@@ -187,26 +220,32 @@ export const restoreLayout = async(payload: Layout, identity: Identity): Promise
                     };
                     await ofAppNRWindow.addListener('show-requested', updateOptionsAndShow);
                     await ofAppNotRunning.run().catch(console.log);
-                    await positionWindow(app.mainWindow);
+                    await positionWindow(app.mainWindow, transition);
+
+                    // Wait for the app to start up and restore it's child windows. An app that starts after the timeout
+                    // will still be sent it's part of the layout, but won't be included in the response.
+                    if (startup) {
+                        const started = await withTimeout(restoreTimeout, startup);
+                        if (started.timedOut) {
+                            console.warn(`Application ${uuid} did not start within ${restoreTimeout}ms`);
+                            result = {uuid, status: 'timeout'};
+                        } else {
+                            response = started.value!;
+                        }
+                    }
                 }
-                // SHOULD WE RETURN DEFAULT RESPONSE HERE?!?
-                return defaultResponse;
             }
         } catch (e) {
             console.error('Error restoring app', app, e);
-            return defaultResponse;
+            result = {uuid: app.uuid, status: 'failed', error: e instanceof Error ? e.message : String(e)};
         }
+
+        reportProgress(result);
+        return [response, result];
     });
-    // Wait for all apps to startup
-    const startupResponses = await Promise.all(startupApps);
-    // Consolidate application responses
-    const allAppResponses = apps.map(app => {
-        const appResponse = startupResponses.find(appRes => appRes.uuid === app.uuid);
-        return appResponse ? appResponse : app;
-    });
-    layout.apps = allAppResponses;
+    layout.apps = results.map(([app]) => app);
     // Regroup the windows
-    await regroupLayout(allAppResponses).catch(console.log);
-    // Send the layout back to the requester of the restore
-    return layout;
+    restoreSnapGroups(layout.snapGroups);
+    // Send the layout back to the requester of the restore, along with the outcome for each app
+    return {layout, apps: results.map(([, result]) => result)};
 };
@@ -0,0 +1,224 @@
+import Ajv from 'ajv';
+
+import {Layout, LayoutExport} from '../../client/types';
+
+import {LAYOUT_EXPORT_VERSION, LAYOUT_VERSION} from './migrations';
+
+const IDENTITY_SCHEMA = {
+    type: 'object',
+    required: ['uuid', 'name'],
+    properties: {uuid: {type: 'string'}, name: {type: 'string'}}
+};
+
+const WINDOW_SCHEMA = {
+    type: 'object',
+    required: ['uuid', 'name', 'left', 'top', 'width', 'height', 'isShowing', 'state', 'frame', 'windowGroup', 'isTabbed'],
+    properties: {
+        uuid: {type: 'string'},
+        name: {type: 'string'},
+        left: {type: 'number'},
+        top: {type: 'number'},
+        width: {type: 'number', minimum: 0},
+        height: {type: 'number', minimum: 0},
+        right: {type: 'number'},
+        bottom: {type: 'number'},
+        isShowing: {type: 'boolean'},
+        state: {type: 'string'},
+        frame: {type: 'boolean'},
+        windowGroup: {type: 'array', items: {type: 'object', required: ['uuid'], properties: {uuid: {type: 'string'}, name: {type: 'string'}}}},
+        isTabbed: {type: 'boolean'}
+    }
+};
+
+const SNAP_GROUPS_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: ['id', 'windows'],
+        properties: {
+            id: {type: 'number'},
+            windows: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['uuid', 'name', 'offset', 'width', 'height'],
+                    properties: {
+                        uuid: {type: 'string'},
+                        name: {type: 'string'},
+                        offset: {type: 'object', required: ['x', 'y'], properties: {x: {type: 'number'}, y: {type: 'number'}}},
+                        width: {type: 'number', minimum: 0},
+                        height: {type: 'number', minimum: 0}
+                    }
+                }
+            }
+        }
+    }
+};
+
+/**
+ * JSON schema of the current version of the layout format. Applications may add their own data to a layout (within
+ * 'customData'), so any properties that aren't listed here are permitted.
+ */
+export const LAYOUT_SCHEMA = {
+    type: 'object',
+    required: ['type', 'version', 'monitorInfo', 'apps', 'tabGroups', 'snapGroups'],
+    properties: {
+        type: {const : 'layout'},
+        version: {const : LAYOUT_VERSION},
+        monitorInfo: {type: 'object'},
+        apps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['uuid', 'mainWindow', 'childWindows'],
+                properties: {
+                    uuid: {type: 'string'},
+                    manifestUrl: {type: 'string'},
+                    initialOptions: {type: 'object'},
+                    confirmed: {type: 'boolean'},
+                    mainWindow: WINDOW_SCHEMA,
+                    childWindows: {type: 'array', items: WINDOW_SCHEMA}
+                }
+            }
+        },
+        tabGroups: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['groupInfo', 'tabs'],
+                properties: {
+                    groupInfo: {
+                        type: 'object',
+                        required: ['url', 'active', 'dimensions'],
+                        properties: {
+                            url: {type: 'string'},
+                            active: IDENTITY_SCHEMA,
+                            dimensions: {
+                                type: 'object',
+                                required: ['x', 'y', 'width', 'tabGroupHeight', 'appHeight'],
+                                properties: {
+                                    x: {type: 'number'},
+                                    y: {type: 'number'},
+                                    width: {type: 'number', minimum: 0},
+                                    tabGroupHeight: {type: 'number', minimum: 0},
+                                    appHeight: {type: 'number', minimum: 0}
+                                }
+                            }
+                        }
+                    },
+                    tabs: {type: 'array', items: IDENTITY_SCHEMA}
+                }
+            }
+        },
+        snapGroups: SNAP_GROUPS_SCHEMA
+    }
+};
+
+const EXPORTED_BOUNDS_SCHEMA = {
+    type: 'object',
+    required: ['monitor', 'left', 'top', 'width', 'height'],
+    properties: {
+        monitor: {type: 'integer', minimum: 0},
+        left: {type: 'number'},
+        top: {type: 'number'},
+        width: {type: 'number', minimum: 0},
+        height: {type: 'number', minimum: 0}
+    }
+};
+
+const EXPORTED_WINDOW_SCHEMA = {
+    type: 'object',
+    required: ['name', 'bounds', 'state', 'isShowing', 'frame', 'isTabbed'],
+    properties: {
+        name: {type: 'string'},
+        url: {type: 'string'},
+        bounds: EXPORTED_BOUNDS_SCHEMA,
+        state: {type: 'string'},
+        isShowing: {type: 'boolean'},
+        frame: {type: 'boolean'},
+        isTabbed: {type: 'boolean'}
+    }
+};
+
+/**
+ * JSON schema of the current version of the export format. As with layouts, any properties that aren't listed here
+ * are permitted.
+ */
+export const LAYOUT_EXPORT_SCHEMA = {
+    type: 'object',
+    required: ['type', 'version', 'monitors', 'apps', 'tabGroups', 'snapGroups'],
+    properties: {
+        type: {const : 'layout-export'},
+        version: {const : LAYOUT_EXPORT_VERSION},
+        monitors: {
+            type: 'array',
+            minItems: 1,
+            items: {type: 'object', required: ['width', 'height'], properties: {width: {type: 'number', minimum: 1}, height: {type: 'number', minimum: 1}}}
+        },
+        apps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['appId', 'mainWindow', 'childWindows'],
+                properties: {
+                    appId: {type: 'string'},
+                    manifestUrl: {type: 'string'},
+                    url: {type: 'string'},
+                    confirmed: {type: 'boolean'},
+                    mainWindow: EXPORTED_WINDOW_SCHEMA,
+                    childWindows: {type: 'array', items: EXPORTED_WINDOW_SCHEMA}
+                }
+            }
+        },
+        tabGroups: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['url', 'active', 'tabs', 'bounds', 'tabGroupHeight'],
+                properties: {
+                    url: {type: 'string'},
+                    active: IDENTITY_SCHEMA,
+                    tabs: {type: 'array', items: IDENTITY_SCHEMA},
+                    bounds: EXPORTED_BOUNDS_SCHEMA,
+                    tabGroupHeight: {type: 'number', minimum: 0}
+                }
+            }
+        },
+        snapGroups: SNAP_GROUPS_SCHEMA
+    }
+};
+
+const ajv = new Ajv({allErrors: true, errorDataPath: 'property'});
+const layoutValidator = ajv.compile(LAYOUT_SCHEMA);
+const exportValidator = ajv.compile(LAYOUT_EXPORT_SCHEMA);
+
+/**
+ * Checks that a layout matches the current version of the layout format. Layouts from older versions of the service
+ * must be migrated before being validated.
+ *
+ * Throws an error listing every problem with the layout, along with the path to each invalid value - for example,
+ * 'layout.apps[0].mainWindow.left should be number' or 'layout.monitorInfo is undefined'.
+ *
+ * @param layout A layout, as received from a client
+ */
+export function validateLayout(layout: Layout): void {
+    if (!layoutValidator(layout)) {
+        throw new Error(`Received invalid layout object: ${getErrors(layoutValidator.errors!)}`);
+    }
+}
+
+/**
+ * Checks that an exported layout matches the current version of the export format. Errors are reported in the same
+ * way as validateLayout.
+ *
+ * @param layoutExport An exported layout, as received from a client
+ */
+export function validateLayoutExport(layoutExport: LayoutExport): void {
+    if (!exportValidator(layoutExport)) {
+        throw new Error(`Received invalid layout export: ${getErrors(exportValidator.errors!)}`);
+    }
+}
+
+function getErrors(errors: Ajv.ErrorObject[]): string {
+    return errors.map(error => `layout${error.dataPath} ${error.keyword === 'required' ? 'is undefined' : error.message}`).join(', ');
+}
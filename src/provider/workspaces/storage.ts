@@ -0,0 +1,241 @@
+import {ChannelProvider} from 'hadouken-js-adapter/out/types/src/api/interappbus/channel/provider';
+import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
+
+import {Layout, LayoutMetadata, LayoutName, LayoutStorage, SetStoredLayoutPayload, StoredLayout} from '../../client/types';
+
+import {migrateLayout} from './migrations';
+import {validateLayout} from './schema';
+
+/**
+ * Name of the IndexedDB database and object store used by the default storage backend
+ */
+const DATABASE_NAME = 'layouts-service';
+const STORE_NAME = 'layouts';
+
+/**
+ * Holds the layouts that have been saved by name. Layouts are persisted using a storage backend - by default, layouts
+ * are kept in IndexedDB, but an application can take over storage by registering it's own backend.
+ *
+ * The store is responsible for validating layouts and maintaining their metadata, backends only need to read and write
+ * the layouts they are given.
+ */
+export class LayoutStore {
+    private defaultBackend: LayoutStorage|null;
+    private backend: LayoutStorage|null;
+
+    /**
+     * The window that provided 'backend', if any. Only this window may replace or reset the backend.
+     */
+    private owner: Identity|null;
+
+    /**
+     * @param defaultBackend The backend to use when no application has registered it's own backend. If not specified, an IndexedDB backend is created when
+     * first needed.
+     */
+    constructor(defaultBackend?: LayoutStorage) {
+        this.defaultBackend = defaultBackend || null;
+        this.backend = null;
+        this.owner = null;
+    }
+
+    /**
+     * Replaces the backend used to store layouts. Layouts within the previous backend are not copied to the new backend.
+     *
+     * Only one window can provide a backend at a time. Once a window has provided a backend, any other window that
+     * attempts to replace or reset it will receive an error.
+     *
+     * @param backend The backend to use, or null to return to the default backend
+     * @param owner The window that is providing (or removing) the backend
+     */
+    public setBackend(backend: LayoutStorage|null, owner: Identity): void {
+        if (this.owner && !this.isOwner(owner)) {
+            throw new Error(`Layout storage can only be replaced or reset by the window that provided it (${this.owner.uuid}/${this.owner.name})`);
+        }
+
+        this.backend = backend;
+        this.owner = backend ? {uuid: owner.uuid, name: owner.name} : null;
+    }
+
+    /**
+     * Returns to the default backend if the current backend was provided by the given window. Should be called when a
+     * window closes, as layouts can no longer be read from that window's backend.
+     *
+     * @param identity A window that has closed
+     */
+    public releaseBackend(identity: Identity): void {
+        if (this.owner && this.isOwner(identity)) {
+            this.backend = null;
+            this.owner = null;
+        }
+    }
+
+    /**
+     * Saves a layout, replacing any existing layout with the same name. Layouts are migrated to the current layout
+     * format and validated before being stored.
+     *
+     * @param name The name to save the layout as
+     * @param layout The layout to save
+     */
+    public async saveLayout(name: LayoutName, layout: Layout): Promise<LayoutMetadata> {
+        this.validateName(name);
+
+        const migratedLayout: Layout = migrateLayout(layout);
+        validateLayout(migratedLayout);
+
+        const existing: StoredLayout|null = await this.getBackend().get(name);
+        const now: number = Date.now();
+        const metadata: LayoutMetadata = {name, created: existing ? existing.metadata.created : now, modified: now};
+
+        await this.getBackend().set(name, {metadata, layout: migratedLayout});
+        return metadata;
+    }
+
+    /**
+     * Returns the layout with the given name. Throws an error if no such layout exists.
+     */
+    public async getLayout(name: LayoutName): Promise<Layout> {
+        this.validateName(name);
+
+        const stored: StoredLayout|null = await this.getBackend().get(name);
+        if (!stored) {
+            throw new Error(`No layout found with name "${name}"`);
+        }
+
+        return stored.layout;
+    }
+
+    /**
+     * Returns the metadata of every saved layout, ordered by name.
+     */
+    public async listLayouts(): Promise<LayoutMetadata[]> {
+        const layouts: LayoutMetadata[] = await this.getBackend().list();
+        return layouts.slice().sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Removes the layout with the given name. Throws an error if no such layout exists.
+     */
+    public async deleteLayout(name: LayoutName): Promise<void> {
+        this.validateName(name);
+
+        if (!await this.getBackend().delete(name)) {
+            throw new Error(`No layout found with name "${name}"`);
+        }
+    }
+
+    private getBackend(): LayoutStorage {
+        if (this.backend) {
+            return this.backend;
+        } else if (!this.defaultBackend) {
+            this.defaultBackend = new IndexedDBStorage();
+        }
+
+        return this.defaultBackend;
+    }
+
+    private validateName(name: LayoutName): void {
+        if (typeof name !== 'string' || name.length === 0) {
+            throw new Error('Invalid layout name provided');
+        }
+    }
+
+    private isOwner(identity: Identity): boolean {
+        return !!this.owner && this.owner.uuid === identity.uuid && this.owner.name === identity.name;
+    }
+}
+
+/**
+ * The default storage backend. Stores layouts within an IndexedDB database owned by the service.
+ */
+export class IndexedDBStorage implements LayoutStorage {
+    private databaseName: string;
+    private database: Promise<IDBDatabase>|null = null;
+
+    /**
+     * @param databaseName Name of the database to store layouts within. Each database holds a separate set of layouts.
+     */
+    constructor(databaseName: string = DATABASE_NAME) {
+        this.databaseName = databaseName;
+    }
+
+    public async get(name: LayoutName): Promise<StoredLayout|null> {
+        const layout: StoredLayout|undefined = await this.request<StoredLayout|undefined>('readonly', store => store.get(name));
+        return layout || null;
+    }
+
+    public async set(name: LayoutName, layout: StoredLayout): Promise<void> {
+        await this.request('readwrite', store => store.put(layout, name));
+    }
+
+    public async delete(name: LayoutName): Promise<boolean> {
+        if (await this.get(name)) {
+            await this.request('readwrite', store => store.delete(name));
+            return true;
+        } else {
+            return false;
+        }
+    }
+
+    public async list(): Promise<LayoutMetadata[]> {
+        const layouts: StoredLayout[] = await this.request<StoredLayout[]>('readonly', store => store.getAll());
+        return layouts.map(layout => layout.metadata);
+    }
+
+    private async request<T>(mode: 'readonly'|'readwrite', action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const database: IDBDatabase = await this.openDatabase();
+
+        return new Promise<T>((resolve, reject) => {
+            const request: IDBRequest = action(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private openDatabase(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise<IDBDatabase>((resolve, reject) => {
+                const request: IDBOpenDBRequest = indexedDB.open(this.databaseName, 1);
+
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(STORE_NAME);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+
+        return this.database;
+    }
+}
+
+/**
+ * A storage backend provided by an application. Each request is forwarded to that application over the service's
+ * channel, where it is handled by the backend passed to the client's setLayoutStorage function.
+ */
+export class ChannelStorage implements LayoutStorage {
+    private channel: ChannelProvider;
+    private identity: Identity;
+
+    constructor(channel: ChannelProvider, identity: Identity) {
+        this.channel = channel;
+        this.identity = identity;
+    }
+
+    public get(name: LayoutName): Promise<StoredLayout|null> {
+        return this.channel.dispatch(this.identity, 'getStoredLayout', name);
+    }
+
+    public set(name: LayoutName, layout: StoredLayout): Promise<void> {
+        const payload: SetStoredLayoutPayload = {name, layout};
+        return this.channel.dispatch(this.identity, 'setStoredLayout', payload);
+    }
+
+    public delete(name: LayoutName): Promise<boolean> {
+        return this.channel.dispatch(this.identity, 'deleteStoredLayout', name);
+    }
+
+    public list(): Promise<LayoutMetadata[]> {
+        return this.channel.dispatch(this.identity, 'listStoredLayouts');
+    }
+}
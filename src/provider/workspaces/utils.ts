@@ -4,7 +4,8 @@ import {ChannelProvider} from 'hadouken-js-adapter/out/types/src/api/interappbus
 import {_Window} from 'hadouken-js-adapter/out/types/src/api/window/window';
 import {Identity} from 'hadouken-js-adapter/out/types/src/identity';
 
-import {LayoutApp, TabIdentifier, WindowState} from '../../client/types';
+import {LayoutApp, LayoutAppResult, LayoutProgressEventPayload, TabIdentifier, WindowState} from '../../client/types';
+import {Transition} from '../snapanddock/AnimationConfigManager';
 import {WindowIdentity} from '../snapanddock/SnapWindow';
 import {removeTab, swapTab} from '../tabbing/SaveAndRestoreAPI';
 
@@ -36,16 +37,41 @@ export const sendToClient = async (identity: Identity, action: string, payload:
     }
 };
 
+/**
+ * Returns a function that should be called each time an application within a layout has been saved or restored. Sends
+ * a 'layout-progress' event to the application that requested the operation, if there is one.
+ */
+export const createProgressReporter = (operation: 'generate'|'restore', identity: Identity|null, total: number) => {
+    let completed = 0;
+
+    return (app: LayoutAppResult): void => {
+        completed++;
+
+        if (identity) {
+            const payload: LayoutProgressEventPayload = {operation, app, completed, total};
+            sendToClient(identity, 'layout-progress', payload).catch(console.error);
+        }
+    };
+};
+
 // Positions a window when it is restored.
 // If the window is supposed to be tabbed, makes it leave its group to avoid tab collision bugs
 // Also given to the client to use.
-export const positionWindow = async (win: WindowState) => {
+// If a transition is given, the window is animated to it's restored bounds.
+export const positionWindow = async (win: WindowState, transition: Transition|null = null) => {
     try {
         const ofWin = await fin.Window.wrap(win);
         if (!win.isTabbed) {
             await ofWin.leaveGroup();
         }
-        await ofWin.setBounds(win);
+
+        if (transition) {
+            const {left, top, width, height} = win;
+            const {duration, easing} = transition;
+            await ofWin.animate({position: {left, top, duration}, size: {width, height, duration}}, {interrupt: true, tween: easing});
+        } else {
+            await ofWin.setBounds(win);
+        }
 
 
         // COMMENTED OUT FOR DEMO
@@ -0,0 +1,42 @@
+import 'jest';
+
+import {validateSerializable} from '../../src/client/validation';
+
+describe('Tests for validateSerializable', () => {
+    it('should accept JSON values', () => {
+        expect(() => validateSerializable({a: 'string', b: [1, true, null], c: {d: {}}}, 'data')).not.toThrow();
+    });
+
+    it('should treat a top-level value of undefined as no data', () => {
+        expect(() => validateSerializable(undefined, 'data')).not.toThrow();
+    });
+
+    it('should skip properties with a value of undefined', () => {
+        expect(() => validateSerializable({a: 1, b: undefined, c: {d: undefined}}, 'data')).not.toThrow();
+    });
+
+    it('should reject undefined array elements, which would be serialized as null', () => {
+        expect(() => validateSerializable({a: [1, undefined]}, 'data')).toThrow('data.a[1] can not be serialized (undefined)');
+    });
+
+    it('should accept values with a toJSON method', () => {
+        expect(() => validateSerializable({created: new Date(), custom: {toJSON: () => ({a: 1})}}, 'data')).not.toThrow();
+    });
+
+    it('should validate the result of a toJSON method', () => {
+        expect(() => validateSerializable({custom: {toJSON: () => ({a: NaN})}}, 'data')).toThrow('data.custom.a can not be serialized (NaN)');
+    });
+
+    it('should reject functions, class instances and non-finite numbers', () => {
+        expect(() => validateSerializable({a: () => {}}, 'data')).toThrow('data.a can not be serialized (function)');
+        expect(() => validateSerializable({a: new Map()}, 'data')).toThrow('data.a can not be serialized (object)');
+        expect(() => validateSerializable([Infinity], 'data')).toThrow('data[0] can not be serialized (Infinity)');
+    });
+
+    it('should reject circular references', () => {
+        const data: {[key: string]: unknown} = {};
+        data.self = data;
+
+        expect(() => validateSerializable(data, 'data')).toThrow('data.self contains a circular reference');
+    });
+});
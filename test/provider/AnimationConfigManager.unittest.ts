@@ -0,0 +1,102 @@
+import 'jest';
+
+import {AnimationConfigManager, AnimationTracker} from '../../src/provider/snapanddock/AnimationConfigManager';
+import {DEFAULT_ANIMATION_CONFIG} from '../../src/provider/snapanddock/Config';
+
+let configManager: AnimationConfigManager;
+
+beforeEach(() => {
+    configManager = new AnimationConfigManager();
+});
+
+describe('Tests for animation config', () => {
+    describe('Using the default config', () => {
+        it('should not animate any operations', () => {
+            expect(configManager.getConfig()).toEqual(DEFAULT_ANIMATION_CONFIG);
+            expect(configManager.getTransition('snap')).toBeNull();
+            expect(configManager.getTransition('restore')).toBeNull();
+        });
+    });
+
+    describe('Enabling animations', () => {
+        it('should animate every operation with the given duration', () => {
+            configManager.setConfig({duration: 200});
+
+            expect(configManager.getTransition('undock')).toEqual({duration: 200, easing: DEFAULT_ANIMATION_CONFIG.easing});
+            expect(configManager.getTransition('explode')).toEqual({duration: 200, easing: DEFAULT_ANIMATION_CONFIG.easing});
+        });
+
+        it('should only animate the specified operations', () => {
+            configManager.setConfig({duration: 200, easing: 'linear', operations: ['snap']});
+
+            expect(configManager.getTransition('snap')).toEqual({duration: 200, easing: 'linear'});
+            expect(configManager.getTransition('undock')).toBeNull();
+        });
+
+        it('should not be affected by later changes to the provided config', () => {
+            const operations: ('snap'|'undock')[] = ['snap'];
+            configManager.setConfig({duration: 200, operations});
+            operations.push('undock');
+
+            expect(configManager.getTransition('undock')).toBeNull();
+        });
+    });
+
+    describe('Providing invalid config', () => {
+        it('should reject unknown properties', () => {
+            expect(() => configManager.setConfig({foo: 1} as {})).toThrowError('unknown property "foo"');
+        });
+
+        it('should reject invalid values', () => {
+            expect(() => configManager.setConfig({duration: -1})).toThrowError('"duration" must be a non-negative number');
+            expect(() => configManager.setConfig({easing: 'bounce'} as {})).toThrowError('"easing" must be one of');
+            expect(() => configManager.setConfig({operations: ['tab']} as {})).toThrowError('"operations" must be an array of animated operations');
+            expect(configManager.getConfig()).toEqual(DEFAULT_ANIMATION_CONFIG);
+        });
+    });
+});
+
+describe('Tests for tracking window animations', () => {
+    let tracker: AnimationTracker;
+
+    beforeEach(() => {
+        tracker = new AnimationTracker();
+    });
+
+    it('should invoke the callback once the animation completes', () => {
+        const callback = jest.fn();
+        const onComplete = tracker.start(callback);
+
+        expect(tracker.isAnimating()).toBe(true);
+        expect(callback).not.toBeCalled();
+
+        onComplete();
+        expect(tracker.isAnimating()).toBe(false);
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should carry the callbacks of an interrupted animation over to the new animation', () => {
+        const order: string[] = [];
+        const onFirstComplete = tracker.start(() => order.push('first'));
+        const onSecondComplete = tracker.start(() => order.push('second'));
+
+        // The interrupted animation will still report completion, which should be ignored
+        onFirstComplete();
+        expect(tracker.isAnimating()).toBe(true);
+        expect(order).toEqual([]);
+
+        onSecondComplete();
+        expect(tracker.isAnimating()).toBe(false);
+        expect(order).toEqual(['first', 'second']);
+    });
+
+    it('should not invoke callbacks more than once', () => {
+        const callback = jest.fn();
+        const onComplete = tracker.start(callback);
+
+        onComplete();
+        tracker.start()();
+        onComplete();
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+});
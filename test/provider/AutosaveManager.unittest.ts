@@ -0,0 +1,241 @@
+import 'jest';
+
+import {AutosaveConfig, Layout, LayoutMetadata, LayoutName, LayoutResult, LayoutStorage, ServiceConfig, StoredLayout, WindowState} from '../../src/client/types';
+import {AutosaveManager} from '../../src/provider/AutosaveManager';
+import {Signal1, Signal2} from '../../src/provider/snapanddock/Signal';
+import {SnapGroup} from '../../src/provider/snapanddock/SnapGroup';
+import {SnapService} from '../../src/provider/snapanddock/SnapService';
+import {SnapWindow} from '../../src/provider/snapanddock/SnapWindow';
+import {TabGroup} from '../../src/provider/tabbing/TabGroup';
+import {TabService} from '../../src/provider/tabbing/TabService';
+import {generateLayout} from '../../src/provider/workspaces/create';
+import {LAYOUT_VERSION} from '../../src/provider/workspaces/migrations';
+import {restoreLayout} from '../../src/provider/workspaces/restore';
+import {LayoutStore} from '../../src/provider/workspaces/storage';
+
+let mockConfig: ServiceConfig;
+
+jest.mock('../../src/provider/workspaces/create', () => ({generateLayout: jest.fn()}));
+jest.mock('../../src/provider/workspaces/restore', () => ({restoreLayout: jest.fn()}));
+jest.mock('../../src/provider/manifest', () => ({
+    get serviceConfig() {
+        return Promise.resolve(mockConfig);
+    }
+}));
+
+class MemoryStorage implements LayoutStorage {
+    public layouts: Map<LayoutName, StoredLayout> = new Map();
+
+    public get(name: LayoutName): StoredLayout|null {
+        return this.layouts.get(name) || null;
+    }
+
+    public set(name: LayoutName, layout: StoredLayout): void {
+        this.layouts.set(name, layout);
+    }
+
+    public delete(name: LayoutName): boolean {
+        return this.layouts.delete(name);
+    }
+
+    public list(): LayoutMetadata[] {
+        return Array.from(this.layouts.values()).map(layout => layout.metadata);
+    }
+}
+
+function createWindow(): WindowState {
+    return {uuid: 'app', name: 'app', left: 100, top: 100, width: 400, height: 300, isShowing: true, state: 'normal', frame: false, info: {}, windowGroup: [], isTabbed: false};
+}
+
+function createLayoutResult(): LayoutResult {
+    const layout: Layout = {
+        type: 'layout',
+        version: LAYOUT_VERSION,
+        monitorInfo: {},
+        apps: [{uuid: 'app', mainWindow: createWindow(), childWindows: []}],
+        tabGroups: [],
+        snapGroups: []
+    };
+
+    return {layout, apps: [{uuid: 'app', status: 'success'}]};
+}
+
+/**
+ * Waits for any pending promise callbacks, since saving a snapshot involves several asynchronous steps
+ */
+async function flushPromises(): Promise<void> {
+    for (let i = 0; i < 20; i++) {
+        await Promise.resolve();
+    }
+}
+
+describe('Tests for autosave', () => {
+    const generate = generateLayout as jest.Mock;
+    let snapService: {onWindowAdded: Signal2<SnapGroup, SnapWindow>, onWindowRemoved: Signal2<SnapGroup, SnapWindow>};
+    let tabService: {onTabGroupChanged: Signal1<TabGroup>};
+    let storage: MemoryStorage;
+    let manager: AutosaveManager;
+    let now: number;
+    let dateNow: jest.SpyInstance<() => number>;
+
+    // Creates a manager (and services) using the current storage, as happens each time the service starts
+    function createManager(): void {
+        snapService = {onWindowAdded: new Signal2(), onWindowRemoved: new Signal2()};
+        tabService = {onTabGroupChanged: new Signal1()};
+        manager = new AutosaveManager(snapService as {} as SnapService, tabService as {} as TabService, new LayoutStore(storage));
+    }
+
+    async function start(config: Partial<AutosaveConfig>): Promise<void> {
+        mockConfig = {autosave: config};
+        await manager.start();
+    }
+
+    // Simulates a change to the layout, such as a window being added to a snap group
+    function changeLayout(): void {
+        const window = {onCommit: new Signal1(), onStateChanged: new Signal1(), onClose: new Signal1()};
+        snapService.onWindowAdded.emit({} as SnapGroup, window as {} as SnapWindow);
+    }
+
+    // Simulates a change to the layout, and waits for the resulting snapshot to be saved
+    async function saveSnapshot(): Promise<void> {
+        changeLayout();
+        jest.runAllTimers();
+        await flushPromises();
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        now = 1000;
+        dateNow = jest.spyOn(Date, 'now');
+        dateNow.mockImplementation(() => now++);
+
+        generate.mockReset();
+        generate.mockImplementation(async () => createLayoutResult());
+
+        storage = new MemoryStorage();
+        createManager();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        dateNow.mockRestore();
+    });
+
+    it('should not save snapshots unless autosave is enabled', async () => {
+        await start({});
+        changeLayout();
+        jest.runAllTimers();
+        await flushPromises();
+
+        expect(generate).not.toBeCalled();
+        expect(await manager.getSnapshots()).toEqual([]);
+    });
+
+    it('should save a single snapshot once the layout stops changing', async () => {
+        await start({enabled: true, delay: 1000});
+
+        changeLayout();
+        jest.advanceTimersByTime(800);
+        changeLayout();
+        jest.advanceTimersByTime(800);
+        expect(generate).not.toBeCalled();
+
+        jest.advanceTimersByTime(200);
+        await flushPromises();
+
+        expect(generate).toHaveBeenCalledTimes(1);
+        expect((await manager.getSnapshots()).length).toBe(1);
+    });
+
+    it('should save again once the current save completes if the layout changes whilst saving', async () => {
+        let completeSave: () => void = () => {};
+        generate.mockImplementationOnce(() => new Promise<LayoutResult>(resolve => {
+            completeSave = () => resolve(createLayoutResult());
+        }));
+        await start({enabled: true, delay: 1000});
+
+        changeLayout();
+        jest.advanceTimersByTime(1000);
+        changeLayout();
+        jest.advanceTimersByTime(1000);
+        await flushPromises();
+
+        // The second save is deferred until the first has completed
+        expect(generate).toHaveBeenCalledTimes(1);
+
+        completeSave();
+        await flushPromises();
+        jest.advanceTimersByTime(1000);
+        await flushPromises();
+
+        expect(generate).toHaveBeenCalledTimes(2);
+        expect((await manager.getSnapshots()).length).toBe(2);
+    });
+
+    it('should only keep the most recent snapshots', async () => {
+        await start({enabled: true, delay: 0, maxSnapshots: 2});
+
+        for (let i = 0; i < 3; i++) {
+            changeLayout();
+            jest.runAllTimers();
+            await flushPromises();
+        }
+
+        const snapshots: LayoutMetadata[] = await manager.getSnapshots();
+        const names: string[] = Array.from(storage.layouts.keys());
+
+        expect(generate).toHaveBeenCalledTimes(3);
+        expect(snapshots.length).toBe(2);
+        expect(snapshots[0].modified).toBeGreaterThan(snapshots[1].modified);
+        expect(names).toEqual(snapshots.map(snapshot => snapshot.name).reverse());
+    });
+
+    it('should keep the most recent snapshot from the previous session until it is restored', async () => {
+        const restore = restoreLayout as jest.Mock;
+        restore.mockImplementation(async (layout: Layout) => createLayoutResult());
+
+        await start({enabled: true, delay: 0, maxSnapshots: 2});
+        for (let i = 0; i < 2; i++) {
+            await saveSnapshot();
+        }
+        const previousSnapshot: LayoutName = (await manager.getSnapshots())[0].name;
+
+        // Restart the service, using the same storage
+        createManager();
+        await start({enabled: true, delay: 0, maxSnapshots: 2});
+        for (let i = 0; i < 3; i++) {
+            await saveSnapshot();
+        }
+
+        let names: LayoutName[] = (await manager.getSnapshots()).map(snapshot => snapshot.name);
+        expect(names.length).toBe(3);
+        expect(names[2]).toBe(previousSnapshot);
+
+        // Once restored, the snapshot is pruned along with any other old snapshots
+        await manager.restoreSnapshot(previousSnapshot, null);
+        await saveSnapshot();
+
+        names = (await manager.getSnapshots()).map(snapshot => snapshot.name);
+        expect(names.length).toBe(2);
+        expect(names).not.toContain(previousSnapshot);
+    });
+
+    it('should ignore invalid config values', async () => {
+        const warn = jest.spyOn(console, 'warn');
+        warn.mockImplementation(() => {});
+
+        await start({enabled: true, delay: -1, maxSnapshots: 0, restoreOnStartup: 'yes', foo: 1} as {} as AutosaveConfig);
+        expect(warn).toHaveBeenCalledTimes(4);
+        warn.mockRestore();
+
+        // The default delay is used in place of the invalid value
+        changeLayout();
+        jest.advanceTimersByTime(4999);
+        await flushPromises();
+        expect(generate).not.toBeCalled();
+
+        jest.advanceTimersByTime(1);
+        await flushPromises();
+        expect(generate).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,113 @@
+import 'jest';
+
+import {Layout, LayoutMetadata, LayoutName, LayoutStorage, StoredLayout} from '../../src/client/types';
+import {LAYOUT_VERSION} from '../../src/provider/workspaces/migrations';
+import {LayoutStore} from '../../src/provider/workspaces/storage';
+
+class MemoryStorage implements LayoutStorage {
+    public layouts: Map<LayoutName, StoredLayout> = new Map();
+
+    public get(name: LayoutName): StoredLayout|null {
+        return this.layouts.get(name) || null;
+    }
+
+    public set(name: LayoutName, layout: StoredLayout): void {
+        this.layouts.set(name, layout);
+    }
+
+    public delete(name: LayoutName): boolean {
+        return this.layouts.delete(name);
+    }
+
+    public list(): LayoutMetadata[] {
+        return Array.from(this.layouts.values()).map(layout => layout.metadata);
+    }
+}
+
+function createLayout(): Layout {
+    return {type: 'layout', version: LAYOUT_VERSION, monitorInfo: {}, apps: [], tabGroups: [], snapGroups: []};
+}
+
+describe('Tests for the layout store', () => {
+    let storage: MemoryStorage;
+    let store: LayoutStore;
+    const owner = {uuid: 'app', name: 'app'};
+
+    beforeEach(() => {
+        storage = new MemoryStorage();
+        store = new LayoutStore(storage);
+    });
+
+    it('should return saved layouts by name', async () => {
+        const layout: Layout = createLayout();
+        await store.saveLayout('test', layout);
+
+        expect(await store.getLayout('test')).toEqual(layout);
+        expect((await store.listLayouts()).map(metadata => metadata.name)).toEqual(['test']);
+    });
+
+    it('should keep the creation time when a layout is overwritten', async () => {
+        const now = jest.spyOn(Date, 'now');
+
+        now.mockReturnValue(1000);
+        await store.saveLayout('test', createLayout());
+        now.mockReturnValue(2000);
+        const metadata: LayoutMetadata = await store.saveLayout('test', createLayout());
+        now.mockRestore();
+
+        expect(metadata).toEqual({name: 'test', created: 1000, modified: 2000});
+    });
+
+    it('should reject invalid layouts', async () => {
+        await expect(store.saveLayout('test', {...createLayout(), apps: {}} as Layout)).rejects.toThrowError('Received invalid layout object');
+        expect(storage.layouts.size).toBe(0);
+    });
+
+    it('should throw when a layout does not exist', async () => {
+        await expect(store.getLayout('missing')).rejects.toThrowError('No layout found with name "missing"');
+        await expect(store.deleteLayout('missing')).rejects.toThrowError('No layout found with name "missing"');
+    });
+
+    it('should use an application-provided backend in place of the default', async () => {
+        const appStorage: MemoryStorage = new MemoryStorage();
+
+        store.setBackend(appStorage, owner);
+        await store.saveLayout('test', createLayout());
+        expect(appStorage.layouts.has('test')).toBe(true);
+        expect(storage.layouts.has('test')).toBe(false);
+
+        store.setBackend(null, owner);
+        expect(await store.listLayouts()).toEqual([]);
+    });
+
+    it('should only let the window that provided a backend replace or reset it', async () => {
+        const appStorage: MemoryStorage = new MemoryStorage();
+        const other = {uuid: 'other', name: 'other'};
+
+        store.setBackend(appStorage, owner);
+        expect(() => store.setBackend(new MemoryStorage(), other)).toThrowError('can only be replaced or reset by the window that provided it (app/app)');
+        expect(() => store.setBackend(null, other)).toThrowError('can only be replaced or reset by the window that provided it (app/app)');
+
+        await store.saveLayout('test', createLayout());
+        expect(appStorage.layouts.has('test')).toBe(true);
+
+        // Once the owner has reset the backend, any window can provide a new one
+        store.setBackend(null, owner);
+        store.setBackend(new MemoryStorage(), other);
+    });
+
+    it('should return to the default backend when the window that provided the backend closes', async () => {
+        store.setBackend(new MemoryStorage(), owner);
+
+        store.releaseBackend({uuid: 'other', name: 'other'});
+        await store.saveLayout('test', createLayout());
+        expect(storage.layouts.has('test')).toBe(false);
+
+        store.releaseBackend(owner);
+        await store.saveLayout('test', createLayout());
+        expect(storage.layouts.has('test')).toBe(true);
+
+        // Other windows can then provide their own backend
+        store.setBackend(new MemoryStorage(), {uuid: 'other', name: 'other'});
+    });
+});
@@ -0,0 +1,73 @@
+import 'jest';
+
+import {DEFAULT_PREVIEW_THEME} from '../../src/provider/snapanddock/Config';
+import {PreviewConfigManager} from '../../src/provider/snapanddock/PreviewConfigManager';
+
+let configManager: PreviewConfigManager;
+
+beforeEach(() => {
+    configManager = new PreviewConfigManager();
+});
+
+describe('Tests for preview config', () => {
+    describe('Getting the theme for an application with no overrides', () => {
+        it('should return the default theme', () => {
+            expect(configManager.getApplicationTheme('app')).toEqual(DEFAULT_PREVIEW_THEME);
+        });
+    });
+
+    describe('Overriding the default theme', () => {
+        it('should only change the specified values', () => {
+            configManager.setDefaultTheme({border: '4px solid #FFFF00'});
+
+            expect(configManager.getApplicationTheme('app')).toEqual({...DEFAULT_PREVIEW_THEME, border: '4px solid #FFFF00'});
+        });
+    });
+
+    describe('Overriding the theme for an application', () => {
+        it('should not affect other applications', () => {
+            configManager.setApplicationTheme('app1', {opacity: 1});
+
+            expect(configManager.getApplicationTheme('app1')).toEqual({...DEFAULT_PREVIEW_THEME, opacity: 1});
+            expect(configManager.getApplicationTheme('app2')).toEqual(DEFAULT_PREVIEW_THEME);
+        });
+
+        it('should merge with previous overrides', () => {
+            configManager.setApplicationTheme('app1', {opacity: 1});
+            configManager.setApplicationTheme('app1', {showEdgeLabel: true});
+
+            expect(configManager.getApplicationTheme('app1')).toEqual({...DEFAULT_PREVIEW_THEME, opacity: 1, showEdgeLabel: true});
+        });
+    });
+
+    describe('Providing a preview page', () => {
+        it('should only apply to that application', () => {
+            configManager.setApplicationUrl('app1', 'http://localhost:1337/preview.html');
+
+            expect(configManager.getApplicationUrl('app1')).toEqual('http://localhost:1337/preview.html');
+            expect(configManager.getApplicationUrl('app2')).toBeNull();
+        });
+
+        it('should revert to the default preview when cleared', () => {
+            configManager.setApplicationUrl('app1', 'http://localhost:1337/preview.html');
+            configManager.setApplicationUrl('app1', null);
+
+            expect(configManager.getApplicationUrl('app1')).toBeNull();
+        });
+    });
+
+    describe('Providing an invalid theme', () => {
+        it('should reject unknown properties', () => {
+            expect(() => configManager.setApplicationTheme('app1', {foo: 1} as {})).toThrowError('unknown property "foo"');
+        });
+
+        it('should reject values of the wrong type', () => {
+            expect(() => configManager.setDefaultTheme({showEdgeLabel: 'yes'} as {})).toThrowError('"showEdgeLabel" must be a boolean');
+            expect(configManager.getApplicationTheme('app1')).toEqual(DEFAULT_PREVIEW_THEME);
+        });
+
+        it('should reject opacities outside of the range 0 to 1', () => {
+            expect(() => configManager.setDefaultTheme({targetOpacity: 1.5})).toThrowError('"targetOpacity" must be between 0 and 1');
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import 'jest';
+
+import {DEFAULT_SNAP_CONFIG} from '../../src/provider/snapanddock/Config';
+import {SnapConfigManager} from '../../src/provider/snapanddock/SnapConfigManager';
+
+let configManager: SnapConfigManager;
+
+beforeEach(() => {
+    configManager = new SnapConfigManager();
+});
+
+describe('Tests for snap config', () => {
+    describe('Getting config for an application with no overrides', () => {
+        it('should return the default config', () => {
+            expect(configManager.getApplicationConfig('app')).toEqual(DEFAULT_SNAP_CONFIG);
+        });
+    });
+
+    describe('Overriding the default config', () => {
+        it('should only change the specified values', () => {
+            configManager.setDefaultConfig({snapDistance: 30});
+
+            expect(configManager.getApplicationConfig('app')).toEqual({...DEFAULT_SNAP_CONFIG, snapDistance: 30});
+        });
+    });
+
+    describe('Overriding config for an application', () => {
+        it('should not affect other applications', () => {
+            configManager.setApplicationConfig('app1', {minOverlap: 10});
+
+            expect(configManager.getApplicationConfig('app1')).toEqual({...DEFAULT_SNAP_CONFIG, minOverlap: 10});
+            expect(configManager.getApplicationConfig('app2')).toEqual(DEFAULT_SNAP_CONFIG);
+        });
+
+        it('should merge with previous overrides', () => {
+            configManager.setApplicationConfig('app1', {minOverlap: 10});
+            configManager.setApplicationConfig('app1', {anchorDistance: 20});
+
+            expect(configManager.getApplicationConfig('app1')).toEqual({...DEFAULT_SNAP_CONFIG, minOverlap: 10, anchorDistance: 20});
+        });
+    });
+
+    describe('Getting config for multiple applications', () => {
+        it('should use the smallest value of each threshold', () => {
+            configManager.setApplicationConfig('app1', {minOverlap: 10, snapDistance: 40});
+            configManager.setApplicationConfig('app2', {snapDistance: 5});
+
+            expect(configManager.getConfig(['app1', 'app2'])).toEqual({...DEFAULT_SNAP_CONFIG, minOverlap: 10, snapDistance: 5});
+        });
+    });
+
+    describe('Providing invalid config', () => {
+        it('should reject unknown properties', () => {
+            expect(() => configManager.setApplicationConfig('app1', {foo: 1} as {})).toThrowError('unknown property "foo"');
+        });
+
+        it('should reject negative values', () => {
+            expect(() => configManager.setDefaultConfig({snapDistance: -1})).toThrowError('"snapDistance" must be a non-negative number');
+            expect(configManager.getApplicationConfig('app1')).toEqual(DEFAULT_SNAP_CONFIG);
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import {test} from 'ava';
+import {Window} from 'hadouken-js-adapter';
+import * as robot from 'robotjs';
+
+import {assertGrouped} from './utils/assertions';
+import {createChildWindow} from './utils/createChildWindow';
+import {delay} from './utils/delay';
+import {dragSideToSide} from './utils/dragWindowTo';
+import {getBounds} from './utils/getBounds';
+import {isAdjacentTo} from './utils/isAdjacentTo';
+
+let windows: Window[] = new Array<Window>();
+
+// The second window has a minimum width, to check that the shared edge is limited by the size constraints of each window
+const windowPositions = [{defaultTop: 100, defaultLeft: 100}, {defaultTop: 400, defaultLeft: 100, minWidth: 180}];
+const windowOptions = {
+    autoShow: true,
+    saveWindowState: false,
+    defaultHeight: 200,
+    defaultWidth: 200,
+    url: 'http://localhost:1337/demo/frameless-window.html',
+    frame: false
+};
+
+/**
+ * Resizes a window by dragging it's right edge with the mouse
+ */
+async function dragRightEdge(win: Window, distance: number) {
+    const bounds = await getBounds(win);
+    const y = bounds.top + Math.round(bounds.height / 2);
+
+    await win.focus();
+    robot.mouseToggle('up');
+    robot.moveMouse(bounds.right - 2, y);
+    robot.mouseToggle('down');
+    robot.moveMouseSmooth(bounds.right - 2 + distance, y);
+    robot.mouseToggle('up');
+    await delay(500);
+}
+
+test.beforeEach(async () => {
+    for (let i = 0; i < windowPositions.length; i++) {
+        windows[i] = await createChildWindow({...(windowPositions[i]), ...windowOptions});
+    }
+
+    await dragSideToSide(windows[1], 'left', windows[0], 'right');
+});
+test.afterEach.always(async () => {
+    for (const win of windows) {
+        if (win) {
+            await win.close();
+        }
+    }
+    windows = new Array<Window>();
+});
+
+test('resizing a window resizes the window on the other side of the shared edge', async t => {
+    await dragRightEdge(windows[0], -50);
+
+    const bounds = [await getBounds(windows[0]), await getBounds(windows[1])];
+
+    t.is(bounds[0].width, 150);
+    t.is(bounds[1].width, 250);
+    t.true(await isAdjacentTo(windows[0], windows[1], 'right'));
+    await assertGrouped(windows[0], windows[1], t);
+});
+
+test('resizing a window respects the minimum size of its neighbour', async t => {
+    await dragRightEdge(windows[0], 50);
+
+    const bounds = [await getBounds(windows[0]), await getBounds(windows[1])];
+
+    t.is(bounds[0].width, 220);
+    t.is(bounds[1].width, 180);
+    t.true(await isAdjacentTo(windows[0], windows[1], 'right'));
+    await assertGrouped(windows[0], windows[1], t);
+});
@@ -0,0 +1,68 @@
+import {test} from 'ava';
+import {Window} from 'hadouken-js-adapter';
+
+import {assertGrouped} from './utils/assertions';
+import {createChildWindow} from './utils/createChildWindow';
+import {dragSideToSide, dragWindowTo} from './utils/dragWindowTo';
+import {getBounds} from './utils/getBounds';
+import {isAdjacentTo} from './utils/isAdjacentTo';
+
+let windows: Window[] = new Array<Window>();
+
+const windowPositions =
+    [{defaultTop: 100, defaultLeft: 100}, {defaultTop: 100, defaultLeft: 400}, {defaultTop: 500, defaultLeft: 100}, {defaultTop: 500, defaultLeft: 400}];
+const windowOptions = {
+    autoShow: true,
+    saveWindowState: false,
+    defaultHeight: 200,
+    defaultWidth: 200,
+    url: 'http://localhost:1337/demo/frameless-window.html',
+    frame: false
+};
+
+test.beforeEach(async () => {
+    for (let i = 0; i < windowPositions.length; i++) {
+        windows[i] = await createChildWindow({...(windowPositions[i]), ...windowOptions});
+    }
+
+    // Create two groups of two windows each: [0, 1] and [2, 3]
+    await dragSideToSide(windows[1], 'left', windows[0], 'right');
+    await dragSideToSide(windows[3], 'left', windows[2], 'right');
+});
+test.afterEach.always(async () => {
+    for (const win of windows) {
+        if (win) {
+            await win.close();
+        }
+    }
+    windows = new Array<Window>();
+});
+
+test('group snaps to bottom of group', async t => {
+    const bounds0 = await getBounds(windows[0]);
+
+    // Drag the lower group so that it is just below the upper group
+    await dragWindowTo(windows[2], bounds0.left + 5, bounds0.bottom + 5);
+
+    t.true(await isAdjacentTo(windows[0], windows[2], 'bottom'));
+    t.true(await isAdjacentTo(windows[1], windows[3], 'bottom'));
+
+    // Relative positions within the dragged group are preserved
+    t.true(await isAdjacentTo(windows[2], windows[3], 'right'));
+
+    await assertGrouped(windows[0], windows[3], t);
+});
+
+test('group snaps to side of group', async t => {
+    const bounds1 = await getBounds(windows[1]);
+
+    // Drag the lower group so that it is just to the right of the upper group
+    await dragWindowTo(windows[2], bounds1.right + 5, bounds1.top + 5);
+
+    t.true(await isAdjacentTo(windows[1], windows[2], 'right'));
+
+    const [boundsAfter1, boundsAfter2] = [await getBounds(windows[1]), await getBounds(windows[2])];
+    t.is(boundsAfter1.top, boundsAfter2.top);
+
+    await assertGrouped(windows[1], windows[2], t);
+});
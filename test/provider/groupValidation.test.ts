@@ -0,0 +1,63 @@
+import {test} from 'ava';
+import {Window} from 'hadouken-js-adapter';
+
+import {assertGrouped, assertNotGrouped} from './utils/assertions';
+import {createChildWindow} from './utils/createChildWindow';
+import {delay} from './utils/delay';
+import {dragSideToSide} from './utils/dragWindowTo';
+
+let windows: Window[] = new Array<Window>();
+
+const windowPositions = [{defaultTop: 100, defaultLeft: 100}, {defaultTop: 400, defaultLeft: 100}, {defaultTop: 700, defaultLeft: 100}];
+const windowOptions = {
+    autoShow: true,
+    saveWindowState: false,
+    defaultHeight: 200,
+    defaultWidth: 200,
+    url: 'http://localhost:1337/demo/frameless-window.html',
+    frame: false
+};
+
+test.beforeEach(async () => {
+    for (let i = 0; i < windowPositions.length; i++) {
+        windows[i] = await createChildWindow({...(windowPositions[i]), ...windowOptions});
+    }
+
+    // Create a horizontal chain of windows: 0 - 1 - 2
+    await dragSideToSide(windows[1], 'left', windows[0], 'right');
+    await dragSideToSide(windows[2], 'left', windows[1], 'right');
+});
+test.afterEach.always(async () => {
+    for (const win of windows) {
+        if (win) {
+            await win.close();
+        }
+    }
+    windows = new Array<Window>();
+});
+
+test('closing the middle window of a chain splits the group', async t => {
+    await windows[1].close();
+    windows.splice(1, 1);
+    await delay(500);
+
+    await assertNotGrouped(windows[0], t);
+    await assertNotGrouped(windows[1], t);
+});
+
+test('resizing a window away from its neighbour splits the group', async t => {
+    // Shrink the middle window, so that it no longer touches the end of the chain
+    await windows[1].resizeBy(-50, 0, 'top-left');
+    await delay(500);
+
+    await assertNotGrouped(windows[2], t);
+    await assertGrouped(windows[0], windows[1], t);
+});
+
+test('hiding a window removes it from the group', async t => {
+    await windows[0].hide();
+    await delay(500);
+
+    await assertNotGrouped(windows[0], t);
+    await assertGrouped(windows[1], windows[2], t);
+});
@@ -0,0 +1,63 @@
+import 'jest';
+
+import {LayoutApp, LayoutAppData, WindowState} from '../../src/client/types';
+import {addAppData} from '../../src/provider/workspaces/customData';
+
+function createWindow(name: string): WindowState {
+    return {
+        uuid: 'app',
+        name,
+        left: 100,
+        top: 100,
+        width: 200,
+        height: 200,
+        isShowing: true,
+        state: 'normal',
+        frame: false,
+        info: {},
+        windowGroup: [],
+        isTabbed: false
+    };
+}
+
+function createApp(): LayoutApp {
+    return {uuid: 'app', mainWindow: createWindow('app'), childWindows: [createWindow('child')]};
+}
+
+describe('Tests for adding application data to layouts', () => {
+    it('should save data for the application and each window', () => {
+        const data: LayoutAppData = {customData: {instrument: 'ABC'}, windows: {child: {tabs: ['a', 'b']}}};
+        const app: LayoutApp = addAppData(createApp(), data, 1000);
+
+        expect(app.customData).toEqual({instrument: 'ABC'});
+        expect(app.mainWindow.customData).toBeUndefined();
+        expect(app.childWindows[0].customData).toEqual({tabs: ['a', 'b']});
+    });
+
+    it('should save null if the application does not provide any data', () => {
+        expect(addAppData(createApp(), false, 1000).customData).toBeNull();
+        expect(addAppData(createApp(), {windows: {}}, 1000).customData).toBeNull();
+    });
+
+    it('should ignore data for windows that are not part of the layout', () => {
+        const app: LayoutApp = addAppData(createApp(), {windows: {other: true}}, 1000);
+
+        expect(app).toEqual({...createApp(), customData: null});
+    });
+
+    it('should save any other data as the customData of the application', () => {
+        expect(addAppData(createApp(), {test: true}, 1000)).toEqual({...createApp(), customData: {test: true}});
+        expect(addAppData(createApp(), {customData: 1, test: true}, 1000).customData).toEqual({customData: 1, test: true});
+        expect(addAppData(createApp(), ['a', 'b'], 1000).customData).toEqual(['a', 'b']);
+        expect(addAppData(createApp(), 0, 1000).customData).toBe(0);
+    });
+
+    it('should reject data that is not in the expected format', () => {
+        expect(() => addAppData(createApp(), {windows: []}, 1000)).toThrowError('"windows" must be an object');
+    });
+
+    it('should reject data that exceeds the size limit', () => {
+        expect(() => addAppData(createApp(), {customData: 'x'.repeat(1000)}, 1000)).toThrowError('exceeds the limit of 1000');
+        expect(() => addAppData(createApp(), 'x'.repeat(1000), 1000)).toThrowError('exceeds the limit of 1000');
+    });
+});
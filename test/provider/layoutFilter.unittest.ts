@@ -0,0 +1,87 @@
+import 'jest';
+
+import {Layout, LayoutApp, WindowState} from '../../src/client/types';
+import {filterLayout, LayoutSubset} from '../../src/provider/workspaces/filter';
+import {LAYOUT_VERSION} from '../../src/provider/workspaces/migrations';
+import {LayoutMonitor} from '../../src/provider/workspaces/monitors';
+
+function createMonitor(left: number, top: number, width: number, height: number): LayoutMonitor {
+    const rect = {left, top, right: left + width, bottom: top + height};
+    return {monitorRect: rect, availableRect: rect};
+}
+
+function createWindow(uuid: string, name: string, left: number): WindowState {
+    return {uuid, name, left, top: 100, width: 400, height: 300, isShowing: true, state: 'normal', frame: false, info: {}, windowGroup: [], isTabbed: false};
+}
+
+function createApp(uuid: string, left: number, children: number[]): LayoutApp {
+    return {uuid, mainWindow: createWindow(uuid, uuid, left), childWindows: children.map((x, i) => createWindow(uuid, `${uuid}-child${i}`, x))};
+}
+
+/**
+ * Two monitors, side-by-side. App 'a' is on the first monitor, with a child window snapped to the main window of app 'b'
+ * on the second monitor. App 'c' is tabbed with a child of app 'b'.
+ */
+function createLayout(): Layout {
+    return {
+        type: 'layout',
+        version: LAYOUT_VERSION,
+        monitorInfo: {primaryMonitor: createMonitor(0, 0, 1920, 1080), nonPrimaryMonitors: [createMonitor(1920, 0, 1920, 1080)]},
+        apps: [createApp('a', 100, [600, 1700]), createApp('b', 2400, [2900]), createApp('c', 2900, [])],
+        tabGroups: [{
+            groupInfo: {url: 'http://localhost/tabstrip.html', active: {uuid: 'c', name: 'c'}, dimensions: {x: 2900, y: 60, width: 400, tabGroupHeight: 40, appHeight: 300}},
+            tabs: [{uuid: 'b', name: 'b-child0'}, {uuid: 'c', name: 'c'}]
+        }],
+        snapGroups: [{
+            id: 7,
+            windows: [
+                {uuid: 'a', name: 'a-child1', offset: {x: 0, y: 0}, width: 400, height: 300},
+                {uuid: 'b', name: 'b', offset: {x: 400, y: 0}, width: 400, height: 300}
+            ]
+        }]
+    };
+}
+
+function getWindowNames(subset: LayoutSubset): string[] {
+    const names: string[] = [];
+    subset.layout.apps.forEach(app => names.push(app.mainWindow.name, ...app.childWindows.map(window => window.name)));
+    return names;
+}
+
+describe('Tests for restoring part of a layout', () => {
+    it('should restore every window of the selected applications', () => {
+        const subset: LayoutSubset = filterLayout(createLayout(), {uuids: ['c']});
+
+        // App 'c' is tabbed with 'b-child0', so the whole of app 'b' is restored, which is in turn snapped to 'a-child1'
+        expect(subset.layout.apps.map(app => app.uuid)).toEqual(['a', 'b', 'c']);
+        expect(subset.excludedWindows).toEqual([]);
+    });
+
+    it('should only restore selected windows and their groups when the scope is window', () => {
+        const subset: LayoutSubset = filterLayout(createLayout(), {uuids: ['c'], scope: 'window'});
+
+        expect(getWindowNames(subset)).toEqual(['b', 'b-child0', 'c']);
+        expect(subset.excludedWindows).toEqual([{uuid: 'b', name: 'b'}]);
+        expect(subset.layout.tabGroups.length).toBe(1);
+        expect(subset.layout.snapGroups).toEqual([]);
+    });
+
+    it('should select windows by monitor, including groups that straddle the monitor boundary', () => {
+        const subset: LayoutSubset = filterLayout(createLayout(), {monitor: 0, scope: 'window'});
+
+        expect(getWindowNames(subset)).toEqual(['a', 'a-child0', 'a-child1', 'b']);
+        expect(subset.excludedWindows).toEqual([]);
+        expect(subset.layout.snapGroups.map(group => group.id)).toEqual([7]);
+    });
+
+    it('should select windows by snap group and tab group', () => {
+        expect(getWindowNames(filterLayout(createLayout(), {snapGroup: 7, scope: 'window'}))).toEqual(['a', 'a-child1', 'b']);
+        expect(getWindowNames(filterLayout(createLayout(), {tabGroup: 0, scope: 'window'}))).toEqual(['b', 'b-child0', 'c']);
+    });
+
+    it('should reject options that do not select any windows', () => {
+        expect(() => filterLayout(createLayout(), {monitor: 2})).toThrowError('monitor 2 does not exist within the layout');
+        expect(() => filterLayout(createLayout(), {snapGroup: 1})).toThrowError('snap group 1 does not exist within the layout');
+        expect(() => filterLayout(createLayout(), {uuids: ['d']})).toThrowError('No windows within the layout match the restore options');
+    });
+});
@@ -0,0 +1,84 @@
+import 'jest';
+
+import {Layout, WindowState} from '../../src/client/types';
+import {LAYOUT_VERSION, migrateLayout} from '../../src/provider/workspaces/migrations';
+import {validateLayout} from '../../src/provider/workspaces/schema';
+
+function createWindow(name: string, left: number, windowGroup: string[] = []): WindowState {
+    return {
+        uuid: 'app',
+        name,
+        left,
+        top: 100,
+        width: 200,
+        height: 200,
+        isShowing: true,
+        state: 'normal',
+        frame: false,
+        info: {},
+        windowGroup: windowGroup.map(groupName => ({uuid: 'app', name: groupName})),
+        isTabbed: false
+    };
+}
+
+// A layout saved before layouts were versioned
+function createUnversionedLayout() {
+    return {
+        type: 'layout',
+        monitorInfo: {},
+        apps: [{uuid: 'app', mainWindow: createWindow('a', 100, ['b']), childWindows: [createWindow('b', 300, ['a']), createWindow('c', 900)]}],
+        tabGroups: []
+    };
+}
+
+describe('Tests for layout versioning', () => {
+    describe('Migrating layouts', () => {
+        it('should upgrade unversioned layouts to the current version', () => {
+            const layout: Layout = migrateLayout(createUnversionedLayout());
+
+            expect(layout.version).toBe(LAYOUT_VERSION);
+            expect(() => validateLayout(layout)).not.toThrow();
+        });
+
+        it('should convert native window groups into snap groups', () => {
+            const layout: Layout = migrateLayout(createUnversionedLayout());
+
+            expect(layout.snapGroups).toEqual([{
+                id: 1,
+                windows: [{uuid: 'app', name: 'a', offset: {x: 0, y: 0}, width: 200, height: 200}, {uuid: 'app', name: 'b', offset: {x: 200, y: 0}, width: 200, height: 200}]
+            }]);
+        });
+
+        it('should not modify layouts that are already at the current version', () => {
+            const layout: Layout = migrateLayout(createUnversionedLayout());
+
+            expect(migrateLayout(layout)).toBe(layout);
+        });
+
+        it('should reject layouts from newer versions of the service', () => {
+            expect(() => migrateLayout({...createUnversionedLayout(), version: LAYOUT_VERSION + 1})).toThrowError('is newer than the latest supported version');
+        });
+
+        it('should reject layouts that are not objects', () => {
+            expect(() => migrateLayout(null)).toThrowError('layout must be an object');
+            expect(() => migrateLayout('layout')).toThrowError('layout must be an object');
+        });
+
+        it('should ignore malformed apps when creating snap groups', () => {
+            const layout: Layout = migrateLayout({...createUnversionedLayout(), apps: [null, {uuid: 'app'}, ...createUnversionedLayout().apps]});
+
+            expect(layout.snapGroups.length).toBe(1);
+        });
+    });
+
+    describe('Validating layouts', () => {
+        it('should report the path of each invalid value', () => {
+            const layout: Layout = migrateLayout(createUnversionedLayout());
+            delete layout.monitorInfo;
+            (layout.apps[0].childWindows[1] as {left: {}}).left = '900';
+
+            expect(() => validateLayout(layout))
+                .toThrowError('Received invalid layout object: layout.monitorInfo is undefined, layout.apps[0].childWindows[1].left should be number');
+        });
+    });
+});
@@ -0,0 +1,131 @@
+import 'jest';
+
+import {LayoutSnapGroup} from '../../src/client/types';
+import {JournalWindowState} from '../../src/provider/LayoutJournal';
+import {snapService} from '../../src/provider/main';
+import {SnapWindow, WindowIdentity} from '../../src/provider/snapanddock/SnapWindow';
+import {getLayoutSnapGroups, restoreSnapGroups} from '../../src/provider/workspaces/group';
+
+jest.mock('../../src/provider/main', () => ({snapService: {getSnapGroups: jest.fn(), getSnapWindow: jest.fn(), restoreWindowStates: jest.fn()}}));
+
+interface MockWindow {
+    identity: WindowIdentity;
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+const getSnapGroups = snapService.getSnapGroups as jest.Mock;
+const getSnapWindow = snapService.getSnapWindow as jest.Mock;
+const restoreWindowStates = snapService.restoreWindowStates as jest.Mock;
+
+function createWindow(name: string, left: number, top: number, width = 400, height = 300): MockWindow {
+    return {identity: {uuid: 'app', name}, left, top, width, height};
+}
+
+function toSnapWindow(window: MockWindow): SnapWindow {
+    const {identity, left, top, width, height} = window;
+    const halfSize = {x: width / 2, y: height / 2};
+    const state = {center: {x: left + halfSize.x, y: top + halfSize.y}, halfSize};
+
+    return {getIdentity: () => identity, getState: () => state} as {} as SnapWindow;
+}
+
+/**
+ * Registers the given groups of windows with the mocked snap service.
+ */
+function setGroups(...groups: MockWindow[][]): void {
+    const snapWindows: SnapWindow[][] = groups.map(windows => windows.map(toSnapWindow));
+
+    getSnapGroups.mockReturnValue(snapWindows.map((windows, index) => ({id: index + 1, windows})));
+    getSnapWindow.mockImplementation((identity: WindowIdentity) => {
+        let result: SnapWindow|undefined;
+        snapWindows.forEach(windows => {
+            result = windows.find(window => window.getIdentity().name === identity.name) || result;
+        });
+        return result;
+    });
+}
+
+beforeEach(() => {
+    getSnapGroups.mockReset();
+    getSnapWindow.mockReset();
+    restoreWindowStates.mockReset();
+});
+
+describe('Tests for saving snap groups', () => {
+    it('should store windows relative to the top-left corner of their group', () => {
+        setGroups([createWindow('a', 100, 200), createWindow('b', 500, 200), createWindow('c', 100, 500, 800, 100)]);
+
+        expect(getLayoutSnapGroups(() => false)).toEqual([{
+            id: 1,
+            windows: [
+                {uuid: 'app', name: 'a', offset: {x: 0, y: 0}, width: 400, height: 300},
+                {uuid: 'app', name: 'b', offset: {x: 400, y: 0}, width: 400, height: 300},
+                {uuid: 'app', name: 'c', offset: {x: 0, y: 300}, width: 800, height: 100}
+            ]
+        }]);
+    });
+
+    it('should not save excluded windows, or groups left with a single window', () => {
+        setGroups([createWindow('a', 100, 200), createWindow('b', 500, 200), createWindow('c', 900, 200)], [createWindow('d', 0, 0), createWindow('e', 0, 300)]);
+
+        const groups: LayoutSnapGroup[] = getLayoutSnapGroups(identity => identity.name === 'a' || identity.name === 'd');
+
+        expect(groups.length).toBe(1);
+        expect(groups[0].windows.map(window => window.name)).toEqual(['b', 'c']);
+        expect(groups[0].windows[0].offset).toEqual({x: 0, y: 0});
+    });
+});
+
+describe('Tests for restoring snap groups', () => {
+    const savedGroup: LayoutSnapGroup = {
+        id: 3,
+        windows: [
+            {uuid: 'app', name: 'a', offset: {x: 0, y: 100}, width: 400, height: 300},
+            {uuid: 'app', name: 'b', offset: {x: 400, y: 0}, width: 200, height: 400},
+            {uuid: 'app', name: 'c', offset: {x: 0, y: 400}, width: 600, height: 100}
+        ]
+    };
+
+    it('should position each window relative to the first window of the group', () => {
+        // Window 'a' was restored slightly away from it's saved position, and 'b' and 'c' have been left where they were
+        setGroups([createWindow('a', 1000, 1000)], [createWindow('b', 0, 0)], [createWindow('c', 0, 0)]);
+        restoreSnapGroups([savedGroup]);
+
+        const identities: WindowIdentity[] = ['a', 'b', 'c'].map(name => ({uuid: 'app', name}));
+        const states: JournalWindowState[] = restoreWindowStates.mock.calls[0][0];
+
+        expect(restoreWindowStates).toHaveBeenCalledTimes(1);
+        expect(states).toEqual([
+            {identity: identities[0], bounds: {center: {x: 1200, y: 1150}, halfSize: {x: 200, y: 150}}, snapGroup: identities, tabGroup: []},
+            {identity: identities[1], bounds: {center: {x: 1500, y: 1100}, halfSize: {x: 100, y: 200}}, snapGroup: identities, tabGroup: []},
+            {identity: identities[2], bounds: {center: {x: 1300, y: 1350}, halfSize: {x: 300, y: 50}}, snapGroup: identities, tabGroup: []}
+        ]);
+    });
+
+    it('should ignore windows that are not registered with the snap service', () => {
+        setGroups([createWindow('b', 0, 0)], [createWindow('c', 0, 0)]);
+        restoreSnapGroups([savedGroup]);
+
+        const states: JournalWindowState[] = restoreWindowStates.mock.calls[0][0];
+
+        // With 'a' missing, 'b' becomes the anchor of the group and keeps it's current position
+        expect(states.map(state => state.identity.name)).toEqual(['b', 'c']);
+        expect(states[0].bounds.center).toEqual({x: 100, y: 200});
+        expect(states[1].bounds.center).toEqual({x: -100, y: 450});
+    });
+
+    it('should not restore groups with fewer than two open windows', () => {
+        const warn = jest.spyOn(console, 'warn');
+        warn.mockImplementation(() => {});
+
+        setGroups([createWindow('c', 0, 0)]);
+        restoreSnapGroups([savedGroup]);
+
+        expect(restoreWindowStates).not.toBeCalled();
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,64 @@
+import {test} from 'ava';
+import {Window} from 'hadouken-js-adapter';
+
+import {assertGrouped} from './utils/assertions';
+import {createChildWindow} from './utils/createChildWindow';
+import {delay} from './utils/delay';
+import {getBounds, NormalizedBounds} from './utils/getBounds';
+import {isAdjacentTo} from './utils/isAdjacentTo';
+import {maximizeSnapGroup, restoreSnapGroup, snapWindows, WindowIdentity} from './utils/snapGroups';
+
+let windows: Window[] = new Array<Window>();
+
+const windowPositions = [{defaultTop: 100, defaultLeft: 100}, {defaultTop: 500, defaultLeft: 500}];
+const windowOptions = {
+    autoShow: true,
+    saveWindowState: false,
+    defaultHeight: 200,
+    defaultWidth: 200,
+    url: 'http://localhost:1337/demo/frameless-window.html',
+    frame: false
+};
+
+test.beforeEach(async () => {
+    for (let i = 0; i < windowPositions.length; i++) {
+        windows[i] = await createChildWindow({...(windowPositions[i]), ...windowOptions});
+    }
+
+    await snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'right'});
+    await delay(500);
+});
+test.afterEach.always(async () => {
+    for (const win of windows) {
+        if (win) {
+            await win.close();
+        }
+    }
+    windows = new Array<Window>();
+});
+
+test('maximizing a group scales each window, keeping the windows grouped', async t => {
+    const before: NormalizedBounds[] = await Promise.all(windows.map(getBounds));
+
+    await maximizeSnapGroup(windows[0].identity as WindowIdentity);
+    await delay(500);
+
+    const after: NormalizedBounds[] = await Promise.all(windows.map(getBounds));
+    t.true(after[0].right - after[0].left > before[0].right - before[0].left);
+    t.true(after[0].bottom - after[0].top > before[0].bottom - before[0].top);
+    t.is(after[0].right - after[0].left, after[1].right - after[1].left);
+    t.true(await isAdjacentTo(windows[0], windows[1], 'right'));
+    await assertGrouped(windows[0], windows[1], t);
+});
+
+test('restoring a maximized group returns each window to it\'s previous bounds', async t => {
+    const before: NormalizedBounds[] = await Promise.all(windows.map(getBounds));
+
+    await maximizeSnapGroup(windows[1].identity as WindowIdentity);
+    await delay(500);
+    await restoreSnapGroup(windows[0].identity as WindowIdentity);
+    await delay(500);
+
+    t.deepEqual(await Promise.all(windows.map(getBounds)), before);
+    await assertGrouped(windows[0], windows[1], t);
+});
@@ -0,0 +1,97 @@
+import 'jest';
+
+import {Layout, WindowState} from '../../src/client/types';
+import {LAYOUT_VERSION} from '../../src/provider/workspaces/migrations';
+import {LayoutMonitor, LayoutMonitorInfo, remapLayout} from '../../src/provider/workspaces/monitors';
+
+function createMonitor(left: number, top: number, width: number, height: number, deviceId?: string): LayoutMonitor {
+    const rect = {left, top, right: left + width, bottom: top + height};
+    return {deviceId, monitorRect: rect, availableRect: {...rect, bottom: rect.bottom - 40}};
+}
+
+function createWindow(name: string, left: number, top: number, width: number, height: number): WindowState {
+    return {
+        uuid: 'app',
+        name,
+        left,
+        top,
+        width,
+        height,
+        isShowing: true,
+        state: 'normal',
+        frame: false,
+        info: {},
+        windowGroup: [],
+        isTabbed: false
+    };
+}
+
+function createLayout(monitors: LayoutMonitor[], windows: WindowState[]): Layout {
+    const [mainWindow, ...childWindows] = windows;
+    return {
+        type: 'layout',
+        version: LAYOUT_VERSION,
+        monitorInfo: {primaryMonitor: monitors[0], nonPrimaryMonitors: monitors.slice(1)},
+        apps: [{uuid: 'app', mainWindow, childWindows}],
+        tabGroups: [],
+        snapGroups: []
+    };
+}
+
+function getBounds(window: WindowState) {
+    return {left: window.left, top: window.top, width: window.width, height: window.height};
+}
+
+const desk: LayoutMonitor[] = [createMonitor(0, 0, 1920, 1080, 'primary'), createMonitor(1920, 0, 1920, 1080, 'secondary')];
+const laptop: LayoutMonitorInfo = {primaryMonitor: createMonitor(0, 0, 1280, 720, 'laptop'), nonPrimaryMonitors: []};
+
+describe('Tests for remapping layouts onto the current monitors', () => {
+    it('should not move windows if the monitors are unchanged', () => {
+        const layout: Layout = createLayout(desk, [createWindow('a', 100, 100, 400, 300), createWindow('b', 2000, 100, 400, 300)]);
+        remapLayout(layout, {primaryMonitor: desk[0], nonPrimaryMonitors: [desk[1]]});
+
+        expect(getBounds(layout.apps[0].mainWindow)).toEqual({left: 100, top: 100, width: 400, height: 300});
+        expect(getBounds(layout.apps[0].childWindows[0])).toEqual({left: 2000, top: 100, width: 400, height: 300});
+    });
+
+    it('should scale windows proportionally onto a smaller monitor', () => {
+        const layout: Layout = createLayout(desk, [createWindow('a', 480, 260, 960, 520)]);
+        remapLayout(layout, laptop);
+
+        expect(getBounds(layout.apps[0].mainWindow)).toEqual({left: 320, top: 170, width: 640, height: 340});
+    });
+
+    it('should move windows from a disconnected monitor onto a visible work area', () => {
+        const layout: Layout = createLayout(desk, [createWindow('a', 100, 100, 400, 300), createWindow('b', 3600, 100, 400, 300)]);
+        remapLayout(layout, laptop);
+
+        const window: WindowState = layout.apps[0].childWindows[0];
+        expect(window.left).toBeGreaterThanOrEqual(0);
+        expect(window.left + window.width).toBeLessThanOrEqual(1280);
+    });
+
+    it('should move grouped windows as a single unit', () => {
+        const layout: Layout = createLayout(desk, [createWindow('a', 1700, 100, 400, 300), createWindow('b', 2100, 100, 400, 300)]);
+        layout.snapGroups = [{
+            id: 1,
+            windows: [{uuid: 'app', name: 'a', offset: {x: 0, y: 0}, width: 400, height: 300}, {uuid: 'app', name: 'b', offset: {x: 400, y: 0}, width: 400, height: 300}]
+        }];
+        remapLayout(layout, {primaryMonitor: desk[0], nonPrimaryMonitors: []});
+
+        const [a, b] = [layout.apps[0].mainWindow, layout.apps[0].childWindows[0]];
+        expect(a.left + a.width).toBe(b.left);
+        expect(a.top).toBe(b.top);
+        expect(b.left + b.width).toBeLessThanOrEqual(1920);
+    });
+
+    it('should keep the windows of a snap group flush when scaling the group', () => {
+        const windows: WindowState[] = [createWindow('a', 100, 100, 100, 300), createWindow('b', 200, 100, 100, 300), createWindow('c', 300, 100, 100, 300)];
+        const layout: Layout = createLayout(desk, windows);
+        layout.snapGroups = [{id: 1, windows: windows.map(({name}, i) => ({uuid: 'app', name, offset: {x: i * 100, y: 0}, width: 100, height: 300}))}];
+        remapLayout(layout, laptop);
+
+        const [a, b, c] = layout.snapGroups[0].windows;
+        expect(a.offset.x + a.width).toBe(b.offset.x);
+        expect(b.offset.x + b.width).toBe(c.offset.x);
+    });
+});
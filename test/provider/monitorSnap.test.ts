@@ -0,0 +1,77 @@
+import {test} from 'ava';
+import {Fin, Window} from 'hadouken-js-adapter';
+
+import {assertGrouped} from './utils/assertions';
+import {getConnection} from './utils/connect';
+import {createChildWindow} from './utils/createChildWindow';
+import {dragSideToSide, dragWindowTo} from './utils/dragWindowTo';
+import {getBounds} from './utils/getBounds';
+import {isAdjacentTo} from './utils/isAdjacentTo';
+
+let windows: Window[] = new Array<Window>();
+let fin: Fin;
+
+const windowPositions = [{defaultTop: 300, defaultLeft: 300}, {defaultTop: 300, defaultLeft: 600}];
+const windowOptions = {
+    autoShow: true,
+    saveWindowState: false,
+    defaultHeight: 200,
+    defaultWidth: 200,
+    url: 'http://localhost:1337/demo/frameless-window.html',
+    frame: false
+};
+
+async function getWorkArea() {
+    const monitorInfo = await fin.System.getMonitorInfo();
+    return monitorInfo.primaryMonitor.availableRect;
+}
+
+test.before(async () => {
+    fin = await getConnection();
+});
+test.beforeEach(async () => {
+    for (let i = 0; i < windowPositions.length; i++) {
+        windows[i] = await createChildWindow({...(windowPositions[i]), ...windowOptions});
+    }
+});
+test.afterEach.always(async () => {
+    for (const win of windows) {
+        if (win) {
+            await win.close();
+        }
+    }
+    windows = new Array<Window>();
+});
+
+test('window snaps to the left edge of the monitor', async t => {
+    const workArea = await getWorkArea();
+
+    await dragWindowTo(windows[0], workArea.left + 5, workArea.top + 200);
+
+    const bounds = await getBounds(windows[0]);
+    t.is(bounds.left, workArea.left);
+    t.is(bounds.top, workArea.top + 200);
+});
+
+test('window snaps to the top-left corner of the monitor', async t => {
+    const workArea = await getWorkArea();
+
+    await dragWindowTo(windows[0], workArea.left + 5, workArea.top + 5);
+
+    const bounds = await getBounds(windows[0]);
+    t.is(bounds.left, workArea.left);
+    t.is(bounds.top, workArea.top);
+});
+
+test('group snaps to the top edge of the monitor', async t => {
+    const workArea = await getWorkArea();
+    await dragSideToSide(windows[1], 'left', windows[0], 'right');
+
+    await dragWindowTo(windows[0], workArea.left + 200, workArea.top + 5);
+
+    const [bounds0, bounds1] = [await getBounds(windows[0]), await getBounds(windows[1])];
+    t.is(bounds0.top, workArea.top);
+    t.is(bounds1.top, workArea.top);
+    t.true(await isAdjacentTo(windows[0], windows[1], 'right'));
+    await assertGrouped(windows[0], windows[1], t);
+});
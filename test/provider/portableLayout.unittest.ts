@@ -0,0 +1,101 @@
+import 'jest';
+
+import {Layout, LayoutExport, WindowState} from '../../src/client/types';
+import {LAYOUT_VERSION} from '../../src/provider/workspaces/migrations';
+import {LayoutMonitor, LayoutMonitorInfo} from '../../src/provider/workspaces/monitors';
+import {exportLayout, importLayout} from '../../src/provider/workspaces/portable';
+
+function createMonitor(left: number, top: number, width: number, height: number): LayoutMonitor {
+    const rect = {left, top, right: left + width, bottom: top + height};
+    return {monitorRect: rect, availableRect: {...rect, bottom: rect.bottom - 40}};
+}
+
+function createWindow(name: string, left: number, top: number): WindowState {
+    return {
+        uuid: 'app',
+        name,
+        left,
+        top,
+        width: 400,
+        height: 300,
+        isShowing: true,
+        state: 'normal',
+        frame: false,
+        info: {url: `http://localhost/${name}.html`, canNavigateBack: false},
+        windowGroup: [],
+        isTabbed: false
+    };
+}
+
+function createLayout(monitorInfo: LayoutMonitorInfo): Layout {
+    return {
+        type: 'layout',
+        version: LAYOUT_VERSION,
+        monitorInfo,
+        apps: [{
+            uuid: 'app',
+            initialOptions: {uuid: 'app', name: 'app', url: 'http://localhost/app.html', autoShow: true},
+            mainWindow: createWindow('app', 100, 100),
+            childWindows: [createWindow('child', 2500, 200), createWindow('Placeholder-abc123', 900, 100)]
+        }],
+        tabGroups: [],
+        snapGroups: []
+    };
+}
+
+const desk: LayoutMonitorInfo = {primaryMonitor: createMonitor(0, 0, 1920, 1080), nonPrimaryMonitors: [createMonitor(1920, 0, 1920, 1080)]};
+const laptop: LayoutMonitorInfo = {primaryMonitor: createMonitor(0, 0, 960, 560), nonPrimaryMonitors: []};
+
+describe('Tests for exporting and importing layouts', () => {
+    it('should position windows relative to their monitor', () => {
+        const layoutExport: LayoutExport = exportLayout(createLayout(desk));
+
+        expect(layoutExport.monitors).toEqual([{width: 1920, height: 1040}, {width: 1920, height: 1040}]);
+        expect(layoutExport.apps[0].childWindows[0].bounds).toEqual({monitor: 1, left: 580, top: 200, width: 400, height: 300});
+    });
+
+    it('should remove machine-specific details', () => {
+        const layoutExport: LayoutExport = exportLayout(createLayout(desk));
+        const app = layoutExport.apps[0];
+
+        expect(app.url).toBe('http://localhost/app.html');
+        expect(app).not.toHaveProperty('initialOptions');
+        expect(app.mainWindow).not.toHaveProperty('info');
+        expect(app.childWindows.map(window => window.name)).toEqual(['child']);
+    });
+
+    it('should restore the original layout when imported on the same monitors', () => {
+        const layout: Layout = importLayout(exportLayout(createLayout(desk)), desk);
+        const [mainWindow, childWindow] = [layout.apps[0].mainWindow, layout.apps[0].childWindows[0]];
+
+        expect(layout.apps[0].initialOptions).toEqual({uuid: 'app', name: 'app', url: 'http://localhost/app.html'});
+        expect(mainWindow).toMatchObject({left: 100, top: 100, width: 400, height: 300, info: {url: 'http://localhost/app.html'}});
+        expect(childWindow).toMatchObject({left: 2500, top: 200, width: 400, height: 300});
+    });
+
+    it('should scale windows onto the primary monitor if their monitor does not exist', () => {
+        const layout: Layout = importLayout(exportLayout(createLayout(desk)), laptop);
+
+        expect(layout.apps[0].childWindows[0]).toMatchObject({left: 290, top: 100, width: 200, height: 150});
+    });
+
+    it('should keep the windows of a snap group flush when scaling the group', () => {
+        const layout: Layout = createLayout(desk);
+        const names: string[] = ['app', 'b', 'c'];
+        layout.apps[0].childWindows = [createWindow('b', 500, 100), createWindow('c', 900, 100)];
+        layout.snapGroups = [{id: 1, windows: names.map((name, i) => ({uuid: 'app', name, offset: {x: i * 400, y: 0}, width: 400, height: 300}))}];
+
+        const monitor: LayoutMonitorInfo = {primaryMonitor: createMonitor(0, 0, 1280, 720), nonPrimaryMonitors: []};
+        const [a, b, c] = importLayout(exportLayout(layout), monitor).snapGroups[0].windows;
+
+        expect(a.offset.x + a.width).toBe(b.offset.x);
+        expect(b.offset.x + b.width).toBe(c.offset.x);
+    });
+
+    it('should reject invalid exports', () => {
+        const layoutExport: LayoutExport = exportLayout(createLayout(desk));
+        delete layoutExport.apps[0].appId;
+
+        expect(() => importLayout(layoutExport, desk)).toThrowError('Received invalid layout export: layout.apps[0].appId is undefined');
+    });
+});
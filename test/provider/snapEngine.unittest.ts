@@ -0,0 +1,288 @@
+import 'jest';
+
+import {eSnapValidity} from '../../src/provider/snapanddock/Resolver';
+
+import {SnapSimulator} from './utils/SnapSimulator';
+
+let simulator: SnapSimulator;
+
+beforeEach(() => {
+    simulator = new SnapSimulator();
+    simulator.addWindow('a', {left: 100, top: 100, width: 200, height: 200});
+    simulator.addWindow('b', {left: 500, top: 500, width: 200, height: 200});
+});
+
+describe('Tests for the snap engine', () => {
+    describe('Dragging a window close to another window', () => {
+        it('should snap the window flush to the edge of the other window', () => {
+            simulator.drag('b', {x: 400, y: 400}, {x: 305, y: 240});
+
+            expect(simulator.getBounds('b')).toEqual({left: 300, top: 240, width: 200, height: 200});
+            expect(simulator.isGrouped('a', 'b')).toBe(true);
+        });
+
+        it('should anchor the window to the corner of the other window', () => {
+            simulator.drag('b', {x: 300, y: 140});
+
+            expect(simulator.getBounds('b')).toEqual({left: 300, top: 100, width: 200, height: 200});
+        });
+
+        it('should resize the window to match the other window if both corners are close', () => {
+            simulator.addWindow('c', {left: 800, top: 100, width: 200, height: 190});
+            simulator.drag('c', {x: 300, y: 105});
+
+            expect(simulator.getBounds('c')).toEqual({left: 300, top: 100, width: 200, height: 200});
+            expect(simulator.getGroups()).toEqual([['a', 'c'], ['b']]);
+        });
+    });
+
+    describe('Dragging a window away from other windows', () => {
+        it('should not snap the window', () => {
+            simulator.drag('b', {x: 350, y: 150});
+
+            expect(simulator.target).toBeNull();
+            expect(simulator.getBounds('b')).toEqual({left: 350, top: 150, width: 200, height: 200});
+            expect(simulator.isGrouped('a', 'b')).toBe(false);
+        });
+    });
+
+    describe('Dragging a window on top of another window', () => {
+        it('should not snap the window', () => {
+            simulator.drag('b', {x: 150, y: 150});
+
+            expect(simulator.target).toBeNull();
+            expect(simulator.isGrouped('a', 'b')).toBe(false);
+        });
+    });
+
+    describe('Dragging a group', () => {
+        beforeEach(() => {
+            simulator.drag('b', {x: 305, y: 100});
+        });
+
+        it('should move every window in the group', () => {
+            simulator.drag('a', {x: 600, y: 600});
+
+            expect(simulator.getBounds('a')).toEqual({left: 600, top: 600, width: 200, height: 200});
+            expect(simulator.getBounds('b')).toEqual({left: 800, top: 600, width: 200, height: 200});
+        });
+
+        it('should not snap if another window in the group would overlap the target', () => {
+            // A taller window on the end of the group, that extends below the bottom of the other windows
+            simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 300});
+            simulator.drag('c', {x: 503, y: 100});
+
+            // Window 'a' could snap to the top of 'd', but 'c' would then overlap 'd'
+            simulator.addWindow('d', {left: 200, top: 320, width: 600, height: 200});
+            simulator.drag('a', {x: 100, y: 110});
+
+            expect(simulator.target).not.toBeNull();
+            expect(simulator.target!.validity).toBe(eSnapValidity.OVERLAP);
+            expect(simulator.getGroups()).toEqual([['a', 'b', 'c'], ['d']]);
+        });
+
+        it('should snap the whole group to another group', () => {
+            simulator.addWindow('c', {left: 1000, top: 1000, width: 200, height: 200});
+            simulator.addWindow('d', {left: 1200, top: 1000, width: 200, height: 200});
+            simulator.drag('d', {x: 1205, y: 1000});
+
+            simulator.drag('c', {x: 100, y: 308});
+
+            expect(simulator.getBounds('c')).toEqual({left: 100, top: 300, width: 200, height: 200});
+            expect(simulator.getBounds('d')).toEqual({left: 300, top: 300, width: 200, height: 200});
+            expect(simulator.getGroups()).toEqual([['a', 'b', 'c', 'd']]);
+        });
+    });
+
+    describe('Docking a window to it\'s neighbour', () => {
+        it('should snap the window to the closest window in that direction', () => {
+            simulator.addWindow('c', {left: 600, top: 150, width: 200, height: 200});
+            simulator.addWindow('d', {left: 1000, top: 100, width: 200, height: 200});
+
+            simulator.dock('d', 'left');
+            expect(simulator.getBounds('d')).toEqual({left: 800, top: 150, width: 200, height: 200});
+
+            // Windows are anchored to the corner of their neighbour, in the same way as when dragging
+            simulator.dock('c', 'left');
+            expect(simulator.getBounds('c')).toEqual({left: 300, top: 100, width: 200, height: 200});
+            expect(simulator.getBounds('d')).toEqual({left: 500, top: 100, width: 200, height: 200});
+            expect(simulator.getGroups()).toEqual([['a', 'c', 'd'], ['b']]);
+        });
+
+        it('should not move the window if there are no windows in that direction', () => {
+            simulator.dock('b', 'left');
+
+            expect(simulator.target).toBeNull();
+            expect(simulator.getBounds('b')).toEqual({left: 500, top: 500, width: 200, height: 200});
+        });
+    });
+
+    describe('Finding the neighbours of a window within a group', () => {
+        beforeEach(() => {
+            simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200});
+            simulator.replay([{window: 'b', path: [{x: 305, y: 100}]}, {window: 'c', path: [{x: 103, y: 304}]}]);
+        });
+
+        it('should return each window that shares an edge with the window', () => {
+            expect(simulator.getNeighbours('a')).toEqual([{name: 'b', edge: 'right'}, {name: 'c', edge: 'bottom'}]);
+            expect(simulator.getNeighbours('c')).toEqual([{name: 'a', edge: 'top'}]);
+        });
+
+        it('should not include windows that only touch at a corner', () => {
+            expect(simulator.getNeighbours('b')).toEqual([{name: 'a', edge: 'left'}]);
+        });
+
+        it('should not include windows outside of the group', () => {
+            simulator.addWindow('d', {left: 500, top: 100, width: 200, height: 200});
+
+            expect(simulator.getNeighbours('b')).toEqual([{name: 'a', edge: 'left'}]);
+            expect(simulator.getNeighbours('d')).toEqual([]);
+        });
+    });
+
+    describe('Dragging a window close to the edge of a monitor', () => {
+        it('should snap the window to the edge of the work area, without grouping it', () => {
+            simulator = new SnapSimulator({workAreas: [{left: 0, top: 0, width: 1920, height: 1040}]});
+            simulator.addWindow('a', {left: 100, top: 100, width: 200, height: 200});
+
+            simulator.drag('a', {x: 8, y: 400});
+
+            expect(simulator.getBounds('a')).toEqual({left: 0, top: 400, width: 200, height: 200});
+            expect(simulator.getGroups()).toEqual([['a']]);
+        });
+
+        it('should not snap a group if another window in the group would overlap a window', () => {
+            simulator = new SnapSimulator({workAreas: [{left: 0, top: 0, width: 1920, height: 1040}]});
+            simulator.addWindow('a', {left: 100, top: 500, width: 200, height: 200});
+            simulator.addWindow('b', {left: 500, top: 100, width: 200, height: 200});
+            simulator.drag('b', {x: 305, y: 400});
+
+            // Snapping 'b' to the right edge of the monitor would move 'a' on top of 'c'
+            simulator.addWindow('c', {left: 1715, top: 610, width: 200, height: 200}, 'simulated-app', {canBeTarget: false});
+            simulator.drag('a', {x: 1512, y: 500});
+
+            expect(simulator.target).not.toBeNull();
+            expect(simulator.target!.validity).toBe(eSnapValidity.OVERLAP);
+            expect(simulator.getBounds('b')).toEqual({left: 1712, top: 400, width: 200, height: 200});
+        });
+    });
+
+    describe('Replaying a sequence of drags', () => {
+        it('should build up a group one window at a time', () => {
+            simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200});
+
+            simulator.replay([
+                {window: 'b', path: [{x: 400, y: 400}, {x: 303, y: 102}]},
+                {window: 'c', path: [{x: 600, y: 600}, {x: 103, y: 304}]}
+            ]);
+
+            expect(simulator.getGroups()).toEqual([['a', 'b', 'c']]);
+            expect(simulator.getBounds('b')).toEqual({left: 300, top: 100, width: 200, height: 200});
+            expect(simulator.getBounds('c')).toEqual({left: 100, top: 300, width: 200, height: 200});
+        });
+    });
+
+    describe('Using snap policies', () => {
+        it('should report which edges of the window are being snapped', () => {
+            simulator.drag('b', {x: 305, y: 240});
+
+            expect(simulator.target!.edges).toEqual(['left']);
+        });
+
+        it('should not snap a window that can\'t be a source', () => {
+            simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200}, 'simulated-app', {canBeSource: false});
+            simulator.drag('c', {x: 305, y: 100});
+
+            expect(simulator.target).toBeNull();
+            expect(simulator.getBounds('c')).toEqual({left: 305, top: 100, width: 200, height: 200});
+        });
+
+        it('should not snap to a window that can\'t be a target', () => {
+            simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200}, 'simulated-app', {canBeTarget: false});
+            simulator.drag('b', {x: 905, y: 1100});
+
+            expect(simulator.isGrouped('b', 'c')).toBe(false);
+        });
+
+        it('should only snap along the edges allowed by both windows', () => {
+            simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200}, 'simulated-app', {edges: ['top', 'bottom']});
+
+            simulator.drag('c', {x: 305, y: 100});
+            expect(simulator.isGrouped('a', 'c')).toBe(false);
+
+            simulator.drag('c', {x: 100, y: 305});
+            expect(simulator.getBounds('c')).toEqual({left: 100, top: 300, width: 200, height: 200});
+            expect(simulator.isGrouped('a', 'c')).toBe(true);
+        });
+
+        it('should not snap windows of applications that have been denied', () => {
+            simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200}, 'other-app', {denyUuids: ['simulated-app']});
+            simulator.addWindow('d', {left: 1200, top: 900, width: 200, height: 200}, 'other-app');
+
+            // Policy applies regardless of which window is dragged
+            simulator.drag('a', {x: 705, y: 900});
+            simulator.drag('c', {x: 100, y: 305});
+
+            expect(simulator.getGroups()).toEqual([['a'], ['b'], ['c'], ['d']]);
+        });
+
+        it('should only snap to windows of allowed applications', () => {
+            simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200}, 'other-app', {allowUuids: ['other-app']});
+            simulator.addWindow('d', {left: 1200, top: 900, width: 200, height: 200}, 'other-app');
+
+            simulator.drag('c', {x: 305, y: 100});
+            expect(simulator.isGrouped('a', 'c')).toBe(false);
+
+            simulator.drag('c', {x: 1005, y: 900});
+            expect(simulator.isGrouped('c', 'd')).toBe(true);
+        });
+
+        it('should reject invalid policies', () => {
+            expect(() => simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200}, 'simulated-app', {edges: ['middle']} as {}))
+                .toThrowError('"edges" must be an array of window edges');
+            expect(() => simulator.addWindow('c', {left: 900, top: 900, width: 200, height: 200}, 'simulated-app', {denyUuids: 'app'} as {}))
+                .toThrowError('"denyUuids" must be an array of strings');
+        });
+    });
+
+    describe('Dragging a window close to alignment with a nearby window', () => {
+        it('should align the edges of the windows, without grouping them', () => {
+            simulator.drag('b', {x: 400, y: 106});
+
+            expect(simulator.getBounds('b')).toEqual({left: 400, top: 100, width: 200, height: 200});
+            expect(simulator.target!.guides).toEqual([{orientation: 'y', position: 100, min: 100, max: 600}]);
+            expect(simulator.getGroups()).toEqual([['a'], ['b']]);
+        });
+
+        it('should align the centres of the windows', () => {
+            simulator.addWindow('c', {left: 900, top: 900, width: 100, height: 100});
+            simulator.drag('c', {x: 153, y: 400});
+
+            expect(simulator.getBounds('c')).toEqual({left: 150, top: 400, width: 100, height: 100});
+            expect(simulator.target!.guides).toEqual([{orientation: 'x', position: 200, min: 100, max: 500}]);
+        });
+
+        it('should not align windows if alignment is disabled', () => {
+            simulator = new SnapSimulator({config: {alignDistance: 0}});
+            simulator.addWindow('a', {left: 100, top: 100, width: 200, height: 200});
+            simulator.addWindow('b', {left: 500, top: 500, width: 200, height: 200});
+
+            simulator.drag('b', {x: 400, y: 106});
+
+            expect(simulator.target).toBeNull();
+            expect(simulator.getBounds('b')).toEqual({left: 400, top: 106, width: 200, height: 200});
+        });
+    });
+
+    describe('Using custom snap thresholds', () => {
+        it('should not snap windows that are further apart than the snap distance', () => {
+            simulator = new SnapSimulator({config: {snapDistance: 5}});
+            simulator.addWindow('a', {left: 100, top: 100, width: 200, height: 200});
+            simulator.addWindow('b', {left: 500, top: 500, width: 200, height: 200});
+
+            simulator.drag('b', {x: 310, y: 100});
+
+            expect(simulator.isGrouped('a', 'b')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import {test} from 'ava';
+import {Window} from 'hadouken-js-adapter';
+
+import {assertNotGrouped} from './utils/assertions';
+import {createChildWindow} from './utils/createChildWindow';
+import {dragSideToSide} from './utils/dragWindowTo';
+import {getSnapGroup, getSnapGroupWindows, undockGroup, WindowIdentity} from './utils/snapGroups';
+
+let windows: Window[] = new Array<Window>();
+
+const windowPositions = [{defaultTop: 100, defaultLeft: 100}, {defaultTop: 400, defaultLeft: 100}];
+const windowOptions = {
+    autoShow: true,
+    saveWindowState: false,
+    defaultHeight: 200,
+    defaultWidth: 200,
+    url: 'http://localhost:1337/demo/frameless-window.html',
+    frame: false
+};
+
+test.beforeEach(async () => {
+    for (let i = 0; i < windowPositions.length; i++) {
+        windows[i] = await createChildWindow({...(windowPositions[i]), ...windowOptions});
+    }
+});
+test.afterEach.always(async () => {
+    for (const win of windows) {
+        if (win) {
+            await win.close();
+        }
+    }
+    windows = new Array<Window>();
+});
+
+test('ungrouped windows have different group IDs', async t => {
+    const [group0, group1] = [await getSnapGroup(windows[0].identity as WindowIdentity), await getSnapGroup(windows[1].identity as WindowIdentity)];
+
+    t.not(group0, group1);
+    t.deepEqual(await getSnapGroupWindows(group0), [windows[0].identity]);
+});
+
+test('snapped windows share a group ID', async t => {
+    await dragSideToSide(windows[1], 'left', windows[0], 'right');
+
+    const [group0, group1] = [await getSnapGroup(windows[0].identity as WindowIdentity), await getSnapGroup(windows[1].identity as WindowIdentity)];
+    t.is(group0, group1);
+
+    const members = await getSnapGroupWindows(group0);
+    t.is(members.length, 2);
+    t.true(windows.every(win => members.some(member => member.uuid === win.identity.uuid && member.name === win.identity.name)));
+});
+
+test('group can be undocked using its ID', async t => {
+    await dragSideToSide(windows[1], 'left', windows[0], 'right');
+
+    await undockGroup(await getSnapGroup(windows[0].identity as WindowIdentity));
+
+    await assertNotGrouped(windows[0], t);
+    await assertNotGrouped(windows[1], t);
+});
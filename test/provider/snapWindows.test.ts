@@ -0,0 +1,66 @@
+import {test} from 'ava';
+import {Window} from 'hadouken-js-adapter';
+
+import {assertGrouped, assertNotGrouped} from './utils/assertions';
+import {createChildWindow} from './utils/createChildWindow';
+import {getBounds} from './utils/getBounds';
+import {isAdjacentTo} from './utils/isAdjacentTo';
+import {snapWindows, WindowIdentity} from './utils/snapGroups';
+
+let windows: Window[] = new Array<Window>();
+
+const windowPositions = [{defaultTop: 100, defaultLeft: 100}, {defaultTop: 500, defaultLeft: 500}];
+const windowOptions = {
+    autoShow: true,
+    saveWindowState: false,
+    defaultHeight: 200,
+    defaultWidth: 200,
+    url: 'http://localhost:1337/demo/frameless-window.html',
+    frame: false
+};
+
+test.beforeEach(async () => {
+    for (let i = 0; i < windowPositions.length; i++) {
+        windows[i] = await createChildWindow({...(windowPositions[i]), ...windowOptions});
+    }
+});
+test.afterEach.always(async () => {
+    for (const win of windows) {
+        if (win) {
+            await win.close();
+        }
+    }
+    windows = new Array<Window>();
+});
+
+test('window is snapped to the requested edge', async t => {
+    const targetBounds = await getBounds(windows[0]);
+
+    await snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'right'});
+
+    t.true(await isAdjacentTo(windows[0], windows[1], 'right'));
+    t.deepEqual(await getBounds(windows[0]), targetBounds);
+    await assertGrouped(windows[0], windows[1], t);
+});
+
+test('window is aligned along the edge', async t => {
+    await windows[1].resizeTo(400, 400, 'top-left');
+
+    await snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'bottom', align: 'end'});
+
+    const [targetBounds, sourceBounds] = [await getBounds(windows[0]), await getBounds(windows[1])];
+    t.is(sourceBounds.top, targetBounds.bottom);
+    t.is(sourceBounds.right, targetBounds.right);
+});
+
+test('snap is rejected if windows would overlap', async t => {
+    // Snap a third window below the target, so that there is no room for the source window
+    windows[2] = await createChildWindow({defaultTop: 500, defaultLeft: 100, ...windowOptions});
+    await snapWindows(windows[2].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'bottom'});
+
+    const boundsBefore = await getBounds(windows[1]);
+    await t.throws(snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'bottom', align: 'end'}));
+
+    t.deepEqual(await getBounds(windows[1]), boundsBefore);
+    await assertNotGrouped(windows[1], t);
+});
@@ -0,0 +1,85 @@
+import {test} from 'ava';
+import {Window} from 'hadouken-js-adapter';
+
+import {assertGrouped, assertNotGrouped} from './utils/assertions';
+import {createChildWindow} from './utils/createChildWindow';
+import {delay} from './utils/delay';
+import {getBounds} from './utils/getBounds';
+import {isAdjacentTo} from './utils/isAdjacentTo';
+import {redoLayoutChange, snapWindows, undoLastLayoutChange, WindowIdentity} from './utils/snapGroups';
+import {undockWindow} from './utils/undockWindow';
+
+let windows: Window[] = new Array<Window>();
+
+const windowPositions = [{defaultTop: 100, defaultLeft: 100}, {defaultTop: 500, defaultLeft: 500}];
+const windowOptions = {
+    autoShow: true,
+    saveWindowState: false,
+    defaultHeight: 200,
+    defaultWidth: 200,
+    url: 'http://localhost:1337/demo/frameless-window.html',
+    frame: false
+};
+
+test.beforeEach(async () => {
+    for (let i = 0; i < windowPositions.length; i++) {
+        windows[i] = await createChildWindow({...(windowPositions[i]), ...windowOptions});
+    }
+});
+test.afterEach.always(async () => {
+    for (const win of windows) {
+        if (win) {
+            await win.close();
+        }
+    }
+    windows = new Array<Window>();
+});
+
+test('undoing a snap returns the window to it\'s original position', async t => {
+    const sourceBounds = await getBounds(windows[1]);
+
+    await snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'right'});
+    await assertGrouped(windows[0], windows[1], t);
+
+    t.true(await undoLastLayoutChange());
+    await delay(500);
+
+    t.deepEqual(await getBounds(windows[1]), sourceBounds);
+    await assertNotGrouped(windows[0], t);
+    await assertNotGrouped(windows[1], t);
+});
+
+test('redoing a snap re-groups the windows', async t => {
+    await snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'right'});
+    await undoLastLayoutChange();
+    await delay(500);
+
+    t.true(await redoLayoutChange());
+    await delay(500);
+
+    t.true(await isAdjacentTo(windows[0], windows[1], 'right'));
+    await assertGrouped(windows[0], windows[1], t);
+});
+
+test('undoing an undock re-groups the windows', async t => {
+    await snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'bottom'});
+    await undockWindow(windows[1].identity as WindowIdentity);
+    await delay(500);
+    await assertNotGrouped(windows[1], t);
+
+    await undoLastLayoutChange();
+    await delay(500);
+
+    t.true(await isAdjacentTo(windows[0], windows[1], 'bottom'));
+    await assertGrouped(windows[0], windows[1], t);
+});
+
+test('nothing can be re-done once another change has been made', async t => {
+    await snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'right'});
+    await undoLastLayoutChange();
+    await delay(500);
+
+    await snapWindows(windows[1].identity as WindowIdentity, windows[0].identity as WindowIdentity, {edge: 'bottom'});
+
+    t.false(await redoLayoutChange());
+});
@@ -0,0 +1,322 @@
+import {SnapConfig, SnapEdge, SnapPolicy} from '../../../src/client/types';
+import {DEFAULT_SNAP_POLICY} from '../../../src/provider/snapanddock/Config';
+import {eSnapValidity, Resolver, SnapTarget} from '../../../src/provider/snapanddock/Resolver';
+import {SnapConfigManager} from '../../../src/provider/snapanddock/SnapConfigManager';
+import {applySnapTarget, getNeighbours, SnapModelGroup, SnapModelWindow} from '../../../src/provider/snapanddock/SnapModel';
+import {WindowIdentity, WindowState} from '../../../src/provider/snapanddock/SnapWindow';
+import {Point} from '../../../src/provider/snapanddock/utils/PointUtils';
+import {Rectangle} from '../../../src/provider/snapanddock/utils/RectUtils';
+import {SnapPolicyUtils} from '../../../src/provider/snapanddock/utils/SnapPolicyUtils';
+
+/**
+ * Window bounds, in the same format as the OpenFin API
+ */
+export interface SimulatedBounds {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * A single drag operation, as performed by a user.
+ */
+export interface DragStep {
+    /**
+     * Name of the window that is dragged. The rest of that window's group will move along with it.
+     */
+    window: string;
+
+    /**
+     * Positions of the top-left corner of the window as it is dragged. The window is released at the final position,
+     * at which point any valid snap target is applied.
+     */
+    path: Point[];
+}
+
+export interface SimulatorOptions {
+    /**
+     * The work area of each monitor. Windows will not be snapped to monitor edges unless this is specified.
+     */
+    workAreas?: SimulatedBounds[];
+
+    /**
+     * Overrides for the default snap thresholds
+     */
+    config?: Partial<SnapConfig>;
+}
+
+type SimulatedTarget = SnapTarget<SimulatedWindow, SimulatedGroup>;
+
+class SimulatedWindow implements SnapModelWindow<SimulatedGroup> {
+    public group: SimulatedGroup;
+
+    private identity: WindowIdentity;
+    private state: WindowState;
+    private policy: SnapPolicy;
+
+    constructor(identity: WindowIdentity, state: WindowState, policy: SnapPolicy, group: SimulatedGroup) {
+        this.identity = identity;
+        this.state = state;
+        this.policy = policy;
+        this.group = group;
+
+        group.windows.push(this);
+    }
+
+    public getState(): WindowState {
+        return this.state;
+    }
+
+    public getIdentity(): WindowIdentity {
+        return this.identity;
+    }
+
+    public getPolicy(): SnapPolicy {
+        return this.policy;
+    }
+
+    public getGroup(): SimulatedGroup {
+        return this.group;
+    }
+}
+
+class SimulatedGroup implements SnapModelGroup<SimulatedWindow> {
+    public readonly windows: SimulatedWindow[] = [];
+
+    public get length(): number {
+        return this.windows.length;
+    }
+
+    public get center(): Point {
+        const {min, max} = this.getExtents();
+        return {x: (min.x + max.x) / 2, y: (min.y + max.y) / 2};
+    }
+
+    public get halfSize(): Point {
+        const {min, max} = this.getExtents();
+        return {x: (max.x - min.x) / 2, y: (max.y - min.y) / 2};
+    }
+
+    private getExtents(): {min: Point, max: Point} {
+        const min: Point = {x: Number.POSITIVE_INFINITY, y: Number.POSITIVE_INFINITY};
+        const max: Point = {x: Number.NEGATIVE_INFINITY, y: Number.NEGATIVE_INFINITY};
+
+        this.windows.forEach((window: SimulatedWindow) => {
+            const {center, halfSize} = window.getState();
+
+            min.x = Math.min(min.x, center.x - halfSize.x);
+            min.y = Math.min(min.y, center.y - halfSize.y);
+            max.x = Math.max(max.x, center.x + halfSize.x);
+            max.y = Math.max(max.y, center.y + halfSize.y);
+        });
+
+        return {min, max};
+    }
+}
+
+/**
+ * Headless simulation of the snap & dock service, for testing snap behaviour without the OpenFin runtime.
+ *
+ * Windows are plain rectangles, and are dragged and snapped using the same resolver as the service. Snap targets are
+ * applied using the same applySnapTarget function as SnapService, with the simulator taking the place of the runtime
+ * when moving windows between groups.
+ */
+export class SnapSimulator {
+    private resolver: Resolver<SimulatedWindow, SimulatedGroup>;
+    private windows: Map<string, SimulatedWindow>;
+    private groups: SimulatedGroup[];
+
+    /**
+     * The target that would be applied if the window currently being dragged were released
+     */
+    private mTarget: SimulatedTarget|null;
+
+    constructor(options: SimulatorOptions = {}) {
+        const configManager: SnapConfigManager = new SnapConfigManager();
+        const workAreas: Rectangle[] = (options.workAreas || []).map(toRectangle);
+
+        if (options.config) {
+            configManager.setDefaultConfig(options.config);
+        }
+
+        this.resolver = new Resolver(configManager, {workAreas}, () => false);
+        this.windows = new Map();
+        this.groups = [];
+        this.mTarget = null;
+    }
+
+    /**
+     * The snap target that was found at the last position of the most recent drag
+     */
+    public get target(): SnapTarget<{}, {}>|null {
+        return this.mTarget;
+    }
+
+    /**
+     * Creates a new window, in a group of it's own.
+     *
+     * @param name Used to refer to this window in all other calls to the simulator
+     * @param bounds The initial position and size of the window
+     * @param uuid The application that the window belongs to, for the purposes of per-application snap config
+     * @param policy The snap policy of the window. Any values not specified will use the default policy.
+     */
+    public addWindow(name: string, bounds: SimulatedBounds, uuid = 'simulated-app', policy: Partial<SnapPolicy> = {}): void {
+        if (this.windows.has(name)) {
+            throw new Error(`Window "${name}" already exists`);
+        }
+
+        const state: WindowState = {
+            ...toRectangle(bounds),
+            frame: false,
+            hidden: false,
+            state: 'normal',
+            minWidth: 0,
+            maxWidth: -1,
+            minHeight: 0,
+            maxHeight: -1,
+            opacity: 1
+        };
+
+        this.windows.set(name, new SimulatedWindow({uuid, name}, state, SnapPolicyUtils.merge(DEFAULT_SNAP_POLICY, policy), this.createGroup()));
+    }
+
+    /**
+     * Drags a window (and the rest of it's group) through each point in 'path', and then releases it.
+     *
+     * @param name The window to drag
+     * @param path Positions of the top-left corner of the window
+     */
+    public drag(name: string, ...path: Point[]): void {
+        const window: SimulatedWindow = this.getWindow(name);
+        const group: SimulatedGroup = window.getGroup();
+
+        path.forEach((position: Point) => {
+            const state: WindowState = window.getState();
+            const offset: Point = {x: position.x - (state.center.x - state.halfSize.x), y: position.y - (state.center.y - state.halfSize.y)};
+
+            group.windows.forEach((groupWindow: SimulatedWindow) => {
+                const center: Point = groupWindow.getState().center;
+
+                center.x += offset.x;
+                center.y += offset.y;
+            });
+
+            this.mTarget = this.resolver.getSnapTarget(this.groups, group);
+        });
+
+        if (this.mTarget && this.mTarget.validity === eSnapValidity.VALID) {
+            this.applyTarget(group, this.mTarget);
+        }
+    }
+
+    /**
+     * Moves a window (and the rest of it's group) against the closest window in the given direction, in the same way
+     * as SnapService.dockToNeighbour.
+     *
+     * @param name The window to dock
+     * @param edge The edge of the window that should be snapped to it's neighbour
+     */
+    public dock(name: string, edge: SnapEdge): void {
+        const window: SimulatedWindow = this.getWindow(name);
+
+        this.mTarget = this.resolver.getSnapTargetInDirection(this.groups, window, edge);
+
+        if (this.mTarget && this.mTarget.validity === eSnapValidity.VALID) {
+            this.applyTarget(window.getGroup(), this.mTarget);
+        }
+    }
+
+    /**
+     * Performs each drag in turn
+     */
+    public replay(steps: DragStep[]): void {
+        steps.forEach((step: DragStep) => this.drag(step.window, ...step.path));
+    }
+
+    public getBounds(name: string): SimulatedBounds {
+        const {center, halfSize} = this.getWindow(name).getState();
+
+        return {left: center.x - halfSize.x, top: center.y - halfSize.y, width: halfSize.x * 2, height: halfSize.y * 2};
+    }
+
+    /**
+     * Returns the name of each window, arranged by group. Windows within each group are sorted alphabetically, and
+     * groups are sorted by their first window.
+     */
+    public getGroups(): string[][] {
+        return this.groups.map(group => group.windows.map(window => window.getIdentity().name).sort()).sort((a, b) => a[0].localeCompare(b[0]));
+    }
+
+    /**
+     * Returns the windows that are directly attached to a window, and the edge of that window that each is attached to.
+     * Uses the same logic as SnapGroup.getNeighbours.
+     */
+    public getNeighbours(name: string): {name: string, edge: SnapEdge}[] {
+        const window: SimulatedWindow = this.getWindow(name);
+
+        return getNeighbours(window, window.getGroup().windows).map(neighbour => ({name: neighbour.window.getIdentity().name, edge: neighbour.edge}));
+    }
+
+    public isGrouped(name1: string, name2: string): boolean {
+        return this.getWindow(name1).getGroup() === this.getWindow(name2).getGroup();
+    }
+
+    private getWindow(name: string): SimulatedWindow {
+        const window: SimulatedWindow|undefined = this.windows.get(name);
+
+        if (!window) {
+            throw new Error(`No window named "${name}"`);
+        }
+
+        return window;
+    }
+
+    private createGroup(): SimulatedGroup {
+        const group: SimulatedGroup = new SimulatedGroup();
+        this.groups.push(group);
+        return group;
+    }
+
+    private applyTarget(activeGroup: SimulatedGroup, target: SimulatedTarget): void {
+        applySnapTarget(activeGroup, target, {
+            // Simulates the native group, by moving every window within the group
+            moveWindow: (window: SimulatedWindow, offset: Point, halfSize: Point|undefined) => {
+                window.getGroup().windows.forEach(groupWindow => moveWindow(groupWindow, offset, groupWindow === window ? halfSize : undefined));
+            },
+            addToGroup: (window: SimulatedWindow, group: SimulatedGroup, offset: Point, halfSize: Point|undefined) => {
+                const prevGroup: SimulatedGroup = window.getGroup();
+
+                moveWindow(window, offset, halfSize);
+
+                prevGroup.windows.splice(prevGroup.windows.indexOf(window), 1);
+                if (prevGroup.windows.length === 0) {
+                    this.groups.splice(this.groups.indexOf(prevGroup), 1);
+                }
+
+                window.group = group;
+                group.windows.push(window);
+            }
+        });
+    }
+}
+
+/**
+ * Moves a window by 'offset'. If a new halfSize is given, the window is resized about it's top-left corner.
+ */
+function moveWindow(window: SimulatedWindow, offset: Point, halfSize: Point|undefined): void {
+    const state: WindowState = window.getState();
+
+    state.center = {x: state.center.x + offset.x, y: state.center.y + offset.y};
+
+    if (halfSize) {
+        state.center.x += halfSize.x - state.halfSize.x;
+        state.center.y += halfSize.y - state.halfSize.y;
+        state.halfSize = {...halfSize};
+    }
+}
+
+function toRectangle(bounds: SimulatedBounds): Rectangle {
+    const halfSize: Point = {x: bounds.width / 2, y: bounds.height / 2};
+    return {center: {x: bounds.left + halfSize.x, y: bounds.top + halfSize.y}, halfSize};
+}
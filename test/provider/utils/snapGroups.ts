@@ -0,0 +1,54 @@
+import {Fin} from 'hadouken-js-adapter';
+
+import {getConnection} from './connect';
+
+// TODO - Change client/service file structure to allow importing these values
+export interface WindowIdentity {
+    uuid: string;
+    name: string;
+}
+
+const getClientConnection = async () => {
+    const fin: Fin = await getConnection();
+    return fin.InterApplicationBus.Channel.connect({uuid: 'layouts-service'});
+};
+
+export async function getSnapGroup(identity: WindowIdentity): Promise<number> {
+    const client = await getClientConnection();
+    return client.dispatch('getSnapGroup', identity);
+}
+
+export async function getSnapGroupWindows(groupId: number): Promise<WindowIdentity[]> {
+    const client = await getClientConnection();
+    return client.dispatch('getSnapGroupWindows', groupId);
+}
+
+export async function undockGroup(groupId: number) {
+    const client = await getClientConnection();
+    await client.dispatch('undockGroup', groupId);
+}
+
+export async function snapWindows(source: WindowIdentity, target: WindowIdentity, options: {edge: string; align?: string}) {
+    const client = await getClientConnection();
+    await client.dispatch('snapWindows', {source, target, options});
+}
+
+export async function undoLastLayoutChange(): Promise<boolean> {
+    const client = await getClientConnection();
+    return client.dispatch('undoLastLayoutChange');
+}
+
+export async function redoLayoutChange(): Promise<boolean> {
+    const client = await getClientConnection();
+    return client.dispatch('redoLayoutChange');
+}
+
+export async function maximizeSnapGroup(identity: WindowIdentity) {
+    const client = await getClientConnection();
+    await client.dispatch('maximizeSnapGroup', identity);
+}
+
+export async function restoreSnapGroup(identity: WindowIdentity) {
+    const client = await getClientConnection();
+    await client.dispatch('restoreSnapGroup', identity);
+}
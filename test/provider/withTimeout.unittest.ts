@@ -0,0 +1,36 @@
+import 'jest';
+
+import {withTimeout} from '../../src/provider/snapanddock/utils/async';
+
+beforeEach(() => {
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('Tests for waiting on a promise with a timeout', () => {
+    it('should resolve with the value of a promise that settles in time', async () => {
+        await expect(withTimeout(1000, Promise.resolve('value'))).resolves.toEqual({timedOut: false, value: 'value'});
+    });
+
+    it('should resolve with timedOut set if the promise does not settle in time', async () => {
+        const result = withTimeout(1000, new Promise(() => {}));
+        jest.advanceTimersByTime(1000);
+
+        await expect(result).resolves.toEqual({timedOut: true});
+    });
+
+    it('should reject if the promise rejects before the timeout', async () => {
+        await expect(withTimeout(1000, Promise.reject(new Error('failed')))).rejects.toThrowError('failed');
+    });
+
+    it('should clear the timer once the promise settles', async () => {
+        const clearTimeout = jest.spyOn(window, 'clearTimeout');
+        await withTimeout(1000, Promise.resolve());
+
+        expect(clearTimeout).toHaveBeenCalledTimes(1);
+        clearTimeout.mockRestore();
+    });
+});
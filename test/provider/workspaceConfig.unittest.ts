@@ -0,0 +1,38 @@
+import 'jest';
+
+import {ServiceConfig, WorkspaceConfig} from '../../src/client/types';
+import {DEFAULT_WORKSPACE_CONFIG, getWorkspaceConfig} from '../../src/provider/workspaces/config';
+
+let mockConfig: ServiceConfig;
+
+jest.mock('../../src/provider/manifest', () => ({
+    get serviceConfig() {
+        return Promise.resolve(mockConfig);
+    }
+}));
+
+beforeEach(() => {
+    mockConfig = {};
+});
+
+describe('Tests for workspace config', () => {
+    it('should use the default config if the manifest does not contain any workspace config', async () => {
+        expect(await getWorkspaceConfig()).toEqual(DEFAULT_WORKSPACE_CONFIG);
+    });
+
+    it('should override the defaults with values from the manifest', async () => {
+        mockConfig = {workspace: {saveTimeout: 0, restoreTimeout: 60000}};
+
+        expect(await getWorkspaceConfig()).toEqual({...DEFAULT_WORKSPACE_CONFIG, saveTimeout: 0, restoreTimeout: 60000});
+    });
+
+    it('should ignore invalid values within the manifest', async () => {
+        const warn = jest.spyOn(console, 'warn');
+        warn.mockImplementation(() => {});
+        mockConfig = {workspace: {saveTimeout: -1, restoreTimeout: '1000', customDataSizeLimit: 10} as {} as Partial<WorkspaceConfig>};
+
+        expect(await getWorkspaceConfig()).toEqual({...DEFAULT_WORKSPACE_CONFIG, customDataSizeLimit: 10});
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+});